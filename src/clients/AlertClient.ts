@@ -0,0 +1,83 @@
+import { winston, getCurrentTime } from "../utils";
+
+interface AlertState {
+  description: string; // Short description of the condition, used when reporting that it resolved.
+  openedAt: number;
+  lastAlertedAt: number;
+}
+
+// The subset of the redis client used to persist alert state. Clients returned by redis' createClient implement it.
+export interface AlertRedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+}
+
+export interface AlertUpdate {
+  opened: string[]; // Keys of conditions seen for the first time.
+  reminders: string[]; // Keys of conditions still open that are due a reminder.
+  resolved: { [key: string]: string }; // Keys of conditions that cleared, mapped to their description.
+}
+
+// Tracks which alert conditions are open so that callers alert once when a condition appears, again when it resolves,
+// and otherwise only remind about it every reminderInterval seconds. Conditions are grouped by category, for example
+// token shortfalls, and keyed within it, for example by chain and token. If a redis client is provided then state is
+// persisted so that restarting the bot does not re-send every open alert. Persisted state is namespaced by the relayer
+// address, so that relayers sharing a redis instance do not resolve each other's alerts.
+export class AlertClient {
+  private alerts: { [category: string]: { [key: string]: AlertState } } = {};
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly relayerAddress: string,
+    readonly reminderInterval: number = 3600,
+    readonly redisClient?: AlertRedisClient
+  ) {}
+
+  // Set the conditions that are currently open for the category. Returns which need to be alerted on.
+  async updateAlerts(category: string, openConditions: { [key: string]: string }): Promise<AlertUpdate> {
+    const alerts = await this.getAlerts(category);
+    const currentTime = getCurrentTime();
+    const update: AlertUpdate = { opened: [], reminders: [], resolved: {} };
+
+    for (const [key, description] of Object.entries(openConditions)) {
+      if (alerts[key] === undefined) {
+        alerts[key] = { description, openedAt: currentTime, lastAlertedAt: currentTime };
+        update.opened.push(key);
+      } else if (currentTime - alerts[key].lastAlertedAt >= this.reminderInterval) {
+        alerts[key] = { ...alerts[key], description, lastAlertedAt: currentTime };
+        update.reminders.push(key);
+      }
+    }
+    for (const key of Object.keys(alerts)) {
+      if (openConditions[key] !== undefined) continue;
+      update.resolved[key] = alerts[key].description;
+      delete alerts[key];
+    }
+
+    if (update.opened.length > 0 || update.reminders.length > 0 || Object.keys(update.resolved).length > 0) {
+      this.logger.debug({ at: "AlertClient", message: `Updated ${category} alerts`, update });
+      await this.saveAlerts(category);
+    }
+    return update;
+  }
+
+  getOpenAlerts(category: string): { [key: string]: AlertState } {
+    return this.alerts[category] ?? {};
+  }
+
+  private async getAlerts(category: string): Promise<{ [key: string]: AlertState }> {
+    if (this.alerts[category] === undefined) {
+      const stored = this.redisClient ? await this.redisClient.get(this.getRedisKey(category)) : null;
+      this.alerts[category] = stored !== null ? JSON.parse(stored) : {};
+    }
+    return this.alerts[category];
+  }
+
+  private async saveAlerts(category: string) {
+    if (this.redisClient) await this.redisClient.set(this.getRedisKey(category), JSON.stringify(this.alerts[category]));
+  }
+
+  private getRedisKey(category: string) {
+    return `alerts_${this.relayerAddress}_${category}`;
+  }
+}
@@ -7,6 +7,7 @@ import {
   spreadEventWithBlockNumber,
   paginatedEventQuery,
   EventSearchConfig,
+  EventFilter,
   utf8ToHex,
   getCurrentTime,
 } from "../utils";
@@ -15,6 +16,8 @@ import { L1TokenTransferThreshold, Deposit, TokenConfig, GlobalConfigUpdate } fr
 import { lpFeeCalculator } from "@across-protocol/sdk-v2";
 import { BlockFinder, across } from "@uma/sdk";
 import { HubPoolClient } from "./HubPoolClient";
+import { EventCache } from "./EventCache";
+import { ReorgTracker } from "./ReorgTracker";
 import { createClient } from "redis4";
 
 export const GLOBAL_CONFIG_STORE_KEYS = {
@@ -33,6 +36,7 @@ export class AcrossConfigStoreClient {
   private rateModelDictionary: across.rateModel.RateModelDictionary;
   public firstBlockToSearch: number;
 
+  private reorgTracker: ReorgTracker;
   public isUpdated: boolean = false;
 
   public client: ReturnType<typeof createClient>;
@@ -42,9 +46,12 @@ export class AcrossConfigStoreClient {
     readonly configStore: Contract, // TODO: Rename to ConfigStore
     readonly hubPoolClient: HubPoolClient,
     readonly eventSearchConfig: EventSearchConfig = { fromBlock: 0, toBlock: null, maxBlockLookBack: 0 },
-    readonly redisClient?: ReturnType<typeof createClient>
+    readonly redisClient?: ReturnType<typeof createClient>,
+    readonly eventCache?: EventCache,
+    readonly finalityMargin?: number
   ) {
     this.firstBlockToSearch = eventSearchConfig.fromBlock;
+    this.reorgTracker = new ReorgTracker(logger, "ConfigStore", configStore.provider, finalityMargin);
     this.blockFinder = new BlockFinder(this.configStore.provider.getBlock.bind(this.configStore.provider));
     this.rateModelDictionary = new across.rateModel.RateModelDictionary();
   }
@@ -102,18 +109,22 @@ export class AcrossConfigStoreClient {
   }
 
   async update() {
+    const latestBlock = await this.configStore.provider.getBlockNumber();
+    const reorg = await this.reorgTracker.findReorg();
+    if (reorg) this.rollback(reorg.forkBlock);
     const searchConfig = {
       fromBlock: this.firstBlockToSearch,
-      toBlock: this.eventSearchConfig.toBlock || (await this.configStore.provider.getBlockNumber()),
+      toBlock: this.eventSearchConfig.toBlock || latestBlock,
       maxBlockLookBack: this.eventSearchConfig.maxBlockLookBack,
     };
     if (searchConfig.fromBlock > searchConfig.toBlock) return; // If the starting block is greater than
 
     this.logger.debug({ at: "ConfigStore", message: "Updating ConfigStore client", searchConfig });
     if (searchConfig[0] > searchConfig[1]) return; // If the starting block is greater than the ending block return.
+    await this.reorgTracker.startSearch(searchConfig.fromBlock, searchConfig.toBlock, latestBlock);
     const [updatedTokenConfigEvents, updatedGlobalConfigEvents] = await Promise.all([
-      paginatedEventQuery(this.configStore, this.configStore.filters.UpdatedTokenConfig(), searchConfig),
-      paginatedEventQuery(this.configStore, this.configStore.filters.UpdatedGlobalConfig(), searchConfig),
+      this.queryEvents(this.configStore.filters.UpdatedTokenConfig(), searchConfig),
+      this.queryEvents(this.configStore.filters.UpdatedGlobalConfig(), searchConfig),
     ]);
 
     // Save new TokenConfig updates.
@@ -167,12 +178,28 @@ export class AcrossConfigStoreClient {
 
     this.rateModelDictionary.updateWithEvents(this.cumulativeRateModelUpdates);
 
+    await this.reorgTracker.finishSearch([...updatedTokenConfigEvents, ...updatedGlobalConfigEvents]);
     this.isUpdated = true;
     this.firstBlockToSearch = searchConfig.toBlock + 1; // Next iteration should start off from where this one ended.
 
     this.logger.debug({ at: "ConfigStore", message: "ConfigStore client updated!" });
   }
 
+  // Drops the config updates from blocks that were reorged out, so that the next search queries them again.
+  private rollback(forkBlock: number) {
+    const beforeFork = (event: { blockNumber: number }) => event.blockNumber < forkBlock;
+    this.cumulativeRateModelUpdates = this.cumulativeRateModelUpdates.filter(beforeFork);
+    this.cumulativeTokenTransferUpdates = this.cumulativeTokenTransferUpdates.filter(beforeFork);
+    this.cumulativeMaxRefundCountUpdates = this.cumulativeMaxRefundCountUpdates.filter(beforeFork);
+    this.cumulativeMaxL1TokenCountUpdates = this.cumulativeMaxL1TokenCountUpdates.filter(beforeFork);
+    this.firstBlockToSearch = Math.min(this.firstBlockToSearch, forkBlock);
+  }
+
+  private async queryEvents(filter: EventFilter, searchConfig: EventSearchConfig) {
+    if (this.eventCache) return await this.eventCache.queryEvents(this.configStore, filter, searchConfig);
+    return await paginatedEventQuery(this.configStore, filter, searchConfig, this.logger);
+  }
+
   private async getBlockNumber(timestamp: number) {
     if (!this.redisClient) return (await this.blockFinder.getBlockForTimestamp(timestamp)).number;
     const key = `block_number_${timestamp}`;
@@ -0,0 +1,268 @@
+import { BigNumber, Contract, Event, EventFilter, EventSearchConfig, winston } from "../utils";
+import { getNetworkName, paginatedEventQuery } from "../utils";
+import { CachedEvent, EventCacheEntry, EventCacheSegment, EventStore } from "../interfaces";
+
+export interface EventCacheMismatch {
+  key: string;
+  fromBlock: number;
+  toBlock: number;
+  cachedEvents: number;
+  fetchedEvents: number;
+}
+
+// Caches each contract's events by event name in a persistent store, so that clients load the history that they have
+// already queried and only query blocks after it. Only events at least the chain's finality margin behind the chain's
+// latest block are cached, as more recent blocks may still be reorged. Chains without a finality margin, and filters on
+// indexed arguments, are always queried from the chain. Each entry's events are stored in segments of at most
+// segmentBlocks blocks, which are only read from the store once a query covers their blocks. New blocks are appended to
+// the last segment while it is not full, and otherwise to new segments, so that extending an entry does not rewrite it.
+export class EventCache {
+  private entries: { [key: string]: EventCacheEntry | undefined } = {};
+  private loadedKeys = new Set<string>();
+  private segmentEvents: { [segmentKey: string]: CachedEvent[] } = {};
+  private keyQueues: { [key: string]: Promise<unknown> } = {};
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly store: EventStore,
+    readonly finalityMargins: { [chainId: number]: number },
+    readonly segmentBlocks: number = 100000
+  ) {}
+
+  // Drop in replacement for paginatedEventQuery.
+  async queryEvents(contract: Contract, filter: EventFilter, searchConfig: EventSearchConfig): Promise<Event[]> {
+    const eventName = this.getEventName(contract, filter);
+    const { chainId } = await contract.provider.getNetwork();
+    if (eventName === undefined || this.finalityMargins[chainId] === undefined)
+      return await paginatedEventQuery(contract, filter, searchConfig, this.logger);
+
+    // Queries of the same entry run one after the other, so that each one sees the blocks that the previous one cached.
+    const key = `${chainId}:${contract.address}:${eventName}`;
+    const result = (this.keyQueues[key] ?? Promise.resolve()).then(() =>
+      this.queryEntry(key, chainId, contract, filter, searchConfig)
+    );
+    this.keyQueues[key] = result.catch(() => undefined);
+    return await result;
+  }
+
+  // Re-fetches up to samples ranges of at most rangeSize blocks from each of the contract's cache entries and returns
+  // the ranges whose events differ from the cached events.
+  async verify(contract: Contract, samples: number, rangeSize: number): Promise<EventCacheMismatch[]> {
+    const { chainId } = await contract.provider.getNetwork();
+    const prefix = `${chainId}:${contract.address}:`;
+    // Segments are stored under their entry's key followed by their block range.
+    const keys = (await this.store.keys()).filter(
+      (key) => key.startsWith(prefix) && !key.slice(prefix.length).includes(":")
+    );
+    const mismatches: EventCacheMismatch[] = [];
+    for (const key of keys) {
+      const entry = await this.getEntry(key);
+      if (entry === undefined) continue;
+      const eventName = key.slice(prefix.length);
+      for (const [fromBlock, toBlock] of sampleRanges(entry, samples, rangeSize)) {
+        const cached = await this.getEvents(key, entry, fromBlock, toBlock);
+        const fetched = (
+          await paginatedEventQuery(
+            contract,
+            contract.filters[eventName](),
+            { fromBlock, toBlock, maxBlockLookBack: rangeSize },
+            this.logger
+          )
+        ).map(serializeEvent);
+        if (JSON.stringify(cached) !== JSON.stringify(fetched))
+          mismatches.push({ key, fromBlock, toBlock, cachedEvents: cached.length, fetchedEvents: fetched.length });
+      }
+      this.logger.debug({
+        at: "EventCache",
+        message: `Verified cached ${eventName} events on ${getNetworkName(chainId)}`,
+        key,
+        fromBlock: entry.fromBlock,
+        toBlock: entry.toBlock,
+      });
+    }
+    return mismatches;
+  }
+
+  private async queryEntry(
+    key: string,
+    chainId: number,
+    contract: Contract,
+    filter: EventFilter,
+    searchConfig: EventSearchConfig
+  ): Promise<Event[]> {
+    const latestBlock = await contract.provider.getBlockNumber();
+    const fromBlock = searchConfig.fromBlock;
+    const toBlock = searchConfig.toBlock ?? latestBlock;
+    const finalityMargin = this.finalityMargins[chainId];
+    const finalBlock = Math.min(toBlock, latestBlock - finalityMargin);
+    const entry = await this.getEntry(key);
+
+    // The entry is only extended from its last block. If the search starts before the entry, or more than the finality
+    // margin after it, the search is queried from the chain as is. A search that covers more than the entry replaces it.
+    if (entry === undefined || entry.fromBlock > fromBlock || fromBlock - entry.toBlock - 1 > finalityMargin) {
+      const events = await paginatedEventQuery(contract, filter, searchConfig, this.logger);
+      if (
+        fromBlock <= finalBlock &&
+        (entry === undefined || (entry.fromBlock > fromBlock && finalBlock >= entry.toBlock))
+      )
+        await this.appendEvents(
+          key,
+          { fromBlock, toBlock: fromBlock - 1, segments: [] },
+          finalBlock,
+          events.filter((event) => event.blockNumber <= finalBlock).map(serializeEvent),
+          entry?.segments
+        );
+      return events;
+    }
+
+    const cachedEvents = (await this.getEvents(key, entry, fromBlock, toBlock)).map(deserializeEvent);
+    if (entry.toBlock >= toBlock) return cachedEvents;
+
+    const newEvents = await paginatedEventQuery(
+      contract,
+      filter,
+      { ...searchConfig, fromBlock: entry.toBlock + 1, toBlock },
+      this.logger
+    );
+    if (finalBlock > entry.toBlock)
+      await this.appendEvents(
+        key,
+        entry,
+        finalBlock,
+        newEvents.filter((event) => event.blockNumber <= finalBlock).map(serializeEvent)
+      );
+    this.logger.debug({
+      at: "EventCache",
+      message: `Loaded ${cachedEvents.length} cached events on ${getNetworkName(chainId)}`,
+      key,
+      searchConfig,
+      cachedToBlock: entry.toBlock,
+      newEvents: newEvents.length,
+    });
+    return [...cachedEvents, ...newEvents.filter((event) => event.blockNumber >= fromBlock)];
+  }
+
+  // Entries are read from the store once per process and kept in memory after that.
+  private async getEntry(key: string): Promise<EventCacheEntry | undefined> {
+    if (!this.loadedKeys.has(key)) {
+      const stored = await this.store.get(key);
+      this.entries[key] = stored !== undefined ? JSON.parse(stored, reviveBigNumbers) : undefined;
+      this.loadedKeys.add(key);
+    }
+    return this.entries[key];
+  }
+
+  // Events of the entry between fromBlock and toBlock, read from the segments that cover them.
+  private async getEvents(
+    key: string,
+    entry: EventCacheEntry,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CachedEvent[]> {
+    const events: CachedEvent[] = [];
+    for (const segment of entry.segments)
+      if (segment.toBlock >= fromBlock && segment.fromBlock <= toBlock)
+        events.push(...(await this.getSegmentEvents(key, segment)));
+    return events.filter((event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock);
+  }
+
+  // Extend the entry with the events of the blocks after it up to toBlock, and replace the entry's replacedSegments.
+  // Segments are written before the entry that lists them and replaced segments are only deleted after it, so that the
+  // stored entry only lists stored segments even if the process stops mid write.
+  private async appendEvents(
+    key: string,
+    entry: EventCacheEntry,
+    toBlock: number,
+    events: CachedEvent[],
+    replacedSegments: EventCacheSegment[] = []
+  ) {
+    const segments = [...entry.segments];
+    const removedSegments = [...replacedSegments];
+    let fromBlock = entry.toBlock + 1;
+    const lastSegment = segments[segments.length - 1];
+    if (lastSegment !== undefined && lastSegment.toBlock - lastSegment.fromBlock + 1 < this.segmentBlocks) {
+      events = [...(await this.getSegmentEvents(key, lastSegment)), ...events];
+      fromBlock = lastSegment.fromBlock;
+      removedSegments.push(segments.pop());
+    }
+    for (let segmentFromBlock = fromBlock; segmentFromBlock <= toBlock; segmentFromBlock += this.segmentBlocks) {
+      const segment = {
+        fromBlock: segmentFromBlock,
+        toBlock: Math.min(segmentFromBlock + this.segmentBlocks - 1, toBlock),
+      };
+      const segmentEvents = events.filter(
+        (event) => event.blockNumber >= segment.fromBlock && event.blockNumber <= segment.toBlock
+      );
+      this.segmentEvents[getSegmentKey(key, segment)] = segmentEvents;
+      await this.store.set(getSegmentKey(key, segment), JSON.stringify(segmentEvents));
+      segments.push(segment);
+    }
+
+    this.entries[key] = { fromBlock: entry.fromBlock, toBlock, segments };
+    this.loadedKeys.add(key);
+    await this.store.set(key, JSON.stringify(this.entries[key]));
+    const segmentKeys = new Set(segments.map((segment) => getSegmentKey(key, segment)));
+    for (const segmentKey of removedSegments.map((segment) => getSegmentKey(key, segment)))
+      if (!segmentKeys.has(segmentKey)) {
+        delete this.segmentEvents[segmentKey];
+        await this.store.delete(segmentKey);
+      }
+  }
+
+  // Segments are read from the store once per process and kept in memory after that.
+  private async getSegmentEvents(key: string, segment: EventCacheSegment): Promise<CachedEvent[]> {
+    const segmentKey = getSegmentKey(key, segment);
+    if (this.segmentEvents[segmentKey] === undefined) {
+      const stored = await this.store.get(segmentKey);
+      if (stored === undefined) throw new Error(`Cached events of segment ${segmentKey} are missing`);
+      this.segmentEvents[segmentKey] = JSON.parse(stored, reviveBigNumbers);
+    }
+    return this.segmentEvents[segmentKey];
+  }
+
+  // Only filters on an event's topic are cached. Filters on indexed arguments return a subset of the event's history.
+  private getEventName(contract: Contract, filter: EventFilter): string | undefined {
+    const topics = filter.topics ?? [];
+    if (topics.length !== 1 || typeof topics[0] !== "string") return undefined;
+    return contract.interface.getEvent(topics[0]).name;
+  }
+}
+
+function getSegmentKey(key: string, { fromBlock, toBlock }: EventCacheSegment): string {
+  return `${key}:${fromBlock}-${toBlock}`;
+}
+
+function serializeEvent(event: Event): CachedEvent {
+  const keys = Object.keys(event.args).filter((key: string) => isNaN(+key)); // Extract non-numeric keys.
+  return {
+    event: event.event,
+    args: Object.fromEntries(keys.map((key) => [key, event.args[key]])),
+    blockNumber: event.blockNumber,
+    transactionIndex: event.transactionIndex,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+  };
+}
+
+// Cached events only hold the fields that the clients read from queried events.
+function deserializeEvent(event: CachedEvent): Event {
+  return { ...event, args: { ...event.args } } as unknown as Event;
+}
+
+function reviveBigNumbers(_key: string, value: any) {
+  return value?.type === "BigNumber" && value.hex !== undefined ? BigNumber.from(value.hex) : value;
+}
+
+function sampleRanges(entry: EventCacheEntry, samples: number, rangeSize: number): [number, number][] {
+  const blocks = entry.toBlock - entry.fromBlock + 1;
+  if (blocks <= samples * rangeSize) {
+    const ranges: [number, number][] = [];
+    for (let from = entry.fromBlock; from <= entry.toBlock; from += rangeSize)
+      ranges.push([from, Math.min(from + rangeSize - 1, entry.toBlock)]);
+    return ranges;
+  }
+  return Array.from({ length: samples }, () => {
+    const from = entry.fromBlock + Math.floor(Math.random() * (blocks - rangeSize + 1));
+    return [from, from + rangeSize - 1];
+  });
+}
@@ -0,0 +1,184 @@
+import { assign, BigNumber, winston, toBN, getRefund, utils, getNetworkName } from "../utils";
+import { HubPoolClient, PendingFillClient, SpokePoolClient } from ".";
+import { Deposit, ExposureLimits, FillWithBlock, RelayerRefundExecution } from "../interfaces";
+
+export interface ExposureLimitBreach {
+  key: string; // Identifies the cap that was reached, for example the L1 token and the repayment chain.
+  description: string; // Short description of the cap, used when reporting that exposure is back under it.
+  reason: string;
+}
+
+// Refunds owed to the relayer, keyed by L1 token, then by repayment chain and destination chain.
+type Exposures = { [l1Token: string]: { [repaymentChainId: number]: { [destinationChainId: number]: BigNumber } } };
+
+// Tracks how much of the relayer's capital is outstanding, i.e. sent in fills and waiting on a refund, and enforces the
+// configured caps on it. Exposure is the refund owed for each of the relayer's fills, mined or pending, that no executed
+// relayer refund leaf has repaid yet. A leaf repays the relayer's fills on its repayment chain and token whose block on
+// their destination chain is within the block ranges of the leaf's root bundle.
+export class ExposureClient {
+  private exposureLimitedFills: { [key: string]: { description: string; reason: string; deposits: Deposit[] } } = {};
+  private exposures: Exposures = {};
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly relayerAddress: string,
+    readonly spokePoolClients: { [chainId: number]: SpokePoolClient },
+    readonly hubPoolClient: HubPoolClient,
+    readonly pendingFillClient: PendingFillClient,
+    readonly chainIdListForBundleEvaluationBlockNumbers: number[],
+    readonly exposureLimits: ExposureLimits = {}
+  ) {}
+
+  getExposure(l1Token: string, filter: { repaymentChainId?: number; destinationChainId?: number } = {}): BigNumber {
+    let exposure = toBN(0);
+    for (const [repaymentChainId, byDestination] of Object.entries(this.exposures[l1Token] ?? {}))
+      for (const [destinationChainId, amount] of Object.entries(byDestination)) {
+        if (filter.repaymentChainId !== undefined && Number(repaymentChainId) !== filter.repaymentChainId) continue;
+        if (filter.destinationChainId !== undefined && Number(destinationChainId) !== filter.destinationChainId)
+          continue;
+        exposure = exposure.add(amount);
+      }
+    return exposure;
+  }
+
+  // Returns the first cap that filling the deposit would exceed, or undefined if the fill is within all caps.
+  getExposureLimitBreach(
+    deposit: Deposit,
+    fillAmount: BigNumber,
+    repaymentChainId: number
+  ): ExposureLimitBreach | undefined {
+    const l1Token = this.hubPoolClient.getL1TokenForDeposit(deposit);
+    const limits = this.exposureLimits[l1Token];
+    if (limits === undefined) return undefined;
+    const { symbol, decimals } = this.hubPoolClient.getTokenInfoForL1Token(l1Token);
+    const { destinationChainId } = deposit;
+    const refund = getRefund(fillAmount, deposit.realizedLpFeePct);
+
+    const caps = [
+      { key: l1Token, cap: limits.maxExposure, exposure: this.getExposure(l1Token), scope: "" },
+      {
+        key: `${l1Token}_destination_${destinationChainId}`,
+        cap: limits.destinationChains?.[destinationChainId],
+        exposure: this.getExposure(l1Token, { destinationChainId }),
+        scope: ` filled on ${getNetworkName(destinationChainId)}`,
+      },
+      {
+        key: `${l1Token}_repayment_${repaymentChainId}`,
+        cap: limits.repaymentChains?.[repaymentChainId],
+        exposure: this.getExposure(l1Token, { repaymentChainId }),
+        scope: ` owed on ${getNetworkName(repaymentChainId)}`,
+      },
+    ];
+    for (const { key, cap, exposure, scope } of caps) {
+      if (cap === undefined || exposure.add(refund).lte(utils.parseUnits(cap, decimals))) continue;
+      const description = `${symbol}${scope} exposure limit of ${cap} ${symbol}`;
+      return {
+        key,
+        description,
+        reason: `${description} reached with ${utils.formatUnits(exposure, decimals)} outstanding`,
+      };
+    }
+    return undefined;
+  }
+
+  // Record a deposit that was not filled because it would breach an exposure cap. Used to produce one alert per cap.
+  captureExposureLimitedFill(deposit: Deposit, { key, description, reason }: ExposureLimitBreach) {
+    this.logger.debug({ at: "ExposureClient", message: "Exposure limit reached", reason, deposit });
+    if (this.exposureLimitedFills[key] === undefined)
+      this.exposureLimitedFills[key] = { description, reason, deposits: [] };
+    this.exposureLimitedFills[key].deposits.push(deposit);
+  }
+
+  getExposureLimitedFills() {
+    return this.exposureLimitedFills;
+  }
+
+  clearExposureLimitedFills() {
+    this.exposureLimitedFills = {};
+  }
+
+  // Count a fill sent in this run towards the relayer's exposure. This ensures that we dont fill past a cap before the
+  // fill is seen by the SpokePoolClient.
+  addExposure(deposit: Deposit, fillAmount: BigNumber, repaymentChainId: number) {
+    const l1Token = this.hubPoolClient.getL1TokenForDeposit(deposit);
+    const refund = getRefund(fillAmount, deposit.realizedLpFeePct);
+    addAmount(this.exposures, [l1Token, repaymentChainId, deposit.destinationChainId], refund);
+  }
+
+  // Recompute exposure from the relayer's fills, pending fills and refunds. Must be called after the SpokePoolClients
+  // and the PendingFillClient are updated.
+  update() {
+    // Block ranges of the root bundles whose relayer refund leaves paid the relayer, by L1 token and repayment chain.
+    // Leaves whose root bundle is not known, for example as it was proposed before the HubPoolClient's lookback, are
+    // not attributed to any fill.
+    const refundedBlockRanges: {
+      [l1Token: string]: { [repaymentChainId: number]: { [chainId: number]: number[] }[] };
+    } = {};
+    for (const [repaymentChainId, spokePoolClient] of Object.entries(this.spokePoolClients))
+      for (const execution of spokePoolClient.getRelayerRefundExecutions()) {
+        const refundsRelayer = execution.refundAddresses.some(
+          (address) => address.toLowerCase() === this.relayerAddress.toLowerCase()
+        );
+        const l1Token = this.getL1TokenForL2Token(Number(repaymentChainId), execution.l2TokenAddress);
+        const blockRanges = this.getBundleBlockRangesForRefund(spokePoolClient, execution);
+        if (!refundsRelayer || l1Token === undefined || blockRanges === undefined) continue;
+        assign(refundedBlockRanges, [l1Token, repaymentChainId], [blockRanges]);
+      }
+
+    // Refunds owed for the relayer's fills that no refund leaf repaid yet. Slow fills are paid for by the SpokePool and
+    // so never owe the relayer anything.
+    this.exposures = {};
+    for (const [destinationChainId, spokePoolClient] of Object.entries(this.spokePoolClients))
+      for (const fill of spokePoolClient.getFillsForRelayer(this.relayerAddress, true) as FillWithBlock[]) {
+        if (fill.isSlowRelay) continue;
+        const l1Token = this.getL1TokenForL2Token(Number(destinationChainId), fill.destinationToken);
+        if (l1Token === undefined) continue;
+        const refunded = (refundedBlockRanges[l1Token]?.[fill.repaymentChainId] ?? []).some((blockRanges) => {
+          const [startBlock, endBlock] = blockRanges[destinationChainId] ?? [];
+          return fill.blockNumber >= startBlock && fill.blockNumber <= endBlock;
+        });
+        if (!refunded)
+          addAmount(
+            this.exposures,
+            [l1Token, fill.repaymentChainId, Number(destinationChainId)],
+            getRefund(fill.fillAmount, fill.realizedLpFeePct)
+          );
+      }
+
+    // Fills that were submitted but are not yet seen by the SpokePoolClients are owed in full.
+    for (const { deposit, fillAmount, repaymentChainId } of this.pendingFillClient.getPendingFills())
+      this.addExposure(deposit, fillAmount, repaymentChainId);
+    this.logger.debug({ at: "ExposureClient", message: "Updated relayer exposure", exposures: this.exposures });
+  }
+
+  private getBundleBlockRangesForRefund(spokePoolClient: SpokePoolClient, execution: RelayerRefundExecution) {
+    const rootBundleRelay = spokePoolClient
+      .getRootBundleRelays()
+      .find(({ rootBundleId }) => rootBundleId === execution.rootBundleId);
+    if (rootBundleRelay === undefined) return undefined;
+    return this.hubPoolClient.getBundleBlockRangesForRelayerRefundRoot(
+      rootBundleRelay.relayerRefundRoot,
+      this.chainIdListForBundleEvaluationBlockNumbers
+    );
+  }
+
+  private getL1TokenForL2Token(chainId: number, l2Token: string): string | undefined {
+    const l1TokensToDestinationTokens = this.hubPoolClient.getL1TokensToDestinationTokens();
+    return Object.keys(l1TokensToDestinationTokens).find(
+      (l1Token) => l1TokensToDestinationTokens[l1Token][chainId]?.toLowerCase() === l2Token.toLowerCase()
+    );
+  }
+}
+
+// Add amount to the exposure at the keyPath, creating the path if it does not exist.
+function addAmount(
+  exposures: Exposures,
+  [l1Token, repaymentChainId, destinationChainId]: [string, number, number],
+  amount: BigNumber
+) {
+  exposures[l1Token] = exposures[l1Token] ?? {};
+  exposures[l1Token][repaymentChainId] = exposures[l1Token][repaymentChainId] ?? {};
+  exposures[l1Token][repaymentChainId][destinationChainId] = (
+    exposures[l1Token][repaymentChainId][destinationChainId] ?? toBN(0)
+  ).add(amount);
+}
@@ -0,0 +1,101 @@
+import { BigNumber, winston, ethers, toBNWei, getCurrentTime, getNetworkName, delay, utils } from "../utils";
+import { ProviderGasOracle } from ".";
+import { GasFees, GasOracle, GasPricePolicy, GasUrgency } from "../interfaces";
+
+// Matches the fixed scalers that transactions were priced with before policies were configurable.
+export const DEFAULT_GAS_PRICE_POLICY: GasPricePolicy = {
+  priorityScaler: 1.2,
+  maxFeePerGasScaler: 3,
+  urgencyScalers: { low: 0.8, normal: 1, high: 1.5 },
+  onCeiling: "alert",
+  waitTimeout: 120,
+};
+
+// Seconds between checks of the network's fees while waiting for them to drop below the ceiling.
+const CEILING_POLL_INTERVAL = 15;
+
+// Prices transactions per chain. Each chain's oracle estimates the network's fees, which are then scaled by the chain's
+// policy and the urgency of the transaction and capped at the policy's maxFeePerGas ceiling. If the network's fees are
+// already above the ceiling then the policy decides whether to wait for them to drop, skip or alert.
+export class GasPriceClient {
+  constructor(
+    readonly logger: winston.Logger,
+    readonly policies: { [chainId: number]: Partial<GasPricePolicy> } = {},
+    readonly oracles: { [chainId: number]: GasOracle } = {},
+    readonly defaultOracle: GasOracle = new ProviderGasOracle()
+  ) {}
+
+  getPolicy(chainId: number): GasPricePolicy {
+    const policy = this.policies[chainId];
+    return {
+      ...DEFAULT_GAS_PRICE_POLICY,
+      ...policy,
+      urgencyScalers: { ...DEFAULT_GAS_PRICE_POLICY.urgencyScalers, ...policy?.urgencyScalers },
+    };
+  }
+
+  // Returns the fees to send a transaction with, or undefined if it should not be sent.
+  async getGasPrice(
+    chainId: number,
+    provider: ethers.providers.Provider,
+    urgency: GasUrgency = "normal"
+  ): Promise<GasFees | undefined> {
+    const policy = this.getPolicy(chainId);
+    const oracle = this.oracles[chainId] ?? this.defaultOracle;
+    const waitUntil = getCurrentTime() + policy.waitTimeout;
+    let fees = await oracle.getFees(provider);
+    while (policy.maxFeePerGas !== undefined && (fees.maxFeePerGas ?? fees.gasPrice).gt(policy.maxFeePerGas)) {
+      const log = {
+        at: "GasPriceClient",
+        oracle: oracle.name,
+        fees,
+        maxFeePerGas: policy.maxFeePerGas,
+        onCeiling: policy.onCeiling,
+      };
+      if (policy.onCeiling === "alert") {
+        this.logger.warn({
+          ...log,
+          message: `Network fees on ${getNetworkName(chainId)} are above the ceiling ⛽️`,
+          mrkdwn: `Sending with fees capped at ${utils.formatUnits(policy.maxFeePerGas, 9)} gwei.`,
+          notificationPath: "across-error",
+        });
+        break;
+      }
+      if (policy.onCeiling === "skip" || getCurrentTime() + CEILING_POLL_INTERVAL > waitUntil) {
+        this.logger.warn({
+          ...log,
+          message: `Not sending on ${getNetworkName(chainId)} as fees are above the ceiling`,
+        });
+        return undefined;
+      }
+      this.logger.debug({
+        ...log,
+        message: `Waiting for fees on ${getNetworkName(chainId)} to drop below the ceiling`,
+      });
+      await delay(CEILING_POLL_INTERVAL);
+      fees = await oracle.getFees(provider);
+    }
+    return this.applyPolicy(fees, policy, urgency);
+  }
+
+  private applyPolicy(fees: GasFees, policy: GasPricePolicy, urgency: GasUrgency): GasFees {
+    const scale = (fee: BigNumber, scaler: number) => fee.mul(toBNWei(scaler.toFixed(18))).div(toBNWei(1));
+    const cap = (fee: BigNumber) =>
+      policy.maxFeePerGas !== undefined && fee.gt(policy.maxFeePerGas) ? policy.maxFeePerGas : fee;
+    const priorityScaler = policy.priorityScaler * (policy.urgencyScalers[urgency] ?? 1);
+
+    if (fees.maxFeePerGas === undefined || fees.maxPriorityFeePerGas === undefined)
+      return { gasPrice: cap(scale(fees.gasPrice, priorityScaler)) };
+
+    const maxPriorityFeePerGas = scale(fees.maxPriorityFeePerGas, priorityScaler);
+    // The maxFeePerGas must always cover the priority fee.
+    const baseMaxFeePerGas = maxPriorityFeePerGas.gt(fees.maxFeePerGas)
+      ? scale(maxPriorityFeePerGas, 1.5)
+      : fees.maxFeePerGas;
+    const maxFeePerGas = cap(scale(baseMaxFeePerGas, priorityScaler * policy.maxFeePerGasScaler));
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas) ? maxFeePerGas : maxPriorityFeePerGas,
+    };
+  }
+}
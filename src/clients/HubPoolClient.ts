@@ -1,13 +1,25 @@
-import { assign, Contract, winston, BigNumber, ERC20, sortEventsAscending, EventSearchConfig } from "../utils";
+import {
+  assign,
+  Contract,
+  winston,
+  BigNumber,
+  ERC20,
+  sortEventsAscending,
+  EventSearchConfig,
+  EventFilter,
+} from "../utils";
 import { sortEventsDescending, spreadEvent, spreadEventWithBlockNumber, paginatedEventQuery, toBN } from "../utils";
 import { Deposit, L1Token, CancelledRootBundle, DisputedRootBundle } from "../interfaces";
 import { ExecutedRootBundle, PendingRootBundle, ProposedRootBundle } from "../interfaces";
-import { CrossChainContractsSet, DestinationTokenWithBlock, SetPoolRebalanceRoot } from "../interfaces";
+import { CrossChainContractsSet, DestinationTokenWithBlock, SetPoolRebalanceRoot, SortableEvent } from "../interfaces";
+import { EventCache } from "./EventCache";
+import { ReorgTracker } from "./ReorgTracker";
 
 export class HubPoolClient {
   // L1Token -> destinationChainId -> destinationToken
   private l1TokensToDestinationTokens: { [l1Token: string]: { [destinationChainId: number]: string } } = {};
   private l1Tokens: L1Token[] = []; // L1Tokens and their associated info.
+  private l1TokenEnabledBlocks: { [l1Token: string]: number } = {}; // Block that each L1Token was first enabled in.
   private proposedRootBundles: ProposedRootBundle[] = [];
   private canceledRootBundles: CancelledRootBundle[] = [];
   private disputedRootBundles: DisputedRootBundle[] = [];
@@ -17,6 +29,7 @@ export class HubPoolClient {
     [l1Token: string]: { [destinationChainId: number]: DestinationTokenWithBlock[] };
   } = {};
   private pendingRootBundle: PendingRootBundle;
+  private reorgTracker: ReorgTracker;
 
   public isUpdated: boolean = false;
   public firstBlockToSearch: number;
@@ -26,9 +39,12 @@ export class HubPoolClient {
   constructor(
     readonly logger: winston.Logger,
     readonly hubPool: Contract,
-    readonly eventSearchConfig: EventSearchConfig = { fromBlock: 0, toBlock: null, maxBlockLookBack: 0 }
+    readonly eventSearchConfig: EventSearchConfig = { fromBlock: 0, toBlock: null, maxBlockLookBack: 0 },
+    readonly eventCache?: EventCache,
+    readonly finalityMargin?: number
   ) {
     this.firstBlockToSearch = eventSearchConfig.fromBlock;
+    this.reorgTracker = new ReorgTracker(logger, "HubPoolClient", hubPool?.provider, finalityMargin);
   }
 
   hasPendingProposal() {
@@ -255,6 +271,31 @@ export class HubPoolClient {
     return endBlock > 0 ? endBlock + 1 : 0;
   }
 
+  // Returns the block range that the root bundle with the relayer refund root covers on each chain in chainIdList, or
+  // undefined if no executed root bundle has the root. Each chain's range starts after its end block in the previous
+  // fully executed root bundle.
+  getBundleBlockRangesForRelayerRefundRoot(
+    relayerRefundRoot: string,
+    chainIdList: number[]
+  ): { [chainId: number]: number[] } | undefined {
+    const rootBundle = this.getProposedRootBundles().find((bundle) => {
+      if (bundle.relayerRefundRoot !== relayerRefundRoot) return false;
+      const followingBlockNumber = this.getFollowingRootBundle(bundle)?.blockNumber || this.latestBlockNumber;
+      return this.getExecutedLeavesForRootBundle(bundle, followingBlockNumber).length > 0;
+    });
+    if (rootBundle === undefined) return undefined;
+    const previousRootBundle = this.getLatestFullyExecutedRootBundle(rootBundle.blockNumber);
+    return Object.fromEntries(
+      chainIdList.map((chainId) => {
+        const previousEndBlock = previousRootBundle
+          ? this.getBundleEndBlockForChain(previousRootBundle, chainId, chainIdList)
+          : 0;
+        const endBlock = this.getBundleEndBlockForChain(rootBundle, chainId, chainIdList);
+        return [chainId, [previousEndBlock > 0 ? previousEndBlock + 1 : 0, endBlock]];
+      })
+    );
+  }
+
   getRunningBalanceBeforeBlockForChain(block: number, chain: number, l1Token: string): BigNumber {
     // Search through ExecutedRootBundle events in descending block order so we find the most recent event not greater
     // than the target block.
@@ -283,6 +324,8 @@ export class HubPoolClient {
 
   async update() {
     this.latestBlockNumber = await this.hubPool.provider.getBlockNumber();
+    const reorg = await this.reorgTracker.findReorg();
+    if (reorg) this.rollback(reorg.forkBlock);
     const searchConfig = {
       fromBlock: this.firstBlockToSearch,
       toBlock: this.eventSearchConfig.toBlock || this.latestBlockNumber,
@@ -290,6 +333,7 @@ export class HubPoolClient {
     };
     this.logger.debug({ at: "HubPoolClient", message: "Updating HubPool client", searchConfig });
     if (searchConfig.fromBlock > searchConfig.toBlock) return; // If the starting block is greater than the ending block return.
+    await this.reorgTracker.startSearch(searchConfig.fromBlock, searchConfig.toBlock, this.latestBlockNumber);
 
     const [
       poolRebalanceRouteEvents,
@@ -302,13 +346,13 @@ export class HubPoolClient {
       pendingRootBundleProposal,
       currentTime,
     ] = await Promise.all([
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.SetPoolRebalanceRoute(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.L1TokenEnabledForLiquidityProvision(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.ProposeRootBundle(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.RootBundleCanceled(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.RootBundleDisputed(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.RootBundleExecuted(), searchConfig),
-      paginatedEventQuery(this.hubPool, this.hubPool.filters.CrossChainContractsSet(), searchConfig),
+      this.queryEvents(this.hubPool.filters.SetPoolRebalanceRoute(), searchConfig),
+      this.queryEvents(this.hubPool.filters.L1TokenEnabledForLiquidityProvision(), searchConfig),
+      this.queryEvents(this.hubPool.filters.ProposeRootBundle(), searchConfig),
+      this.queryEvents(this.hubPool.filters.RootBundleCanceled(), searchConfig),
+      this.queryEvents(this.hubPool.filters.RootBundleDisputed(), searchConfig),
+      this.queryEvents(this.hubPool.filters.RootBundleExecuted(), searchConfig),
+      this.queryEvents(this.hubPool.filters.CrossChainContractsSet(), searchConfig),
       this.hubPool.rootBundleProposal(),
       this.hubPool.getCurrentTime(),
     ]);
@@ -354,6 +398,10 @@ export class HubPoolClient {
       l1TokensLPEvents.map((event) => this.fetchTokenInfoFromContract(spreadEvent(event).l1Token))
     );
     for (const info of tokenInfo) if (!this.l1Tokens.includes(info)) this.l1Tokens.push(info);
+    for (const event of l1TokensLPEvents) {
+      const { l1Token } = spreadEvent(event);
+      if (this.l1TokenEnabledBlocks[l1Token] === undefined) this.l1TokenEnabledBlocks[l1Token] = event.blockNumber;
+    }
 
     this.proposedRootBundles.push(
       ...proposeRootBundleEvents.map((event) => {
@@ -393,12 +441,53 @@ export class HubPoolClient {
       this.pendingRootBundle = undefined;
     }
 
+    await this.reorgTracker.finishSearch(
+      [
+        poolRebalanceRouteEvents,
+        l1TokensLPEvents,
+        proposeRootBundleEvents,
+        canceledRootBundleEvents,
+        disputedRootBundleEvents,
+        executedRootBundleEvents,
+        crossChainContractsSetEvents,
+      ].flat()
+    );
     this.isUpdated = true;
     this.firstBlockToSearch = searchConfig.toBlock + 1; // Next iteration should start off from where this one ended.
 
     this.logger.debug({ at: "HubPoolClient", message: "HubPool client updated!" });
   }
 
+  // Drops the events from blocks that were reorged out, so that the next search queries them again.
+  private rollback(forkBlock: number) {
+    const beforeFork = (event: SortableEvent) => event.blockNumber < forkBlock;
+    for (const l2ChainId of Object.keys(this.crossChainContracts)) {
+      this.crossChainContracts[l2ChainId] = this.crossChainContracts[l2ChainId].filter(beforeFork);
+      if (this.crossChainContracts[l2ChainId].length === 0) delete this.crossChainContracts[l2ChainId];
+    }
+    for (const [l1Token, destinationTokens] of Object.entries(this.l1TokensToDestinationTokensWithBlock)) {
+      for (const destinationChainId of Object.keys(destinationTokens)) {
+        destinationTokens[destinationChainId] = destinationTokens[destinationChainId].filter(beforeFork);
+        const [latest] = sortEventsDescending(destinationTokens[destinationChainId]) as DestinationTokenWithBlock[];
+        if (latest) this.l1TokensToDestinationTokens[l1Token][destinationChainId] = latest.l2Token;
+        else delete this.l1TokensToDestinationTokens[l1Token][destinationChainId];
+      }
+    }
+    this.l1Tokens = this.l1Tokens.filter(({ address }) => this.l1TokenEnabledBlocks[address] < forkBlock);
+    for (const [l1Token, blockNumber] of Object.entries(this.l1TokenEnabledBlocks))
+      if (blockNumber >= forkBlock) delete this.l1TokenEnabledBlocks[l1Token];
+    this.proposedRootBundles = this.proposedRootBundles.filter(beforeFork);
+    this.canceledRootBundles = this.canceledRootBundles.filter(beforeFork);
+    this.disputedRootBundles = this.disputedRootBundles.filter(beforeFork);
+    this.executedRootBundles = this.executedRootBundles.filter(beforeFork);
+    this.firstBlockToSearch = Math.min(this.firstBlockToSearch, forkBlock);
+  }
+
+  private async queryEvents(filter: EventFilter, searchConfig: EventSearchConfig) {
+    if (this.eventCache) return await this.eventCache.queryEvents(this.hubPool, filter, searchConfig);
+    return await paginatedEventQuery(this.hubPool, filter, searchConfig, this.logger);
+  }
+
   private async fetchTokenInfoFromContract(address: string): Promise<L1Token> {
     const token = new Contract(address, ERC20.abi, this.hubPool.signer);
     const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
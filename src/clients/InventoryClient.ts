@@ -0,0 +1,200 @@
+import { BigNumber, winston, toBN, toBNWei, getNetworkName, createFormatFunction, etherscanLink } from "../utils";
+import { HubPoolClient, TokenClient, BaseAdapter } from ".";
+import { Deposit, InventoryConfig } from "../interfaces";
+
+export class InventoryClient {
+  constructor(
+    readonly logger: winston.Logger,
+    readonly inventoryConfig: InventoryConfig,
+    readonly tokenClient: TokenClient,
+    readonly hubPoolClient: HubPoolClient,
+    readonly hubPoolChainId: number = 1,
+    readonly adapters: { [chainId: number]: BaseAdapter } = {},
+    readonly rebalanceDryRun: boolean = false
+  ) {}
+
+  // Chains the relayer holds inventory on. These are all chains that the token client tracks balances for.
+  getEnabledChains(): number[] {
+    return Object.keys(this.tokenClient.spokePoolClients).map((chainId) => Number(chainId));
+  }
+
+  isInventoryManagementEnabledForToken(l1Token: string): boolean {
+    return this.inventoryConfig?.tokenConfig?.[l1Token] !== undefined;
+  }
+
+  // Balance of the L2 counterpart of the l1Token held by the relayer on the given chain, net of any shortfall that the
+  // token client has captured in this run. The shortfall is funds that are already "spoken for" by unfilled deposits.
+  getBalanceOnChainForL1Token(chainId: number, l1Token: string): BigNumber {
+    const l2Token = this.getDestinationTokenForL1Token(l1Token, chainId);
+    if (!l2Token) return toBN(0);
+    return this.tokenClient
+      .getBalance(chainId, l2Token)
+      .sub(this.tokenClient.getShortfallTotalRequirement(chainId, l2Token));
+  }
+
+  // Amount of the l1Token that is being bridged from L1 to the chain. It is no longer in the relayer's L1 balance but
+  // counts towards the chain's allocation as it will arrive there.
+  getOutstandingCrossChainTransferAmount(chainId: number, l1Token: string): BigNumber {
+    return this.adapters[chainId]?.getOutstandingTransferAmount(l1Token) ?? toBN(0);
+  }
+
+  // Sum of the relayer's balance of the l1Token, and all its L2 counterparts, over all enabled chains. This includes
+  // transfers between chains that are in flight.
+  getCumulativeBalance(l1Token: string): BigNumber {
+    return this.getEnabledChains()
+      .map((chainId) =>
+        this.getBalanceOnChainForL1Token(chainId, l1Token).add(
+          this.getOutstandingCrossChainTransferAmount(chainId, l1Token)
+        )
+      )
+      .reduce((acc, balance) => acc.add(balance), toBN(0));
+  }
+
+  // Work out which chain the relayer should request its refund on for filling the deposit. If the relayer's share of
+  // inventory on the destination chain, after this fill is refunded there, would still be at or below the configured
+  // target then take the refund on the destination chain. This keeps capital on the chain it is needed on and avoids
+  // having to manually bridge funds back from the hub chain. In all other cases fall back to the hub chain.
+  determineRefundChainId(deposit: Deposit, fillAmount: BigNumber = toBN(deposit.amount)): number {
+    const { destinationChainId } = deposit;
+    if (destinationChainId === this.hubPoolChainId) return this.hubPoolChainId;
+
+    const l1Token = this.hubPoolClient.getL1TokenForDeposit(deposit);
+    const targetPct = this.inventoryConfig?.tokenConfig?.[l1Token]?.[destinationChainId]?.targetPct;
+    if (!this.isInventoryManagementEnabledForToken(l1Token) || targetPct === undefined) return this.hubPoolChainId;
+
+    // If the HubPool's running balance for the destination chain is negative then the spoke pool is in deficit and
+    // needs funds from the HubPool before it can pay refunds. Do not take refunds there until this has been settled.
+    const runningBalance = this.hubPoolClient.getRunningBalanceBeforeBlockForChain(
+      this.hubPoolClient.latestBlockNumber,
+      destinationChainId,
+      l1Token
+    );
+
+    // The fill amount is sent out of the relayer's destination chain balance and later refunded on the repayment chain.
+    // If the refund is taken on the destination chain then its post-relay balance is increased by the fill amount.
+    const chainBalance = this.getBalanceOnChainForL1Token(destinationChainId, l1Token).add(
+      this.getOutstandingCrossChainTransferAmount(destinationChainId, l1Token)
+    );
+    const cumulativeBalance = this.getCumulativeBalance(l1Token);
+    const chainBalancePostRelay = chainBalance.add(fillAmount);
+    const cumulativeBalancePostRelay = cumulativeBalance.add(fillAmount);
+    const expectedPostRelayAllocation = cumulativeBalancePostRelay.gt(0)
+      ? chainBalancePostRelay.mul(toBNWei(1)).div(cumulativeBalancePostRelay)
+      : toBN(0);
+
+    const refundChainId =
+      runningBalance.gte(0) && expectedPostRelayAllocation.lte(targetPct) ? destinationChainId : this.hubPoolChainId;
+    this.logger.debug({
+      at: "InventoryClient",
+      message: `Selected repayment chain ${refundChainId} for deposit ${deposit.depositId}`,
+      l1Token,
+      originChainId: deposit.originChainId,
+      destinationChainId,
+      fillAmount,
+      chainBalance,
+      cumulativeBalance,
+      expectedPostRelayAllocation,
+      targetPct,
+      runningBalance,
+    });
+    return refundChainId;
+  }
+
+  // Top up chains whose allocation of an L1 token, including transfers in flight, is below their thresholdPct back to
+  // their targetPct by bridging from L1. Chains without an adapter or a thresholdPct are never topped up. In dry run
+  // mode the planned transfers are only logged.
+  async rebalanceInventoryIfNeeded() {
+    const rebalances: { chainId: number; l1Token: string; l2Token: string; amount: BigNumber }[] = [];
+    for (const l1Token of Object.keys(this.inventoryConfig?.tokenConfig ?? {})) {
+      const cumulativeBalance = this.getCumulativeBalance(l1Token);
+      if (cumulativeBalance.lte(0)) continue;
+      for (const chainId of this.getEnabledChains()) {
+        const { targetPct, thresholdPct } = this.inventoryConfig.tokenConfig[l1Token][chainId] ?? {};
+        const adapter = this.adapters[chainId];
+        const l2Token = this.getDestinationTokenForL1Token(l1Token, chainId);
+        if (thresholdPct === undefined || !adapter?.isSupportedToken(l1Token) || !l2Token) continue;
+
+        const chainBalance = this.getBalanceOnChainForL1Token(chainId, l1Token).add(
+          this.getOutstandingCrossChainTransferAmount(chainId, l1Token)
+        );
+        const currentAllocationPct = chainBalance.mul(toBNWei(1)).div(cumulativeBalance);
+        if (currentAllocationPct.gte(thresholdPct)) continue;
+        const amount = targetPct.mul(cumulativeBalance).div(toBNWei(1)).sub(chainBalance);
+        this.logger.debug({
+          at: "InventoryClient",
+          message: `Rebalance needed for ${l1Token} on ${getNetworkName(chainId)}`,
+          chainBalance,
+          cumulativeBalance,
+          currentAllocationPct,
+          thresholdPct,
+          targetPct,
+          amount,
+        });
+        rebalances.push({ chainId, l1Token, l2Token, amount });
+      }
+    }
+    if (rebalances.length === 0) return;
+
+    let mrkdwn = "";
+    let insufficientBalanceMrkdwn = "";
+    for (const { chainId, l1Token, l2Token, amount } of rebalances) {
+      const { symbol, decimals } = this.hubPoolClient.getTokenInfoForL1Token(l1Token);
+      const formatFunction = createFormatFunction(2, 4, false, decimals);
+      const l1Balance = this.tokenClient.getBalance(this.hubPoolChainId, l1Token);
+      if (l1Balance.lt(amount)) {
+        insufficientBalanceMrkdwn +=
+          `- ${getNetworkName(chainId)} needs ${formatFunction(amount.toString())} ${symbol} ` +
+          `but the relayer only has ${formatFunction(l1Balance.toString())} ${symbol} on L1.\n`;
+        continue;
+      }
+      try {
+        const transactionHash = this.rebalanceDryRun
+          ? undefined
+          : await this.adapters[chainId].sendTokenToL2(l1Token, l2Token, amount);
+        // Decrement the L1 balance so that later rebalances in this run do not plan with the same funds.
+        this.tokenClient.decrementLocalBalance(this.hubPoolChainId, l1Token, amount);
+        mrkdwn +=
+          `- ${formatFunction(amount.toString())} ${symbol} to ${getNetworkName(chainId)}` +
+          `${transactionHash ? ` tx: ${etherscanLink(transactionHash, this.hubPoolChainId)}` : ""}\n`;
+      } catch (error) {
+        this.logger.error({
+          at: "InventoryClient",
+          message: `Error sending ${symbol} to ${getNetworkName(chainId)}`,
+          error,
+          notificationPath: "across-error",
+        });
+      }
+    }
+
+    if (mrkdwn)
+      this.logger.info({
+        at: "InventoryClient",
+        message: this.rebalanceDryRun
+          ? "Planned inventory rebalances (dry run) 📒"
+          : "Executed inventory rebalances 📒",
+        mrkdwn,
+      });
+    if (insufficientBalanceMrkdwn)
+      this.logger.warn({
+        at: "InventoryClient",
+        message: "Insufficient L1 balance to rebalance inventory 🟡",
+        mrkdwn: insufficientBalanceMrkdwn,
+      });
+  }
+
+  // Refresh the transfers in flight to each chain that has an adapter. Must be called after the HubPoolClient is updated.
+  async update() {
+    await Promise.all(
+      Object.keys(this.adapters).map((chainId) => {
+        const tokens = Object.keys(this.inventoryConfig?.tokenConfig ?? {})
+          .map((l1Token) => ({ l1Token, l2Token: this.getDestinationTokenForL1Token(l1Token, Number(chainId)) }))
+          .filter(({ l1Token, l2Token }) => l2Token !== undefined && this.adapters[chainId].isSupportedToken(l1Token));
+        return this.adapters[chainId].update(tokens);
+      })
+    );
+  }
+
+  private getDestinationTokenForL1Token(l1Token: string, chainId: number): string | undefined {
+    return this.hubPoolClient.getL1TokensToDestinationTokens()?.[l1Token]?.[chainId];
+  }
+}
@@ -0,0 +1,223 @@
+import { BigNumber, winston, toBN, toBNWei, getCurrentTime, providers } from "../utils";
+import { HubPoolClient, ProfitClient, SpokePoolClient } from ".";
+import { Deposit, LedgerEntry, LedgerReport, LedgerSummary, RelayerRefundExecution } from "../interfaces";
+import fs from "fs";
+
+interface LedgerState {
+  entries: LedgerEntry[];
+  // Relayer refund leaf executions that were already linked to fills, keyed as chainId_rootBundleId_leafId.
+  linkedRefundExecutions: Set<string>;
+}
+
+const bigNumberFields = [
+  "fillAmount",
+  "feeRevenue",
+  "realizedLpFee",
+  "refundAmount",
+  "gasCost",
+  "feeRevenueInUsd",
+  "gasCostInUsd",
+];
+
+// Persistent record of the relayer's fills and the refunds that repaid them, used to account for the relayer's PnL.
+// Fills are recorded once their transaction is mined. A relayer refund leaf repays the relayer for all of its fills on
+// the leaf's repayment chain and token that were mined within its root bundle's block ranges, so each leaf is linked to
+// exactly those fills. Leaves whose root bundle is not yet known to the HubPoolClient are linked on a later update. If a
+// ledger file is configured then the ledger is loaded from it on start and saved to it whenever it changes.
+export class LedgerClient {
+  private state: LedgerState;
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly relayerAddress: string,
+    readonly spokePoolClients: { [chainId: number]: SpokePoolClient },
+    readonly hubPoolClient: HubPoolClient,
+    readonly profitClient: ProfitClient,
+    readonly chainIdListForBundleEvaluationBlockNumbers: number[],
+    readonly ledgerFile?: string
+  ) {
+    this.state =
+      ledgerFile && fs.existsSync(ledgerFile)
+        ? loadLedger(ledgerFile)
+        : { entries: [], linkedRefundExecutions: new Set<string>() };
+  }
+
+  getEntries(): LedgerEntry[] {
+    return this.state.entries;
+  }
+
+  // Record a mined fill. A multicall transaction bundles callCount calls. The receipt only gives the gas used by the
+  // whole transaction, so each call is charged an even share of it even though fills that complete a deposit, or are
+  // the first for it, use more gas than others.
+  async recordFill(
+    deposit: Deposit,
+    fillAmount: BigNumber,
+    repaymentChainId: number,
+    receipt: providers.TransactionReceipt,
+    callCount = 1
+  ) {
+    const { address: l1Token, decimals } = this.hubPoolClient.getTokenInfoForDeposit(deposit);
+    // If the deposit was sped up then the relayer is paid the updated fee.
+    const relayerFeePct = toBN(deposit.newRelayerFeePct ?? deposit.relayerFeePct);
+    const feeRevenue = fillAmount.mul(relayerFeePct).div(toBNWei(1));
+    const realizedLpFee = fillAmount.mul(deposit.realizedLpFeePct).div(toBNWei(1));
+    const gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice ?? toBN(0)).div(callCount);
+    const tokenPriceInUsd = this.profitClient.getPriceInfoOfToken(l1Token)?.price ?? toBN(0);
+    const entry: LedgerEntry = {
+      originChainId: deposit.originChainId,
+      depositId: deposit.depositId,
+      destinationChainId: deposit.destinationChainId,
+      repaymentChainId,
+      l1Token,
+      fillAmount,
+      feeRevenue,
+      realizedLpFee,
+      refundAmount: fillAmount.sub(realizedLpFee),
+      gasCost,
+      feeRevenueInUsd: feeRevenue.mul(tokenPriceInUsd).div(toBN(10).pow(decimals)),
+      gasCostInUsd: gasCost.mul(this.profitClient.getNativeTokenPrice(deposit.destinationChainId)).div(toBNWei(1)),
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      filledAt: await this.getBlockTimestamp(deposit.destinationChainId, receipt.blockNumber),
+    };
+    this.logger.debug({ at: "LedgerClient", message: "Recorded fill", entry });
+    this.state.entries.push(entry);
+    this.save();
+  }
+
+  // Link relayer refund leaf executions seen by the SpokePoolClients to the fills they repaid. Must be called after the
+  // SpokePoolClients and HubPoolClient are updated.
+  async update() {
+    let linked = 0;
+    let linkedExecutions = 0;
+    for (const [chainId, spokePoolClient] of Object.entries(this.spokePoolClients))
+      for (const execution of spokePoolClient.getRelayerRefundExecutions()) {
+        const key = `${chainId}_${execution.rootBundleId}_${execution.leafId}`;
+        if (this.state.linkedRefundExecutions.has(key)) continue;
+        const refundsRelayer = execution.refundAddresses.some(
+          (address) => address.toLowerCase() === this.relayerAddress.toLowerCase()
+        );
+        const l1Token = this.getL1TokenForL2Token(Number(chainId), execution.l2TokenAddress);
+        if (!refundsRelayer || l1Token === undefined) continue;
+        const blockRanges = this.getBundleBlockRangesForRefund(spokePoolClient, execution);
+        if (blockRanges === undefined) continue;
+
+        const refund = {
+          rootBundleId: execution.rootBundleId,
+          leafId: execution.leafId,
+          refundedAt: await this.getBlockTimestamp(Number(chainId), execution.blockNumber),
+        };
+        for (const entry of this.state.entries) {
+          if (entry.refund !== undefined || entry.repaymentChainId !== Number(chainId) || entry.l1Token !== l1Token)
+            continue;
+          const [startBlock, endBlock] = blockRanges[entry.destinationChainId] ?? [];
+          if (entry.blockNumber < startBlock || entry.blockNumber > endBlock) continue;
+          entry.refund = refund;
+          linked++;
+        }
+        this.state.linkedRefundExecutions.add(key);
+        linkedExecutions++;
+      }
+    if (linkedExecutions === 0) return;
+    this.logger.debug({ at: "LedgerClient", message: "Linked refunds to fills", linked, linkedExecutions });
+    this.save();
+  }
+
+  getReport(fromTime: number, toTime: number = getCurrentTime()): LedgerReport {
+    return summarizeLedger(this.state.entries, fromTime, toTime);
+  }
+
+  private save() {
+    if (!this.ledgerFile) return;
+    const entries = this.state.entries.map((entry) => ({
+      ...entry,
+      ...Object.fromEntries(bigNumberFields.map((field) => [field, entry[field].toString()])),
+    }));
+    const linkedRefundExecutions = [...this.state.linkedRefundExecutions];
+    fs.writeFileSync(this.ledgerFile, JSON.stringify({ entries, linkedRefundExecutions }, null, 2));
+  }
+
+  private async getBlockTimestamp(chainId: number, blockNumber: number): Promise<number> {
+    return (await this.spokePoolClients[chainId].spokePool.provider.getBlock(blockNumber)).timestamp;
+  }
+
+  private getBundleBlockRangesForRefund(spokePoolClient: SpokePoolClient, execution: RelayerRefundExecution) {
+    const rootBundleRelay = spokePoolClient
+      .getRootBundleRelays()
+      .find(({ rootBundleId }) => rootBundleId === execution.rootBundleId);
+    if (rootBundleRelay === undefined) return undefined;
+    return this.hubPoolClient.getBundleBlockRangesForRelayerRefundRoot(
+      rootBundleRelay.relayerRefundRoot,
+      this.chainIdListForBundleEvaluationBlockNumbers
+    );
+  }
+
+  private getL1TokenForL2Token(chainId: number, l2Token: string): string | undefined {
+    const l1TokensToDestinationTokens = this.hubPoolClient.getL1TokensToDestinationTokens();
+    return Object.keys(l1TokensToDestinationTokens).find(
+      (l1Token) => l1TokensToDestinationTokens[l1Token][chainId]?.toLowerCase() === l2Token.toLowerCase()
+    );
+  }
+}
+
+export function loadLedger(ledgerFile: string): LedgerState {
+  const state = JSON.parse(fs.readFileSync(ledgerFile, "utf8"));
+  const entries = state.entries.map((entry) => ({
+    ...entry,
+    ...Object.fromEntries(bigNumberFields.map((field) => [field, toBN(entry[field])])),
+  }));
+  return { entries, linkedRefundExecutions: new Set(state.linkedRefundExecutions) };
+}
+
+// Summarize the PnL of fills made within the time window, per L1 token and per route and L1 token.
+export function summarizeLedger(entries: LedgerEntry[], fromTime: number, toTime: number): LedgerReport {
+  const report: LedgerReport = { fromTime, toTime, byToken: {}, byRoute: {} };
+  const l1Tokens = [...new Set(entries.map(({ l1Token }) => l1Token))];
+  for (const l1Token of l1Tokens) {
+    const tokenEntries = entries.filter((entry) => entry.l1Token === l1Token);
+    report.byToken[l1Token] = summarizeEntries(tokenEntries, fromTime, toTime);
+    for (const route of [
+      ...new Set(tokenEntries.map((entry) => `${entry.originChainId}-${entry.destinationChainId}`)),
+    ]) {
+      const routeEntries = tokenEntries.filter(
+        (entry) => `${entry.originChainId}-${entry.destinationChainId}` === route
+      );
+      report.byRoute[route] = { ...report.byRoute[route], [l1Token]: summarizeEntries(routeEntries, fromTime, toTime) };
+    }
+  }
+  return report;
+}
+
+function summarizeEntries(entries: LedgerEntry[], fromTime: number, toTime: number): LedgerSummary {
+  const sum = (values: BigNumber[]) => values.reduce((acc, value) => acc.add(value), toBN(0));
+  const windowEntries = entries.filter(({ filledAt }) => filledAt >= fromTime && filledAt <= toTime);
+  const volume = sum(windowEntries.map(({ fillAmount }) => fillAmount));
+  const feeRevenueInUsd = sum(windowEntries.map(({ feeRevenueInUsd }) => feeRevenueInUsd));
+  const gasCostInUsd = sum(windowEntries.map(({ gasCostInUsd }) => gasCostInUsd));
+
+  // Capital is outstanding from a fill until its refund. Averaging it over the window gives the capital that was
+  // needed, on average, to support the window's volume.
+  const windowLength = Math.max(toTime - fromTime, 1);
+  const capitalTime = sum(
+    entries.map(({ refundAmount, filledAt, refund }) => {
+      const overlap = Math.min(refund?.refundedAt ?? toTime, toTime) - Math.max(filledAt, fromTime);
+      return overlap > 0 ? refundAmount.mul(overlap) : toBN(0);
+    })
+  );
+  const averageCapital = capitalTime.div(windowLength);
+
+  return {
+    fills: windowEntries.length,
+    volume,
+    feeRevenue: sum(windowEntries.map(({ feeRevenue }) => feeRevenue)),
+    realizedLpFee: sum(windowEntries.map(({ realizedLpFee }) => realizedLpFee)),
+    gasCostInUsd,
+    netProfitInUsd: feeRevenueInUsd.sub(gasCostInUsd),
+    outstandingRefunds: sum(
+      entries
+        .filter(({ filledAt, refund }) => filledAt <= toTime && (refund === undefined || refund.refundedAt > toTime))
+        .map(({ refundAmount }) => refundAmount)
+    ),
+    capitalTurnover: averageCapital.gt(0) ? volume.mul(1000).div(averageCapital).toNumber() / 1000 : 0,
+  };
+}
@@ -1,5 +1,9 @@
 import { winston, getNetworkName, assign, Contract, runTransaction, rejectAfterDelay, getTarget } from "../utils";
-import { willSucceed, etherscanLink } from "../utils";
+import { willSucceed, etherscanLink, providers, toBN, BigNumber, getGasPrice, getCurrentTime } from "../utils";
+import { NonceManager, GasPriceClient } from ".";
+import { GasFees, GasUrgency } from "../interfaces";
+import fs from "fs";
+import path from "path";
 export interface AugmentedTransaction {
   contract: Contract;
   chainId: number;
@@ -7,11 +11,57 @@ export interface AugmentedTransaction {
   args: any;
   message: string;
   mrkdwn: string;
+  // Names what the call acts on, for example the deposit or leaf, so that logs about it can point to it.
+  label?: string;
+  // Bundles are priced for the most urgent of their calls. Defaults to normal.
+  urgency?: GasUrgency;
+  // Called with the hash of the transaction that included this call once it is submitted. The transaction might not
+  // be mined within maxTxWait, so this allows callers to track it beyond the execution of the queue.
+  onSubmitted?: (transactionHash: string) => void;
+  // Called with the receipt of the transaction that included this call once it is mined within maxTxWait, and the
+  // number of calls that the transaction included.
+  onMined?: (receipt: providers.TransactionReceipt, callCount: number) => void | Promise<void>;
+  // Called with the old and new hash if the NonceManager replaces the transaction that included this call.
+  onReplaced?: (oldHash: string, newHash: string) => void;
+}
+
+// A queued call as listed in a simulation report. Gas and fee estimates are only made for calls that succeed.
+interface SimulatedCall {
+  chainId: number;
+  target: { targetAddress: string; contractName?: string };
+  method: string;
+  args: { [name: string]: any };
+  label?: string;
+  message: string;
+  succeed: boolean;
+  reason?: string;
+  estimatedGas?: BigNumber;
+  estimatedFee?: BigNumber; // Estimated gas at the current maxFeePerGas, or gasPrice, in the chain's native token.
+}
+
+// Limits on the multicall bundles sent on a chain. Calls over either limit are split into further bundles.
+export interface MultiCallBundleLimits {
+  maxGas?: number; // Sum of the estimated gas of the calls in a bundle.
+  maxCalls?: number;
 }
 
 export class MultiCallerClient {
   private transactions: AugmentedTransaction[] = [];
-  constructor(readonly logger: winston.Logger, readonly gasEstimator: any, readonly maxTxWait: number = 180) {}
+  // Number of simulation reports written, to tell apart the files of reports written within the same millisecond.
+  private simulationReportCount = 0;
+  constructor(
+    readonly logger: winston.Logger,
+    readonly gasEstimator: any,
+    readonly maxTxWait: number = 180,
+    readonly nonceManager?: NonceManager,
+    readonly bundleLimits: { [chainId: number]: MultiCallBundleLimits } = {},
+    // Bundles on the same chain are sent in parallel only if the NonceManager can hand out their nonces.
+    readonly parallelBundles: boolean = false,
+    // If set, every run in simulation mode writes a JSON report of the queued calls to this directory.
+    readonly simulationReportDir?: string,
+    // If set, prices bundles by each chain's gas price policy. Otherwise fees are derived from the provider's fee data.
+    readonly gasPriceClient?: GasPriceClient
+  ) {}
 
   // Adds all information associated with a transaction to the transaction queue. This is the intention of the
   // caller to send a transaction. The transaction might not be executable, which should be filtered later.
@@ -52,6 +102,7 @@ export class MultiCallerClient {
             .map((transaction) => {
               return {
                 target: getTarget(transaction.transaction.contract.address),
+                label: transaction.transaction.label,
                 args: transaction.transaction.args,
                 reason: transaction.reason,
                 message: transaction.transaction.message,
@@ -66,16 +117,62 @@ export class MultiCallerClient {
 
       if (validTransactions.length === 0) {
         this.logger.debug({ at: "MultiCallerClient", message: "No valid transactions in the queue" });
+        if (simulationModeOn) await this.writeSimulationReport(transactionsSucceed);
         return;
       }
 
-      // Group by target chain. Note that there is NO grouping by target contract. The relayer will only ever use this
-      // MultiCallerClient to send multiple transactions to one target contract on a given target chain and so we dont
-      // need to group by target contract. This can be further refactored with another group by if this is needed.
-      const groupedTransactions: { [networkId: number]: AugmentedTransaction[] } = {};
+      // Group by target chain and then by target contract and the signer that sends to it, as roles can sign with
+      // different keys. Each target and signer pair gets its own multicall bundles.
+      const groupedTransactions: { [networkId: number]: { [target: string]: AugmentedTransaction[] } } = {};
       for (const transaction of validTransactions) {
-        assign(groupedTransactions, [transaction.chainId], [transaction]);
+        const sender = await transaction.contract.signer?.getAddress();
+        assign(groupedTransactions, [transaction.chainId, `${transaction.contract.address}:${sender}`], [transaction]);
+      }
+
+      // Split the transactions for each target into bundles that fit within the chain's gas and call count limits.
+      // Targets that do not implement multicall are sent one transaction per call.
+      let bundles: AugmentedTransaction[][] = [];
+      for (const chainId of Object.keys(groupedTransactions)) {
+        for (const group of Object.keys(groupedTransactions[chainId])) {
+          const transactions = groupedTransactions[chainId][group];
+          if (!this.supportsMulticall(transactions[0].contract)) {
+            bundles.push(...transactions.map((transaction) => [transaction]));
+            continue;
+          }
+          const gasEstimates = await this.estimateGas(Number(chainId), transactions);
+          bundles.push(...this.chunkTransactions(Number(chainId), transactions, gasEstimates));
+        }
+      }
+
+      // Calls that succeed on their own can still revert within a bundle, for example when two calls spend the same
+      // funds. A single revert fails the whole multicall, so drop calls that revert within their bundle.
+      const revertingCalls: { transaction: AugmentedTransaction; reason: string }[] = [];
+      for (const [bundleIndex, bundle] of bundles.entries()) {
+        if (bundle.length < 2) continue;
+        const { valid, reverting } = await this.dropRevertingCalls(bundle);
+        bundles[bundleIndex] = valid;
+        revertingCalls.push(...reverting);
       }
+      bundles = bundles.filter((bundle) => bundle.length > 0);
+      if (revertingCalls.length > 0)
+        this.logger.error({
+          at: "MultiCallerClient",
+          message: "Some calls revert within their multicall bundle! Sending the rest.",
+          mrkdwn: revertingCalls
+            .map(({ transaction, reason }) => `- ${transaction.label ?? transaction.message}: ${reason}`)
+            .join("\n"),
+          revertingCalls: revertingCalls.map(({ transaction, reason }) => ({
+            target: getTarget(transaction.contract.address),
+            chainId: transaction.chainId,
+            label: transaction.label,
+            method: transaction.method,
+            args: transaction.args,
+            reason,
+            message: transaction.message,
+            mrkdwn: transaction.mrkdwn,
+          })),
+          notificationPath: "across-error",
+        });
 
       if (simulationModeOn) {
         this.logger.debug({
@@ -83,15 +180,24 @@ export class MultiCallerClient {
           message: "All transactions will succeed! Logging markdown messages.",
         });
         let mrkdwn = "";
-        Object.keys(groupedTransactions).forEach((chainId) => {
-          mrkdwn += `*Transactions sent in batch on ${getNetworkName(chainId)}:*\n`;
-          groupedTransactions[chainId].forEach((transaction, groupTxIndex) => {
+        bundles.forEach((bundle, bundleIndex) => {
+          mrkdwn += `*Transactions sent in batch on ${this.getBundleName(bundles, bundleIndex)}:*\n`;
+          bundle.forEach((transaction, groupTxIndex) => {
             mrkdwn +=
               `  ${groupTxIndex + 1}. ${transaction.message || "0 message"}: ` +
               `${transaction.mrkdwn || "0 mrkdwn"}\n`;
           });
         });
         this.logger.info({ at: "MultiCallerClient", message: "Exiting simulation mode 🎮", mrkdwn });
+        // Calls dropped from their bundle are reported with the reason that they revert within it.
+        await this.writeSimulationReport(
+          transactionsSucceed.map((result) => {
+            const revertingCall = revertingCalls.find(({ transaction }) => transaction === result.transaction);
+            return revertingCall
+              ? { ...result, succeed: false, reason: `Reverts within multicall bundle: ${revertingCall.reason}` }
+              : result;
+          })
+        );
         this.clearTransactionQueue();
         return;
       }
@@ -99,13 +205,34 @@ export class MultiCallerClient {
       this.logger.debug({
         at: "MultiCallerClient",
         message: "Executing transactions grouped by target chain",
-        txs: Object.keys(groupedTransactions).map((chainId) => ({ chainId, num: groupedTransactions[chainId].length })),
+        txs: Object.keys(groupedTransactions).map((chainId) => ({
+          chainId,
+          targets: Object.keys(groupedTransactions[chainId]).map((group) => {
+            const [target, sender] = group.split(":");
+            return { target: getTarget(target), sender, num: groupedTransactions[chainId][group].length };
+          }),
+          bundles: bundles.filter((bundle) => bundle[0].chainId === Number(chainId)).length,
+        })),
       });
 
-      // Construct multiCall transaction for each target chain.
-      const multiCallTransactionsResult = await Promise.allSettled(
-        Object.keys(groupedTransactions).map((chainId) => this.buildMultiCallBundle(groupedTransactions[chainId]))
-      );
+      // Construct multiCall transactions for each target chain. Chains are sent to in parallel.
+      const multiCallTransactionsResult = (
+        await Promise.all(
+          Object.keys(groupedTransactions).map((chainId) =>
+            this.submitBundles(bundles.filter((bundle) => bundle[0].chainId === Number(chainId)))
+          )
+        )
+      ).flat();
+      // Results are ordered by chain, as the bundles are.
+      bundles.forEach((bundle, bundleIndex) => {
+        const result = multiCallTransactionsResult[bundleIndex];
+        if (result.status === "fulfilled" && result.value) {
+          bundle.forEach((transaction) => transaction.onSubmitted?.(result.value.hash));
+          this.nonceManager?.onReplaced(result.value.hash, (oldHash: string, newHash: string) =>
+            bundle.forEach((transaction) => transaction.onReplaced?.(oldHash, newHash))
+          );
+        }
+      });
       this.logger.debug({ at: "MultiCallerClient", message: "Waiting for bundle transaction inclusion" });
       const transactionReceipts = await Promise.allSettled(
         multiCallTransactionsResult.map((transaction) =>
@@ -116,24 +243,34 @@ export class MultiCallerClient {
         )
       );
 
-      // Each element in the bundle of receipts relates back to each set within the groupedTransactions. Produce log.
+      // Each element in the bundle of receipts relates back to each bundle. Each bundle is reported on its own.
       let mrkdwn = "";
       const transactionHashes = [];
-      Object.keys(groupedTransactions).forEach((chainId, chainIndex) => {
-        mrkdwn += `*Transactions sent in batch on ${getNetworkName(chainId)}:*\n`;
-        if (transactionReceipts[chainIndex].status === "rejected") {
+      const minedCallbacks: (void | Promise<void>)[] = [];
+      bundles.forEach((bundle, bundleIndex) => {
+        const chainId = bundle[0].chainId;
+        mrkdwn += `*Transactions sent in batch on ${this.getBundleName(bundles, bundleIndex)}:*\n`;
+        const result = multiCallTransactionsResult[bundleIndex];
+        const receiptResult = transactionReceipts[bundleIndex];
+        if (result.status === "rejected" || !result.value) {
+          mrkdwn += ` ⚠️ Transactions on ${getNetworkName(chainId)} were not sent.\n`;
+        } else if (receiptResult.status === "rejected") {
           mrkdwn += ` ⚠️ Transactions sent on ${getNetworkName(chainId)} failed to execute due to exceeding timeout.\n`;
         } else {
-          groupedTransactions[chainId].forEach((transaction, groupTxIndex) => {
+          bundle.forEach((transaction, groupTxIndex) => {
             mrkdwn += `  ${groupTxIndex + 1}. ${transaction.message || ""}: ` + `${transaction.mrkdwn || ""}\n`;
           });
-          const transactionHash = (transactionReceipts[chainIndex] as any).value.transactionHash;
+          const receipt: providers.TransactionReceipt = receiptResult.value;
+          bundle.forEach((transaction) => minedCallbacks.push(transaction.onMined?.(receipt, bundle.length)));
+          const transactionHash = receipt.transactionHash;
           mrkdwn += "tx: " + etherscanLink(transactionHash, chainId) + "\n";
           transactionHashes.push(transactionHash);
         }
       });
       this.logger.info({ at: "MultiCallerClient", message: "Multicall batch sent! 🧙‍♂️", mrkdwn });
       this.clearTransactionQueue();
+      // Callbacks for mined calls may query the chain, so they are awaited only once the queue can no longer be resent.
+      await Promise.all(minedCallbacks);
       return transactionHashes;
     } catch (error) {
       this.logger.error({
@@ -145,10 +282,173 @@ export class MultiCallerClient {
     }
   }
 
-  buildMultiCallBundle(transactions: AugmentedTransaction[]) {
+  // Split the transactions for a chain into consecutive bundles, in queue order, that stay within the chain's limits. A
+  // call that exceeds maxGas on its own is sent in a bundle of its own.
+  chunkTransactions(
+    chainId: number,
+    transactions: AugmentedTransaction[],
+    gasEstimates: BigNumber[] = []
+  ): AugmentedTransaction[][] {
+    const { maxGas, maxCalls } = this.bundleLimits[chainId] ?? {};
+    const bundles: AugmentedTransaction[][] = [];
+    let bundleGas = toBN(0);
+    transactions.forEach((transaction, index) => {
+      const gas = gasEstimates[index] ?? toBN(0);
+      const bundle = bundles[bundles.length - 1];
+      const fits =
+        bundle !== undefined &&
+        (maxCalls === undefined || bundle.length < maxCalls) &&
+        (maxGas === undefined || bundleGas.add(gas).lte(maxGas));
+      if (fits) {
+        bundle.push(transaction);
+        bundleGas = bundleGas.add(gas);
+      } else {
+        bundles.push([transaction]);
+        bundleGas = gas;
+      }
+    });
+    return bundles;
+  }
+
+  // Multicalls execute their calls in order, so the first call to revert is the last call of the shortest prefix of
+  // the bundle that reverts. Binary search for it, drop it and repeat until the rest of the bundle succeeds.
+  private async dropRevertingCalls(
+    bundle: AugmentedTransaction[]
+  ): Promise<{ valid: AugmentedTransaction[]; reverting: { transaction: AugmentedTransaction; reason: string }[] }> {
+    let valid = bundle;
+    const reverting: { transaction: AugmentedTransaction; reason: string }[] = [];
+    let reason = await this.simulateBundle(valid);
+    while (reason !== undefined) {
+      // The prefix of length succeeding is known to succeed and the prefix of length failing is known to revert.
+      let succeeding = 0;
+      let failing = valid.length;
+      while (failing - succeeding > 1) {
+        const length = Math.floor((succeeding + failing) / 2);
+        const prefixReason = await this.simulateBundle(valid.slice(0, length));
+        if (prefixReason === undefined) succeeding = length;
+        else [failing, reason] = [length, prefixReason];
+      }
+      reverting.push({ transaction: valid[failing - 1], reason });
+      valid = valid.filter((_, index) => index !== failing - 1);
+      reason = valid.length > 0 ? await this.simulateBundle(valid) : undefined;
+    }
+    return { valid, reverting };
+  }
+
+  // Returns the revert reason if the bundle's multicall reverts, or undefined if it succeeds.
+  private async simulateBundle(bundle: AugmentedTransaction[]): Promise<string | undefined> {
+    const callData = bundle.map((tx) => tx.contract.interface.encodeFunctionData(tx.method, tx.args));
+    try {
+      await bundle[0].contract.callStatic.multicall(callData);
+      return undefined;
+    } catch (error) {
+      return error.reason ?? error.message ?? "unknown revert reason";
+    }
+  }
+
+  // Gas is only estimated on chains with a gas limit for bundles, to save RPC calls. If a call's estimate fails then it
+  // is assumed to need all of maxGas, which sends it in a bundle of its own.
+  private async estimateGas(chainId: number, transactions: AugmentedTransaction[]): Promise<BigNumber[]> {
+    const maxGas = this.bundleLimits[chainId]?.maxGas;
+    if (maxGas === undefined) return [];
+    return await Promise.all(
+      transactions.map(async ({ contract, method, args }) => {
+        try {
+          return await contract.estimateGas[method](...args);
+        } catch (error) {
+          this.logger.debug({ at: "MultiCallerClient", message: "Failed to estimate gas", method, chainId, error });
+          return toBN(maxGas);
+        }
+      })
+    );
+  }
+
+  // Send the bundles for one chain. In sequence, each bundle is sent once the previous one was accepted by the node so
+  // that nonces are assigned in order. In parallel, the NonceManager queues the bundles' nonce reservations so that
+  // each gets its own nonce, as the node's pending transaction count does not yet include the others.
+  private async submitBundles(bundles: AugmentedTransaction[][]): Promise<PromiseSettledResult<any>[]> {
+    if (this.parallelBundles && this.nonceManager)
+      return await Promise.allSettled(bundles.map((bundle) => this.sendBundle(bundle)));
+    const results: PromiseSettledResult<any>[] = [];
+    for (const bundle of bundles) results.push(...(await Promise.allSettled([this.sendBundle(bundle)])));
+    return results;
+  }
+
+  // Price the bundle by the chain's gas price policy, if there is one. Bundles that the policy says not to send, as
+  // fees are above its ceiling, resolve to null.
+  private async sendBundle(bundle: AugmentedTransaction[]) {
+    if (!this.gasPriceClient) return this.buildMultiCallBundle(bundle);
+    const urgencies: GasUrgency[] = ["low", "normal", "high"];
+    const urgency = urgencies[Math.max(...bundle.map(({ urgency }) => urgencies.indexOf(urgency ?? "normal")))];
+    const { chainId, contract } = bundle[0];
+    const fees = await this.gasPriceClient.getGasPrice(chainId, contract.provider, urgency);
+    return fees ? this.buildMultiCallBundle(bundle, fees) : null;
+  }
+
+  private async writeSimulationReport(
+    results: { transaction: AugmentedTransaction; succeed: boolean; reason: string }[]
+  ) {
+    if (!this.simulationReportDir) return;
+    const gasPrices: { [chainId: number]: Promise<BigNumber> } = {};
+    const calls: SimulatedCall[] = await Promise.all(
+      results.map(async ({ transaction, succeed, reason }) => {
+        const { contract, chainId, method, args, label, message } = transaction;
+        const inputs = contract.interface.getFunction(method).inputs;
+        const call: SimulatedCall = {
+          chainId,
+          target: getTarget(contract.address),
+          method,
+          args: Object.fromEntries(inputs.map((input, index) => [input.name || String(index), args[index]])),
+          label,
+          message,
+          succeed,
+          reason: reason ?? undefined,
+        };
+        if (!succeed) return call;
+        try {
+          if (gasPrices[chainId] === undefined)
+            gasPrices[chainId] = getGasPrice(contract.provider, this.gasPriceClient).then(
+              (gas) => gas.maxFeePerGas ?? gas.gasPrice
+            );
+          call.estimatedGas = await contract.estimateGas[method](...args);
+          call.estimatedFee = call.estimatedGas.mul(await gasPrices[chainId]);
+        } catch (error) {
+          this.logger.debug({ at: "MultiCallerClient", message: "Failed to estimate gas for report", method, error });
+        }
+        return call;
+      })
+    );
+
+    fs.mkdirSync(this.simulationReportDir, { recursive: true });
+    const reportTime = getCurrentTime();
+    const reportFile = path.join(
+      this.simulationReportDir,
+      `simulation-${Date.now()}-${this.simulationReportCount++}.json`
+    );
+    // BigNumbers are written as decimal strings so that reports diff cleanly.
+    const replacer = (key: string, value: any) =>
+      value?.type === "BigNumber" && value.hex !== undefined ? BigNumber.from(value.hex).toString() : value;
+    fs.writeFileSync(reportFile, JSON.stringify({ reportTime, calls }, replacer, 2));
+    this.logger.debug({ at: "MultiCallerClient", message: "Wrote simulation report", reportFile });
+  }
+
+  private supportsMulticall(contract: Contract): boolean {
+    return Object.keys(contract.interface.functions).some((signature) => signature.startsWith("multicall("));
+  }
+
+  private getBundleName(bundles: AugmentedTransaction[][], bundleIndex: number): string {
+    const chainId = bundles[bundleIndex][0].chainId;
+    const chainBundles = bundles.filter((bundle) => bundle[0].chainId === chainId);
+    const networkName = getNetworkName(chainId);
+    return chainBundles.length > 1
+      ? `${networkName} (${chainBundles.indexOf(bundles[bundleIndex]) + 1}/${chainBundles.length})`
+      : networkName;
+  }
+
+  buildMultiCallBundle(transactions: AugmentedTransaction[], fees?: GasFees) {
     // Validate all transactions in the batch have the same target contract.
     const target = transactions[0].contract;
-    if (transactions.every((tx) => tx.contract.address !== target.address)) {
+    if (transactions.some((tx) => tx.contract.address !== target.address)) {
       this.logger.error({
         at: "MultiCallerClient",
         message: "some transactions in the bundle contain different targets",
@@ -159,10 +459,15 @@ export class MultiCallerClient {
       });
       return null; // If there is a problem in the targets in the bundle return null. This will be a noop.
     }
+    // Targets without multicall only ever get bundles of a single call, which is sent as is.
+    if (!this.supportsMulticall(target)) {
+      const [{ method, args }] = transactions;
+      return runTransaction(this.logger, target, method, args, toBN(0), this.nonceManager, fees);
+    }
     let callData = transactions.map((tx) => tx.contract.interface.encodeFunctionData(tx.method, tx.args));
     // There should not be any duplicate call data blobs within this array. If there are there is likely an error.
     callData = [...new Set(callData)];
     this.logger.debug({ at: "MultiCallerClient", message: "Made bundle", target: getTarget(target.address), callData });
-    return runTransaction(this.logger, target, "multicall", [callData]);
+    return runTransaction(this.logger, target, "multicall", [callData], toBN(0), this.nonceManager, fees);
   }
 }
@@ -0,0 +1,196 @@
+import { BigNumber, winston, toBN, toBNWei, getCurrentTime, getNetworkName, etherscanLink } from "../utils";
+import { Signer, ethers } from "../utils";
+import { GasPriceClient } from ".";
+
+type GasOverrides = { gasPrice?: BigNumber; maxFeePerGas?: BigNumber; maxPriorityFeePerGas?: BigNumber };
+
+interface PendingTransaction {
+  signer: Signer;
+  hash: string;
+  submittedAt: number;
+  request: ethers.providers.TransactionRequest;
+  fees: GasOverrides;
+  cancelled: boolean;
+  atFeeCap: boolean;
+}
+
+// Nodes only accept a replacement for a pending transaction that raises its fees by at least 10%.
+const MIN_REPLACEMENT_FEE_BUMP = toBNWei("1.1");
+
+// Hands out nonces per chain and signer, and tracks the transactions sent with them until they are mined. The bots
+// submit transactions without waiting for them to be mined, so a transaction that is underpriced can sit in the mempool
+// and block every later transaction from its signer. Transactions not mined within stuckTransactionTimeout seconds are
+// resubmitted with their fees multiplied by feeMultiplier, up to the maxFeePerGas ceiling of the chain's gas price
+// policy if it has one, or cancelled with a zero value transfer to the signer itself.
+export class NonceManager {
+  // Next nonce to use and the pending transactions, keyed by chainId_signerAddress.
+  private nextNonces: { [key: string]: number } = {};
+  // Tail of the queue of nonce reservations per key. Reservations for a key run one at a time, in call order.
+  private nonceQueues: { [key: string]: Promise<unknown> } = {};
+  private pendingTransactions: { [key: string]: { [nonce: number]: PendingTransaction } } = {};
+  private replacementListeners: { [transactionHash: string]: ((oldHash: string, newHash: string) => void)[] } = {};
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly stuckTransactionTimeout: number = 600,
+    readonly stuckTransactionAction: "replace" | "cancel" = "replace",
+    readonly feeMultiplier: number = 1.25,
+    readonly gasPriceClient: GasPriceClient = new GasPriceClient(logger)
+  ) {}
+
+  // The node's pending transaction count does not include transactions that were sent to other nodes behind a
+  // fallback provider, or that it dropped, so nonces are also counted locally. Concurrent callers are queued so that
+  // each one reads the nonce reserved by the caller before it, rather than the same pending transaction count.
+  async getNonce(signer: Signer): Promise<number> {
+    const key = await this.getKey(signer);
+    return this.enqueue(key, async () => {
+      const pendingNonce = await signer.getTransactionCount("pending");
+      const nonce = Math.max(pendingNonce, this.nextNonces[key] ?? 0);
+      this.nextNonces[key] = nonce + 1;
+      return nonce;
+    });
+  }
+
+  // Forget the locally counted nonce, for example after a transaction failed to send and so its nonce was never used.
+  async resetNonce(signer: Signer) {
+    const key = await this.getKey(signer);
+    await this.enqueue(key, async () => delete this.nextNonces[key]);
+  }
+
+  async trackTransaction(signer: Signer, transaction: ethers.providers.TransactionResponse) {
+    const key = await this.getKey(signer);
+    const { to, data, value, gasLimit, nonce, hash, gasPrice, maxFeePerGas, maxPriorityFeePerGas } = transaction;
+    this.pendingTransactions[key] = {
+      ...this.pendingTransactions[key],
+      [nonce]: {
+        signer,
+        hash,
+        submittedAt: getCurrentTime(),
+        request: { to, data, value, gasLimit, nonce },
+        fees: maxFeePerGas ? { maxFeePerGas, maxPriorityFeePerGas } : { gasPrice },
+        cancelled: false,
+        atFeeCap: false,
+      },
+    };
+  }
+
+  // Register a listener that is called with the old and new hash whenever the transaction is replaced.
+  onReplaced(transactionHash: string, listener: (oldHash: string, newHash: string) => void) {
+    this.replacementListeners[transactionHash] = [...(this.replacementListeners[transactionHash] ?? []), listener];
+  }
+
+  getPendingTransactionCount(): number {
+    return Object.values(this.pendingTransactions).reduce((count, pending) => count + Object.keys(pending).length, 0);
+  }
+
+  // Stop tracking transactions whose nonce was mined, by them or a replacement, and replace or cancel those that have
+  // been pending for longer than the stuck transaction timeout.
+  async update() {
+    await Promise.all(
+      Object.keys(this.pendingTransactions).map(async (key) => {
+        const nonces = Object.keys(this.pendingTransactions[key]).map(Number);
+        if (nonces.length === 0) return;
+        const minedNonce = await this.pendingTransactions[key][nonces[0]].signer.getTransactionCount("latest");
+        for (const nonce of nonces) {
+          const pendingTransaction = this.pendingTransactions[key][nonce];
+          if (nonce < minedNonce) {
+            delete this.replacementListeners[pendingTransaction.hash];
+            delete this.pendingTransactions[key][nonce];
+          } else if (getCurrentTime() - pendingTransaction.submittedAt >= this.stuckTransactionTimeout)
+            await this.replaceTransaction(pendingTransaction);
+        }
+      })
+    );
+  }
+
+  private async replaceTransaction(pendingTransaction: PendingTransaction) {
+    const { signer, hash: oldHash, request, fees: oldFees } = pendingTransaction;
+    const chainId = await signer.getChainId();
+    const networkFees = await this.gasPriceClient.getGasPrice(chainId, signer.provider);
+    // The chain's policy says not to send while network fees are above its ceiling, so the transaction is left pending.
+    if (networkFees === undefined) return;
+    const fees = this.getReplacementFees(chainId, oldFees, networkFees);
+    if (fees === undefined) {
+      // Only warn once, rather than every run, about a transaction that can not be repriced any further.
+      if (!pendingTransaction.atFeeCap)
+        this.logger.warn({
+          at: "NonceManager",
+          message: `Stuck transaction on ${getNetworkName(chainId)} is at the fee cap 🐢`,
+          nonce: request.nonce,
+          transactionHash: oldHash,
+          fees: oldFees,
+          maxFeePerGas: this.gasPriceClient.getPolicy(chainId).maxFeePerGas,
+          notificationPath: "across-error",
+        });
+      pendingTransaction.atFeeCap = true;
+      return;
+    }
+
+    const cancel = this.stuckTransactionAction === "cancel" || pendingTransaction.cancelled;
+    const replacementRequest = cancel
+      ? { to: await signer.getAddress(), value: toBN(0), nonce: request.nonce }
+      : request;
+    try {
+      const { hash: newHash } = await signer.sendTransaction({ ...replacementRequest, ...fees });
+      this.logger.info({
+        at: "NonceManager",
+        message: `${cancel ? "Cancelled" : "Replaced"} stuck transaction on ${getNetworkName(chainId)} ♻️`,
+        mrkdwn:
+          `Nonce ${request.nonce} was pending for ${getCurrentTime() - pendingTransaction.submittedAt} seconds.\n` +
+          `old tx: ${etherscanLink(oldHash, chainId)}\nnew tx: ${etherscanLink(newHash, chainId)}`,
+        oldHash,
+        newHash,
+        oldFees,
+        fees,
+      });
+      Object.assign(pendingTransaction, { hash: newHash, submittedAt: getCurrentTime(), fees, cancelled: cancel });
+      const listeners = this.replacementListeners[oldHash] ?? [];
+      delete this.replacementListeners[oldHash];
+      this.replacementListeners[newHash] = listeners;
+      listeners.forEach((listener) => listener(oldHash, newHash));
+    } catch (error) {
+      // The original transaction is commonly mined in the meantime, in which case the replacement's nonce is too low.
+      this.logger.debug({ at: "NonceManager", message: "Failed to replace stuck transaction", oldHash, error });
+    }
+  }
+
+  // Fees are raised by the fee multiplier or to the current network fees, whichever is higher, and capped at the
+  // policy's maxFeePerGas. Returns undefined if the capped fees do not raise the old fees enough to be accepted.
+  private getReplacementFees(
+    chainId: number,
+    oldFees: GasOverrides,
+    networkFees: GasOverrides
+  ): GasOverrides | undefined {
+    const cap = this.gasPriceClient.getPolicy(chainId).maxFeePerGas;
+    const bump = (fee: BigNumber, networkFee: BigNumber = toBN(0)) => {
+      const bumpedFee = fee.mul(toBNWei(this.feeMultiplier)).div(toBNWei(1));
+      const newFee = bumpedFee.gt(networkFee) ? bumpedFee : networkFee;
+      return cap !== undefined && newFee.gt(cap) ? cap : newFee;
+    };
+    const isEnough = (fee: BigNumber, oldFee: BigNumber) =>
+      fee.gte(oldFee.mul(MIN_REPLACEMENT_FEE_BUMP).div(toBNWei(1)));
+
+    if (oldFees.gasPrice !== undefined) {
+      const gasPrice = bump(oldFees.gasPrice, networkFees.gasPrice);
+      return isEnough(gasPrice, oldFees.gasPrice) ? { gasPrice } : undefined;
+    }
+    const maxFeePerGas = bump(oldFees.maxFeePerGas, networkFees.maxFeePerGas);
+    let maxPriorityFeePerGas = bump(oldFees.maxPriorityFeePerGas, networkFees.maxPriorityFeePerGas);
+    if (maxPriorityFeePerGas.gt(maxFeePerGas)) maxPriorityFeePerGas = maxFeePerGas;
+    return isEnough(maxFeePerGas, oldFees.maxFeePerGas) && isEnough(maxPriorityFeePerGas, oldFees.maxPriorityFeePerGas)
+      ? { maxFeePerGas, maxPriorityFeePerGas }
+      : undefined;
+  }
+
+  // Run task once the tasks queued before it for the key have settled. The queue is extended synchronously, so tasks
+  // run in the order they were enqueued.
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.nonceQueues[key] ?? Promise.resolve()).then(task);
+    this.nonceQueues[key] = result.catch(() => undefined);
+    return result;
+  }
+
+  private async getKey(signer: Signer): Promise<string> {
+    return `${await signer.getChainId()}_${await signer.getAddress()}`;
+  }
+}
@@ -0,0 +1,116 @@
+import { BigNumber, winston, toBN, getNetworkName } from "../utils";
+import { SpokePoolClient } from ".";
+import { Deposit } from "../interfaces";
+
+interface PendingFill {
+  deposit: Deposit;
+  fillAmount: BigNumber;
+  repaymentChainId: number;
+  transactionHash: string;
+  // Set once the fill is mined, from when the relayer's balances no longer include the funds that it spent.
+  mined?: boolean;
+}
+
+// Tracks fills that the relayer has submitted but that are not yet reflected in the destination SpokePoolClient. A
+// fill transaction can still be pending after the MultiCallerClient stops waiting on it. Without this registry, the
+// next loop of the relayer would see the deposit as unfilled and fill it again. Pending fills are keyed by deposit.
+export class PendingFillClient {
+  private pendingFills: { [depositKey: string]: PendingFill[] } = {};
+
+  constructor(readonly logger: winston.Logger, readonly spokePoolClients: { [chainId: number]: SpokePoolClient }) {}
+
+  addPendingFill(deposit: Deposit, fillAmount: BigNumber, repaymentChainId: number, transactionHash: string) {
+    this.logger.debug({ at: "PendingFillClient", message: "Tracking pending fill", deposit, transactionHash });
+    const depositKey = this.getDepositKey(deposit);
+    this.pendingFills[depositKey] = [
+      ...(this.pendingFills[depositKey] ?? []),
+      { deposit, fillAmount, repaymentChainId, transactionHash },
+    ];
+  }
+
+  // A fill transaction that was replaced with higher fees, or cancelled, is tracked by the hash of its replacement.
+  replaceTransactionHash(oldHash: string, newHash: string) {
+    for (const pendingFill of this.getPendingFills().filter(({ transactionHash }) => transactionHash === oldHash)) {
+      this.logger.debug({ at: "PendingFillClient", message: "Pending fill transaction replaced", oldHash, newHash });
+      pendingFill.transactionHash = newHash;
+    }
+  }
+
+  // Total amount of the deposit reserved by submitted fills that are not yet visible to the SpokePoolClient.
+  getPendingFillAmount(deposit: Deposit): BigNumber {
+    return (this.pendingFills[this.getDepositKey(deposit)] ?? []).reduce(
+      (total, { fillAmount }) => total.add(fillAmount),
+      toBN(0)
+    );
+  }
+
+  // Total amount of each destination token, per destination chain, spent by pending fills that are not yet mined.
+  getUnminedFillAmounts(): { [chainId: number]: { [token: string]: BigNumber } } {
+    const amounts = {};
+    for (const { deposit, fillAmount } of this.getPendingFills().filter(({ mined }) => !mined)) {
+      const { destinationChainId, destinationToken } = deposit;
+      amounts[destinationChainId] = amounts[destinationChainId] ?? {};
+      amounts[destinationChainId][destinationToken] = (amounts[destinationChainId][destinationToken] ?? toBN(0)).add(
+        fillAmount
+      );
+    }
+    return amounts;
+  }
+
+  getPendingFills(): PendingFill[] {
+    return Object.values(this.pendingFills).flat();
+  }
+
+  // Stop tracking fills that were mined and are visible to the destination SpokePoolClient, and fills whose
+  // transaction is no longer known to the node as it was dropped or replaced. Must be called after the SpokePoolClients
+  // are updated so that a mined fill is never forgotten before the SpokePoolClient has seen it.
+  async update() {
+    const pendingFills = this.getPendingFills();
+    if (pendingFills.length === 0) return;
+    this.logger.debug({ at: "PendingFillClient", message: "Updating pending fills", number: pendingFills.length });
+
+    const resolved = await Promise.all(pendingFills.map((pendingFill) => this.isResolved(pendingFill)));
+    for (const [index, pendingFill] of pendingFills.entries()) {
+      if (!resolved[index]) continue;
+      const depositKey = this.getDepositKey(pendingFill.deposit);
+      this.pendingFills[depositKey] = this.pendingFills[depositKey].filter((fill) => fill !== pendingFill);
+      if (this.pendingFills[depositKey].length === 0) delete this.pendingFills[depositKey];
+    }
+  }
+
+  private async isResolved(pendingFill: PendingFill): Promise<boolean> {
+    const { deposit, transactionHash } = pendingFill;
+    const spokePoolClient = this.spokePoolClients[deposit.destinationChainId];
+    const provider = spokePoolClient.spokePool.provider;
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (receipt) {
+      pendingFill.mined = receipt.status !== 0;
+      // A reverted fill never shows up in the SpokePoolClient. A successful one does once the client has searched past it.
+      const resolved = receipt.status === 0 || receipt.blockNumber <= spokePoolClient.latestBlockNumber;
+      if (resolved)
+        this.logger.debug({
+          at: "PendingFillClient",
+          message: `Pending fill ${receipt.status === 0 ? "reverted" : "mined"} on ${getNetworkName(
+            deposit.destinationChainId
+          )}`,
+          depositId: deposit.depositId,
+          transactionHash,
+        });
+      return resolved;
+    }
+    if ((await provider.getTransaction(transactionHash)) !== null) return false;
+    this.logger.warn({
+      at: "PendingFillClient",
+      message: "Pending fill transaction was dropped or replaced",
+      depositId: deposit.depositId,
+      originChainId: deposit.originChainId,
+      destinationChainId: deposit.destinationChainId,
+      transactionHash,
+    });
+    return true;
+  }
+
+  private getDepositKey(deposit: Deposit) {
+    return `${deposit.originChainId}_${deposit.depositId}`;
+  }
+}
@@ -1,11 +1,10 @@
-import { BigNumber, winston, toBNWei, toBN, assign } from "../utils";
-import { HubPoolClient } from ".";
-import { Deposit, L1Token } from "../interfaces";
-import { Coingecko } from "@uma/sdk";
-
-// Define the minimum revenue, in USD, that a relay must yield in order to be considered "profitable". This is a short
-// term solution to enable us to avoid DOS relays that yield negative profits. In the future this should be updated
-// to actual factor in the cost of sending transactions on the associated target chains.
+import { BigNumber, winston, toBNWei, toBN, assign, Contract, getTarget } from "../utils";
+import { getCurrentTime, fromWei } from "../utils";
+import { HubPoolClient, CoingeckoPriceSource, AugmentedTransaction } from ".";
+import { Deposit, L1Token, PriceSource, TokenPrice } from "../interfaces";
+
+// Define the default minimum net profit, in USD, that a relay must yield after paying for the gas of the fill
+// transaction in order to be considered "profitable". This can be overridden per chain via the relayer's config.
 const chainIdToMinRevenue = {
   // Mainnet and L1 testnets.
   1: toBNWei(10),
@@ -21,22 +20,81 @@ const chainIdToMinRevenue = {
   137: toBNWei(1),
   80001: toBNWei(1),
 };
+// Chains without a minimum, such as newly added chains, require the mainnet minimum.
+const defaultMinRevenue = toBNWei(10);
+
+// Mainnet address of the token used to price the native gas token of each chain. Chains without an entry, such as
+// local test networks, are assumed to have free gas.
+const chainIdToNativeTokenPriceAddress = {
+  1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+  10: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+  288: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+  42161: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
+  137: "0x7D1AfA7B718fb893dB30A3aBc0Cfc608AaCfeBB0", // MATIC
+};
+
+// Used if a fill's gas can not be estimated (for example if the RPC errors). Slightly above the cost of a typical fill.
+const defaultFillGasUnits = toBN(250000);
+
+// Default bounds a token price must be within for the relayer to use it. A price older than the max age, or that moved
+// more than the max deviation from the last valid price, pauses relays of the token until a valid price is fetched.
+const defaultPriceValidityBounds = { maxAge: 3600, maxDeviationPct: toBNWei("0.25") };
+
+export interface FillProfitability {
+  fillRevenueInUsd: BigNumber;
+  gasCostInUsd: BigNumber;
+  netProfitInUsd: BigNumber;
+  minimumAcceptableProfit: BigNumber;
+  fillProfitable: boolean;
+}
 
 export class ProfitClient {
-  private readonly coingecko;
-  protected tokenPrices: { [l1Token: string]: BigNumber } = {};
-  private unprofitableFills: { [chainId: number]: { deposit: Deposit; fillAmount: BigNumber }[] } = {};
+  private readonly minRelayerProfit: { [chainId: number]: BigNumber };
+  readonly priceValidityBounds: { maxAge: number; maxDeviationPct: BigNumber };
+  protected tokenPrices: { [l1Token: string]: TokenPrice } = {};
+  protected nativeTokenPrices: { [chainId: number]: TokenPrice } = {};
+  // Tokens whose price failed validation on the last update, mapped to the reason why. Relays of these are paused.
+  private invalidPrices: { [l1Token: string]: string } = {};
+  // Last price of each token that passed validation. New prices are checked for deviation against this, so that a
+  // rejected price never becomes the reference that later prices are compared to.
+  private validPrices: { [l1Token: string]: TokenPrice } = {};
+  // First price of each token's current move out of bounds of its last valid price. Once the price has stayed near
+  // this for the max price age, the move is accepted as real and the price becomes the new valid price.
+  private movedPrices: { [l1Token: string]: TokenPrice } = {};
+  // Gas units of each method on each chain, and each chain's gas price, estimated since the last update. Fills of all
+  // deposits to a chain cost about the same gas, so this saves estimating every deposit's fill.
+  private gasUnits: { [chainId: number]: { [method: string]: Promise<BigNumber> } } = {};
+  private gasPrices: { [chainId: number]: Promise<BigNumber> } = {};
+  private unprofitableFills: {
+    [chainId: number]: {
+      deposit: Deposit;
+      fillAmount: BigNumber;
+      fillRevenueInUsd: BigNumber;
+      gasCostInUsd: BigNumber;
+      netProfitInUsd: BigNumber;
+    }[];
+  } = {};
 
   constructor(
     readonly logger: winston.Logger,
     readonly hubPoolClient: HubPoolClient,
-    readonly relayerDiscount: BigNumber = toBNWei(0)
+    readonly relayerDiscount: BigNumber = toBNWei(0),
+    minRelayerProfitOverride: { [chainId: number]: BigNumber } = {},
+    // Sources are queried in order. Each token is priced by the first source that returns a price for it.
+    readonly priceSources: PriceSource[] = [new CoingeckoPriceSource(logger)],
+    priceValidityBoundsOverride: { maxAge?: number; maxDeviationPct?: BigNumber } = {}
   ) {
-    this.coingecko = new Coingecko();
+    this.minRelayerProfit = { ...chainIdToMinRevenue, ...minRelayerProfitOverride };
+    this.priceValidityBounds = { ...defaultPriceValidityBounds, ...priceValidityBoundsOverride };
   }
 
-  getAllPrices() {
-    return this.tokenPrices;
+  getAllPrices(): { [l1Token: string]: BigNumber } {
+    return Object.fromEntries(Object.entries(this.tokenPrices).map(([token, { price }]) => [token, price]));
+  }
+
+  // Returns the price of the token along with the time it was last updated and the source that produced it.
+  getPriceInfoOfToken(token: string): TokenPrice | undefined {
+    return this.tokenPrices[token];
   }
 
   getPriceOfToken(token: string) {
@@ -44,7 +102,19 @@ export class ProfitClient {
       this.logger.warn({ at: "ProfitClient", message: `Token ${token} not found in state. Using 0` });
       return toBN(0);
     }
-    return this.tokenPrices[token];
+    return this.tokenPrices[token].price;
+  }
+
+  // Relays of a token are paused if its price is missing, stale or moved out of bounds. If the relayer accepts all relays
+  // regardless of profitability then the price is never used and so relays are never paused.
+  isRelayPausedForDeposit(deposit: Deposit): boolean {
+    if (toBN(this.relayerDiscount).eq(toBNWei(1))) return false;
+    return this.invalidPrices[this.hubPoolClient.getTokenInfoForDeposit(deposit).address] !== undefined;
+  }
+
+  // Returns the tokens whose relays are paused, mapped to the reason that their price is invalid.
+  getInvalidPrices() {
+    return this.invalidPrices;
   }
 
   getUnprofitableFills() {
@@ -55,24 +125,52 @@ export class ProfitClient {
     this.unprofitableFills = {};
   }
 
-  isFillProfitable(deposit: Deposit, fillAmount: BigNumber) {
-    if (toBN(this.relayerDiscount).eq(toBNWei(1))) {
-      this.logger.debug({ at: "ProfitClient", message: "Relayer discount set to 100%. Accepting relay" });
-      return true;
-    }
+  getNativeTokenPrice(chainId: number) {
+    return this.nativeTokenPrices[chainId]?.price ?? toBN(0);
+  }
 
-    if (toBN(deposit.relayerFeePct).eq(toBN(0))) {
-      this.logger.debug({ at: "ProfitClient", message: "Deposit set 0 relayerFeePct. Rejecting relay" });
-      return false;
-    }
+  // Estimate the USD cost of sending the transaction on the given chain. Gas units are estimated against the target
+  // contract once per method and chain per update. Gas is priced at the provider's gas price, which on EIP-1559 chains
+  // is the base fee plus the suggested priority fee: what the transaction is expected to pay rather than the most that
+  // it may pay.
+  async estimateGasCostUsd(
+    chainId: number,
+    contract: Contract,
+    method: string,
+    args: AugmentedTransaction["args"]
+  ): Promise<BigNumber> {
+    // If the relayer is accepting all relays then there is no need to spend RPC calls on estimating gas.
+    if (toBN(this.relayerDiscount).eq(toBNWei(1))) return toBN(0);
+    if (!chainIdToNativeTokenPriceAddress[chainId]) return toBN(0);
+
+    if (this.gasUnits[chainId]?.[method] === undefined)
+      assign(this.gasUnits, [chainId, method], this.estimateGasUnits(chainId, contract, method, args));
+    if (this.gasPrices[chainId] === undefined)
+      this.gasPrices[chainId] = contract.provider.getGasPrice().catch((error) => {
+        delete this.gasPrices[chainId];
+        throw error;
+      });
+    const [gasUnits, gasPrice] = await Promise.all([this.gasUnits[chainId][method], this.gasPrices[chainId]]);
+    // Native tokens all have 18 decimals, as do the prices. The product of the two is scaled down by 1e18.
+    return toBN(gasUnits).mul(gasPrice).mul(this.getNativeTokenPrice(chainId)).div(toBNWei(1));
+  }
+
+  calculateFillProfitability(deposit: Deposit, fillAmount: BigNumber, gasCostInUsd: BigNumber): FillProfitability {
+    // If the deposit was sped up then the relayer is paid the updated fee.
+    const relayerFeePct = toBN(deposit.newRelayerFeePct ?? deposit.relayerFeePct);
     const { decimals, address: l1Token } = this.hubPoolClient.getTokenInfoForDeposit(deposit);
     const tokenPriceInUsd = this.getPriceOfToken(l1Token);
-    const fillRevenueInRelayedToken = toBN(deposit.relayerFeePct).mul(fillAmount).div(toBN(10).pow(decimals));
+    const fillRevenueInRelayedToken = relayerFeePct.mul(fillAmount).div(toBN(10).pow(decimals));
     const fillRevenueInUsd = fillRevenueInRelayedToken.mul(tokenPriceInUsd).div(toBNWei(1));
-    // How much minimumAcceptableRevenue is scaled. If relayer discount is 0 then need minimumAcceptableRevenue at min.
-    const revenueScalar = toBNWei(1).sub(this.relayerDiscount);
-    const minimumAcceptableRevenue = chainIdToMinRevenue[deposit.destinationChainId].mul(revenueScalar).div(toBNWei(1));
-    const fillProfitable = fillRevenueInUsd.gte(minimumAcceptableRevenue);
+    // How much the minimum acceptable profit and the gas cost are scaled. If the relayer discount is 0 then the relay
+    // must pay for its own gas and still leave at least the minimum acceptable profit.
+    const costScalar = toBNWei(1).sub(this.relayerDiscount);
+    const scaledGasCostInUsd = toBN(gasCostInUsd).mul(costScalar).div(toBNWei(1));
+    const netProfitInUsd = fillRevenueInUsd.sub(scaledGasCostInUsd);
+    const minimumAcceptableProfit = (this.minRelayerProfit[deposit.destinationChainId] ?? defaultMinRevenue)
+      .mul(costScalar)
+      .div(toBNWei(1));
+    const fillProfitable = relayerFeePct.gt(toBN(0)) && netProfitInUsd.gte(minimumAcceptableProfit);
     this.logger.debug({
       at: "ProfitClient",
       message: "Considered fill profitability",
@@ -81,16 +179,49 @@ export class ProfitClient {
       tokenPriceInUsd,
       fillRevenueInRelayedToken,
       fillRevenueInUsd,
-      minimumAcceptableRevenue,
+      gasCostInUsd: scaledGasCostInUsd,
+      netProfitInUsd,
+      minimumAcceptableProfit,
       discount: this.relayerDiscount,
       fillProfitable,
     });
-    return fillProfitable;
+    return {
+      fillRevenueInUsd,
+      gasCostInUsd: scaledGasCostInUsd,
+      netProfitInUsd,
+      minimumAcceptableProfit,
+      fillProfitable,
+    };
+  }
+
+  isFillProfitable(deposit: Deposit, fillAmount: BigNumber, gasCostInUsd: BigNumber = toBN(0)) {
+    if (toBN(this.relayerDiscount).eq(toBNWei(1))) {
+      this.logger.debug({ at: "ProfitClient", message: "Relayer discount set to 100%. Accepting relay" });
+      return true;
+    }
+
+    if (toBN(deposit.newRelayerFeePct ?? deposit.relayerFeePct).eq(toBN(0))) {
+      this.logger.debug({ at: "ProfitClient", message: "Deposit set 0 relayerFeePct. Rejecting relay" });
+      return false;
+    }
+    return this.calculateFillProfitability(deposit, fillAmount, gasCostInUsd).fillProfitable;
   }
 
-  captureUnprofitableFill(deposit: Deposit, fillAmount: BigNumber) {
+  captureUnprofitableFill(deposit: Deposit, fillAmount: BigNumber, gasCostInUsd: BigNumber = toBN(0)) {
     this.logger.debug({ at: "TokenClient", message: "Handling unprofitable fill", deposit, fillAmount });
-    assign(this.unprofitableFills, [deposit.originChainId], [{ deposit, fillAmount }]);
+    const { fillRevenueInUsd, netProfitInUsd, ...profitability } = this.calculateFillProfitability(
+      deposit,
+      fillAmount,
+      gasCostInUsd
+    );
+    const unprofitableFill = {
+      deposit,
+      fillAmount,
+      fillRevenueInUsd,
+      gasCostInUsd: profitability.gasCostInUsd,
+      netProfitInUsd,
+    };
+    assign(this.unprofitableFills, [deposit.originChainId], [unprofitableFill]);
   }
 
   anyCapturedUnprofitableFills(): boolean {
@@ -98,26 +229,158 @@ export class ProfitClient {
   }
 
   async update() {
+    this.gasUnits = {};
+    this.gasPrices = {};
     const l1Tokens = this.hubPoolClient.getL1Tokens();
     this.logger.debug({ at: "ProfitClient", message: "Updating Profit client", l1Tokens });
-    const prices = await Promise.allSettled(l1Tokens.map((l1Token: L1Token) => this.coingeckoPrice(l1Token.address)));
+    const nativeTokenChainIds = Object.keys(chainIdToNativeTokenPriceAddress);
+    const prices = await this.fetchPrices([
+      ...new Set([
+        ...l1Tokens.map((l1Token: L1Token) => l1Token.address),
+        ...Object.values(chainIdToNativeTokenPriceAddress),
+      ]),
+    ]);
+
+    for (const chainId of nativeTokenChainIds) {
+      const price = prices[chainIdToNativeTokenPriceAddress[chainId]];
+      if (price) this.nativeTokenPrices[chainId] = price;
+      else
+        this.logger.warn({
+          at: "ProfitClient",
+          message: `Could not fetch native token price for chain ${chainId}`,
+          lastKnownPrice: this.nativeTokenPrices[chainId],
+        });
+    }
 
     let errors = [];
-    for (const [index, priceResponse] of prices.entries()) {
-      if (priceResponse.status === "rejected") errors.push(l1Tokens[index]);
-      else this.tokenPrices[l1Tokens[index].address] = toBNWei(priceResponse.value[1]);
+    for (const l1Token of l1Tokens) {
+      if (prices[l1Token.address]) this.tokenPrices[l1Token.address] = prices[l1Token.address];
+      else errors.push(l1Token);
+      this.updatePriceValidity(l1Token);
     }
     if (errors.length > 0) {
-      let mrkdwn = "The following L1 token prices could not be fetched:\n";
+      let mrkdwn = "The following L1 token prices could not be fetched from any price source:\n";
       errors.forEach((token: L1Token) => {
-        mrkdwn += `- ${token.symbol} Not found. Using last known price of ${this.getPriceOfToken(token.address)}.\n`;
+        const lastKnownPrice = this.getPriceInfoOfToken(token.address);
+        mrkdwn += lastKnownPrice
+          ? `- ${token.symbol} Not found. Using last known price of ${lastKnownPrice.price} from ` +
+            `${lastKnownPrice.source} at ${lastKnownPrice.timestamp}.\n`
+          : `- ${token.symbol} Not found and no price is known. Using 0.\n`;
       });
       this.logger.warn({ at: "ProfitClient", message: "Could not fetch all token prices 💳", mrkdwn });
     }
     this.logger.debug({ at: "ProfitClient", message: "Updated Profit client", tokenPrices: this.tokenPrices });
   }
 
-  private async coingeckoPrice(token: string) {
-    return await this.coingecko.getCurrentPriceByContract(token, "usd");
+  // A failed estimate is not kept, so that the next transaction is estimated again.
+  private async estimateGasUnits(
+    chainId: number,
+    contract: Contract,
+    method: string,
+    args: AugmentedTransaction["args"]
+  ): Promise<BigNumber> {
+    try {
+      return await contract.estimateGas[method](...args);
+    } catch (error) {
+      delete this.gasUnits[chainId]?.[method];
+      this.logger.debug({
+        at: "ProfitClient",
+        message: "Could not estimate gas",
+        target: getTarget(contract.address),
+        method,
+        error,
+      });
+      return defaultFillGasUnits;
+    }
+  }
+
+  // Check the token's current price against the validity bounds. Alert once when the price first becomes invalid and
+  // relays of the token are paused, and again when a valid price arrives and relays resume.
+  private updatePriceValidity(l1Token: L1Token) {
+    const price = this.tokenPrices[l1Token.address];
+    let reason = this.getInvalidPriceReason(price, this.validPrices[l1Token.address]);
+    if (reason !== undefined && this.isLastingPriceMove(l1Token.address, price)) {
+      this.logger.warn({
+        at: "ProfitClient",
+        message: `Accepting lasting price move of ${l1Token.symbol}`,
+        lastValidPrice: this.validPrices[l1Token.address],
+        price,
+      });
+      reason = undefined;
+    }
+    const wasPaused = this.invalidPrices[l1Token.address] !== undefined;
+    if (reason !== undefined) {
+      this.invalidPrices[l1Token.address] = reason;
+      if (!wasPaused)
+        this.logger.error({
+          at: "ProfitClient",
+          message: `Pausing relays of ${l1Token.symbol} due to invalid price 🛑`,
+          mrkdwn: `Relays of ${l1Token.symbol} (${l1Token.address}) are paused until a valid price is fetched: ${reason}.`,
+          notificationPath: "across-error",
+        });
+      return;
+    }
+    this.validPrices[l1Token.address] = price;
+    delete this.movedPrices[l1Token.address];
+    if (wasPaused) {
+      delete this.invalidPrices[l1Token.address];
+      this.logger.info({
+        at: "ProfitClient",
+        message: `Resuming relays of ${l1Token.symbol} 🟢`,
+        price,
+      });
+    }
+  }
+
+  private getInvalidPriceReason(price: TokenPrice | undefined, validPrice: TokenPrice | undefined) {
+    if (price === undefined) return "no price is available";
+    const age = getCurrentTime() - price.timestamp;
+    const { maxAge, maxDeviationPct } = this.priceValidityBounds;
+    if (age > maxAge) return `price from ${price.source} is ${age}s old, above the max age of ${maxAge}s`;
+    if (validPrice === undefined || validPrice.price.eq(0)) return;
+    const deviationPct = this.getDeviationPct(price, validPrice);
+    if (deviationPct.gt(maxDeviationPct))
+      return (
+        `price from ${price.source} moved ${fromWei(deviationPct.mul(100))}% from the last valid price, above the ` +
+        `max deviation of ${fromWei(maxDeviationPct.mul(100))}%`
+      );
+  }
+
+  // A fresh price that is out of bounds of the last valid price either starts a new move or, if it is still within
+  // the max deviation of the price the current move started at, continues it. A move that has held for the max price
+  // age is lasting.
+  private isLastingPriceMove(l1Token: string, price: TokenPrice | undefined): boolean {
+    const { maxAge, maxDeviationPct } = this.priceValidityBounds;
+    if (price === undefined || getCurrentTime() - price.timestamp > maxAge) return false;
+    const movedPrice = this.movedPrices[l1Token];
+    if (
+      movedPrice === undefined ||
+      movedPrice.price.eq(0) ||
+      this.getDeviationPct(price, movedPrice).gt(maxDeviationPct)
+    ) {
+      this.movedPrices[l1Token] = price;
+      return false;
+    }
+    return price.timestamp - movedPrice.timestamp >= maxAge;
+  }
+
+  private getDeviationPct(price: TokenPrice, referencePrice: TokenPrice): BigNumber {
+    return price.price.sub(referencePrice.price).abs().mul(toBNWei(1)).div(referencePrice.price);
+  }
+
+  // Price the tokens by querying each price source in priority order, only asking a source for the tokens that none
+  // of the sources before it could price. A source that errors is skipped.
+  private async fetchPrices(addresses: string[]): Promise<{ [address: string]: TokenPrice }> {
+    const prices: { [address: string]: TokenPrice } = {};
+    for (const priceSource of this.priceSources) {
+      const missingAddresses = addresses.filter((address) => prices[address] === undefined);
+      if (missingAddresses.length === 0) break;
+      try {
+        Object.assign(prices, await priceSource.getPricesByAddress(missingAddresses));
+      } catch (error) {
+        this.logger.warn({ at: "ProfitClient", message: `Price source ${priceSource.name} failed`, error });
+      }
+    }
+    return prices;
   }
 }
@@ -0,0 +1,142 @@
+import { Event, providers, winston, getNetworkName } from "../utils";
+import { SortableEvent } from "../interfaces";
+
+// Blocks behind the latest block that are tracked by clients constructed without a finality margin.
+const defaultFinalityMargin = 64;
+
+export interface TrackedEvent extends SortableEvent {
+  event: string;
+}
+
+export interface Reorg {
+  forkBlock: number; // First block that was reorged out. The client drops its events from it onwards.
+  depth: number; // Blocks reorged out, up to the last block that the client searched.
+  removedEvents: TrackedEvent[];
+}
+
+// Tracks the hashes of the blocks that a client ingested events from, and of the last block of each of its searches,
+// while they are within the chain's finality margin. Before each search the client checks whether any of them were
+// reorged out. If so, it drops its events from the fork block onwards and searches again from the fork block. Clients
+// constructed without a contract, such as the mock clients in tests, have no provider and track no blocks.
+export class ReorgTracker {
+  private blockHashes: { [blockNumber: number]: string } = {};
+  private events: TrackedEvent[] = [];
+  private firstTrackedBlock: number | undefined;
+  private search: { toBlock: number; toBlockHash: string | undefined; finalBlock: number } | undefined;
+  private pendingReorg: Reorg | undefined;
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly at: string,
+    readonly provider: providers.Provider | undefined,
+    readonly finalityMargin: number = defaultFinalityMargin
+  ) {}
+
+  // Returns the reorg of the tracked blocks, if any, since the last search and stops tracking the reorged blocks.
+  async findReorg(): Promise<Reorg | undefined> {
+    if (this.provider === undefined) return undefined;
+    const blockNumbers = Object.keys(this.blockHashes)
+      .map(Number)
+      .sort((x, y) => y - x);
+    if (blockNumbers.length === 0) return undefined;
+
+    // Tracked blocks are ancestors of the latest tracked block. They only need checking if it was reorged out.
+    let lastMatchingBlock: number | undefined;
+    for (const blockNumber of blockNumbers) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block?.hash === this.blockHashes[blockNumber]) {
+        lastMatchingBlock = blockNumber;
+        break;
+      }
+    }
+    if (lastMatchingBlock === blockNumbers[0]) return undefined;
+
+    // If no tracked block matches then the reorg is at least as deep as the tracked window.
+    const forkBlock = lastMatchingBlock !== undefined ? lastMatchingBlock + 1 : this.firstTrackedBlock;
+    const reorg = {
+      forkBlock,
+      depth: blockNumbers[0] - forkBlock + 1,
+      removedEvents: this.events.filter((event) => event.blockNumber >= forkBlock),
+    };
+    this.events = this.events.filter((event) => event.blockNumber < forkBlock);
+    for (const blockNumber of blockNumbers) if (blockNumber >= forkBlock) delete this.blockHashes[blockNumber];
+    this.pendingReorg = reorg;
+    return reorg;
+  }
+
+  // Reads the hash of the search's last block. This must happen before the search's events are queried, so that a reorg
+  // of the block while they are queried is found by the next search.
+  async startSearch(fromBlock: number, toBlock: number, latestBlock: number) {
+    const finalBlock = latestBlock - this.finalityMargin;
+    const toBlockHash =
+      this.provider !== undefined && toBlock > finalBlock ? (await this.provider.getBlock(toBlock))?.hash : undefined;
+    this.firstTrackedBlock = Math.max(this.firstTrackedBlock ?? fromBlock, finalBlock + 1);
+    this.search = { toBlock, toBlockHash, finalBlock };
+  }
+
+  // Tracks the events of the search and stops tracking blocks that have become final. If the search followed a reorg,
+  // logs the events that the reorg changed.
+  async finishSearch(events: Event[]) {
+    if (this.search === undefined) throw new Error("ReorgTracker search not started");
+    const { toBlock, toBlockHash, finalBlock } = this.search;
+    this.search = undefined;
+
+    const searchEvents = events.map((event) => ({
+      event: event.event,
+      blockNumber: event.blockNumber,
+      transactionIndex: event.transactionIndex,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+    }));
+    // Events served from the EventCache have no block hash, but are always from final blocks.
+    for (const [index, event] of events.entries())
+      if (event.blockNumber > finalBlock && event.blockHash !== undefined) {
+        this.blockHashes[event.blockNumber] = event.blockHash;
+        this.events.push(searchEvents[index]);
+      }
+    if (toBlockHash !== undefined) this.blockHashes[toBlock] = toBlockHash;
+    for (const blockNumber of Object.keys(this.blockHashes))
+      if (Number(blockNumber) <= finalBlock) delete this.blockHashes[blockNumber];
+    this.events = this.events.filter((event) => event.blockNumber > finalBlock);
+
+    if (this.pendingReorg !== undefined) {
+      const reorg = this.pendingReorg;
+      this.pendingReorg = undefined;
+      await this.logReorg(reorg, searchEvents);
+    }
+  }
+
+  private async logReorg(reorg: Reorg, searchEvents: TrackedEvent[]) {
+    // Events are matched by transaction, as events that were included again may be in a different block.
+    const getId = (event: TrackedEvent) => `${event.event}:${event.transactionHash}`;
+    const requeriedEvents = searchEvents.filter((event) => event.blockNumber >= reorg.forkBlock);
+    const droppedEvents = unmatchedEvents(reorg.removedEvents, requeriedEvents, getId);
+    const addedEvents = unmatchedEvents(requeriedEvents, reorg.removedEvents, getId);
+    const { chainId } = await this.provider.getNetwork();
+    this.logger[droppedEvents.length > 0 || addedEvents.length > 0 ? "warn" : "debug"]({
+      at: this.at,
+      message: `Reorg of ${reorg.depth} blocks on ${getNetworkName(chainId)} from block ${reorg.forkBlock}`,
+      forkBlock: reorg.forkBlock,
+      depth: reorg.depth,
+      droppedEvents,
+      addedEvents,
+      requeriedEvents: requeriedEvents.length,
+    });
+  }
+}
+
+// Events in events that are not in otherEvents, counting events with the same ID as many times as they occur.
+function unmatchedEvents(
+  events: TrackedEvent[],
+  otherEvents: TrackedEvent[],
+  getId: (event: TrackedEvent) => string
+): TrackedEvent[] {
+  const otherCounts: { [id: string]: number } = {};
+  for (const event of otherEvents) otherCounts[getId(event)] = (otherCounts[getId(event)] ?? 0) + 1;
+  return events.filter((event) => {
+    const id = getId(event);
+    if (!otherCounts[id]) return true;
+    otherCounts[id]--;
+    return false;
+  });
+}
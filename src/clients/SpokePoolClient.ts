@@ -1,19 +1,40 @@
-import { spreadEvent, assign, Contract, BigNumber, EventSearchConfig, Promise } from "../utils";
+import { spreadEvent, assign, Contract, BigNumber, EventSearchConfig, EventFilter, Promise } from "../utils";
 import { toBN, Event, ZERO_ADDRESS, winston, paginatedEventQuery, spreadEventWithBlockNumber } from "../utils";
 
 import { AcrossConfigStoreClient } from "./ConfigStoreClient";
-import { Deposit, DepositWithBlock, Fill, SpeedUp, FillWithBlock, TokensBridged } from "../interfaces/SpokePool";
+import { EventCache } from "./EventCache";
+import { ReorgTracker } from "./ReorgTracker";
+import {
+  Deposit,
+  DepositWithBlock,
+  Fill,
+  SpeedUpWithBlock,
+  FillWithBlock,
+  TokensBridged,
+} from "../interfaces/SpokePool";
+import { TokensBridgedWithBlock } from "../interfaces/SpokePool";
 import { RootBundleRelayWithBlock, RelayerRefundExecutionWithBlock } from "../interfaces/SpokePool";
 import { RootBundleExecutedEvent } from "@across-protocol/contracts-v2/dist/typechain/HubPool";
 
 export class SpokePoolClient {
   private deposits: { [DestinationChainId: number]: Deposit[] } = {};
   private fills: Fill[] = [];
-  private speedUps: { [depositorAddress: string]: { [depositId: number]: SpeedUp[] } } = {};
+  // Positions of each deposit and fill in the arrays above, so that the deposit and fills for a relay are found without
+  // scanning them. Deposit IDs are unique per origin chain, which is this client's chain for all of its deposits.
+  private depositIndex: { [DestinationChainId: number]: { [depositId: number]: number } } = {};
+  private fillIndex: { [originChainId: number]: { [depositId: number]: number[] } } = {};
+  private speedUps: { [depositorAddress: string]: { [depositId: number]: SpeedUpWithBlock[] } } = {};
   private depositRoutes: { [originToken: string]: { [DestinationChainId: number]: boolean } } = {};
-  private tokensBridged: TokensBridged[] = [];
+  private depositRouteUpdates: {
+    originToken: string;
+    destinationChainId: number;
+    enabled: boolean;
+    blockNumber: number;
+  }[] = [];
+  private tokensBridged: TokensBridgedWithBlock[] = [];
   private rootBundleRelays: RootBundleRelayWithBlock[] = [];
   private relayerRefundExecutions: RelayerRefundExecutionWithBlock[] = [];
+  private reorgTracker: ReorgTracker;
   public isUpdated: boolean = false;
 
   public firstBlockToSearch: number;
@@ -27,9 +48,12 @@ export class SpokePoolClient {
     readonly configStoreClient: AcrossConfigStoreClient | null, // Can be excluded. This disables some deposit validation.
     readonly chainId: number,
     readonly eventSearchConfig: EventSearchConfig = { fromBlock: 0, toBlock: null, maxBlockLookBack: 0 },
-    readonly spokePoolDeploymentBlock: number = 0
+    readonly spokePoolDeploymentBlock: number = 0,
+    readonly eventCache?: EventCache,
+    readonly finalityMargin?: number
   ) {
     this.firstBlockToSearch = eventSearchConfig.fromBlock;
+    this.reorgTracker = new ReorgTracker(logger, "SpokePoolClient", spokePool?.provider, finalityMargin);
   }
 
   getDepositsForDestinationChain(destinationChainId: number, withBlock = false): Deposit[] | DepositWithBlock[] {
@@ -76,8 +100,8 @@ export class SpokePoolClient {
     return this.fills.filter((fill: Fill) => fill.repaymentChainId === repaymentChainId);
   }
 
-  getFillsForRelayer(relayer: string) {
-    return this.fills.filter((fill: Fill) => fill.relayer === relayer);
+  getFillsForRelayer(relayer: string, withBlock = false): Fill[] | FillWithBlock[] {
+    return (withBlock ? this.fillsWithBlockNumbers : this.fills).filter((fill: Fill) => fill.relayer === relayer);
   }
 
   getRootBundleRelays() {
@@ -89,27 +113,44 @@ export class SpokePoolClient {
   }
 
   appendMaxSpeedUpSignatureToDeposit(deposit: Deposit) {
-    const maxSpeedUp = this.speedUps[deposit.depositor]?.[deposit.depositId].reduce((prev, current) =>
+    const maxSpeedUp = this.speedUps[deposit.depositor]?.[deposit.depositId]?.reduce((prev, current) =>
       prev.newRelayerFeePct.gt(current.newRelayerFeePct) ? prev : current
     );
 
-    // Only if there is a speedup and the new relayer fee is greater than the current relayer fee, replace the fee.
+    // Only if there is a speedup and the new relayer fee is greater than the current relayer fee, append the new fee.
+    // The original relayerFeePct is retained as it is part of the relay hash that fills must match.
     if (!maxSpeedUp || maxSpeedUp.newRelayerFeePct.lte(deposit.relayerFeePct)) return deposit;
-    return { ...deposit, speedUpSignature: maxSpeedUp.depositorSignature, relayerFeePct: maxSpeedUp.newRelayerFeePct };
+    return {
+      ...deposit,
+      speedUpSignature: maxSpeedUp.depositorSignature,
+      newRelayerFeePct: maxSpeedUp.newRelayerFeePct,
+    };
+  }
+
+  getDeposit(destinationChainId: number, depositId: number, withBlock = false): Deposit | DepositWithBlock | undefined {
+    const position = this.depositIndex[destinationChainId]?.[depositId];
+    if (position === undefined) return undefined;
+    return withBlock
+      ? this.depositsWithBlockNumbers[destinationChainId][position]
+      : this.deposits[destinationChainId][position];
+  }
+
+  getFillsForDeposit(originChainId: number, depositId: number, withBlock = false): Fill[] | FillWithBlock[] {
+    const positions = this.fillIndex[originChainId]?.[depositId] ?? [];
+    return positions.map((position) => (withBlock ? this.fillsWithBlockNumbers[position] : this.fills[position]));
   }
 
   getDepositForFill(fill: Fill): Deposit | undefined {
     const { blockNumber, ...fillCopy } = fill as FillWithBlock; // Ignore blockNumber when validating the fill.
-    return this.getDepositsForDestinationChain(fillCopy.destinationChainId).find((deposit) => {
-      if (fillCopy.depositId !== deposit.depositId) return false;
-      return this.validateFillForDeposit(fillCopy, deposit);
-    });
+    const deposit = this.getDeposit(fillCopy.destinationChainId, fillCopy.depositId);
+    return deposit !== undefined && this.validateFillForDeposit(fillCopy, deposit) ? deposit : undefined;
   }
 
   getValidUnfilledAmountForDeposit(deposit: Deposit): { unfilledAmount: BigNumber; fillCount: number } {
-    const fills = this.getFillsForOriginChain(deposit.originChainId)
-      .filter((fill) => fill.depositId === deposit.depositId) // Only select the associated fill for the deposit.
-      .filter((fill) => this.validateFillForDeposit(fill, deposit)); // Validate that the fill was valid for the deposit.
+    // Only select the fills for the deposit that are valid for it.
+    const fills = (this.getFillsForDeposit(deposit.originChainId, deposit.depositId) as Fill[]).filter((fill) =>
+      this.validateFillForDeposit(fill, deposit)
+    );
 
     if (fills.length === 0) return { unfilledAmount: toBN(deposit.amount), fillCount: 0 }; // If no fills then the full amount is remaining.
 
@@ -139,6 +180,8 @@ export class SpokePoolClient {
     if (this.configStoreClient !== null && !this.configStoreClient.isUpdated) throw new Error("RateModel not updated");
 
     this.latestBlockNumber = await this.spokePool.provider.getBlockNumber();
+    const reorg = await this.reorgTracker.findReorg();
+    if (reorg) this.rollback(reorg.forkBlock);
     const searchConfig = {
       fromBlock: this.firstBlockToSearch,
       toBlock: this.eventSearchConfig.toBlock || this.latestBlockNumber,
@@ -157,6 +200,7 @@ export class SpokePoolClient {
       spokePool: this.spokePool.address,
     });
     if (searchConfig.fromBlock > searchConfig.toBlock) return; // If the starting block is greater than the ending block return.
+    await this.reorgTracker.startSearch(searchConfig.fromBlock, searchConfig.toBlock, this.latestBlockNumber);
 
     const [
       depositEvents,
@@ -168,19 +212,19 @@ export class SpokePoolClient {
       executedRelayerRefundRootEvents,
     ] = await Promise.all(
       [
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.FundsDeposited(), searchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.RequestedSpeedUpDeposit(), searchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.FilledRelay(), searchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.EnabledDepositRoute(), depositRouteSearchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.TokensBridged(), depositRouteSearchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.RelayedRootBundle(), searchConfig),
-        paginatedEventQuery(this.spokePool, this.spokePool.filters.ExecutedRelayerRefundRoot(), searchConfig),
+        this.queryEvents(this.spokePool.filters.FundsDeposited(), searchConfig),
+        this.queryEvents(this.spokePool.filters.RequestedSpeedUpDeposit(), searchConfig),
+        this.queryEvents(this.spokePool.filters.FilledRelay(), searchConfig),
+        this.queryEvents(this.spokePool.filters.EnabledDepositRoute(), depositRouteSearchConfig),
+        this.queryEvents(this.spokePool.filters.TokensBridged(), depositRouteSearchConfig),
+        this.queryEvents(this.spokePool.filters.RelayedRootBundle(), searchConfig),
+        this.queryEvents(this.spokePool.filters.ExecutedRelayerRefundRoot(), searchConfig),
       ],
       { concurrency: 2 }
     );
 
     for (const event of tokensBridgedEvents) {
-      this.tokensBridged.push({ ...spreadEvent(event), transactionHash: event.transactionHash });
+      this.tokensBridged.push(spreadEventWithBlockNumber(event) as TokensBridgedWithBlock);
     }
 
     // For each depositEvent, compute the realizedLpFeePct. Note this means that we are only finding this value on the
@@ -200,16 +244,22 @@ export class SpokePoolClient {
       const deposit: Deposit = { ...spreadEvent(event), realizedLpFeePct: dataForQuoteTime[index].realizedLpFeePct };
       // Append the destination token to the deposit.
       deposit.destinationToken = this.getDestinationTokenForDeposit(deposit);
-      assign(this.deposits, [deposit.destinationChainId], [deposit]);
-      assign(
-        this.depositsWithBlockNumbers,
-        [deposit.destinationChainId],
-        [{ ...deposit, blockNumber: dataForQuoteTime[index].quoteBlock, originBlockNumber: event.blockNumber }]
-      );
+      // Deposits are pushed rather than assigned, as assigning copies the destination chain's deposits every time.
+      if (this.deposits[deposit.destinationChainId] === undefined) {
+        this.deposits[deposit.destinationChainId] = [];
+        this.depositsWithBlockNumbers[deposit.destinationChainId] = [];
+      }
+      this.indexDeposit(deposit, this.deposits[deposit.destinationChainId].length);
+      this.deposits[deposit.destinationChainId].push(deposit);
+      this.depositsWithBlockNumbers[deposit.destinationChainId].push({
+        ...deposit,
+        blockNumber: dataForQuoteTime[index].quoteBlock,
+        originBlockNumber: event.blockNumber,
+      } as DepositWithBlock);
     }
 
     for (const event of speedUpEvents) {
-      const speedUp: SpeedUp = { ...spreadEvent(event), originChainId: this.chainId };
+      const speedUp = { ...spreadEventWithBlockNumber(event), originChainId: this.chainId } as SpeedUpWithBlock;
       assign(this.speedUps, [speedUp.depositor, speedUp.depositId], [speedUp]);
     }
 
@@ -221,12 +271,15 @@ export class SpokePoolClient {
       }
 
     for (const event of fillEvents) {
-      this.fills.push(spreadEvent(event));
+      const fill: Fill = spreadEvent(event);
+      this.indexFill(fill, this.fills.length);
+      this.fills.push(fill);
       this.fillsWithBlockNumbers.push(spreadEventWithBlockNumber(event) as FillWithBlock);
     }
 
     for (const event of enableDepositsEvents) {
       const enableDeposit = spreadEvent(event);
+      this.depositRouteUpdates.push({ ...enableDeposit, blockNumber: event.blockNumber });
       assign(this.depositRoutes, [enableDeposit.originToken, enableDeposit.destinationChainId], enableDeposit.enabled);
     }
 
@@ -238,6 +291,17 @@ export class SpokePoolClient {
       this.relayerRefundExecutions.push(spreadEventWithBlockNumber(event) as RelayerRefundExecutionWithBlock);
     }
 
+    await this.reorgTracker.finishSearch(
+      [
+        depositEvents,
+        speedUpEvents,
+        fillEvents,
+        enableDepositsEvents,
+        tokensBridgedEvents,
+        relayedRootBundleEvents,
+        executedRelayerRefundRootEvents,
+      ].flat()
+    );
     this.firstBlockToSearch = searchConfig.toBlock + 1; // Next iteration should start off from where this one ended.
 
     this.isUpdated = true;
@@ -248,6 +312,51 @@ export class SpokePoolClient {
     return this.configStoreClient.hubPoolClient;
   }
 
+  // Drops the events from blocks that were reorged out, so that the next search queries them again.
+  private rollback(forkBlock: number) {
+    const beforeFork = (event: { blockNumber: number }) => event.blockNumber < forkBlock;
+    for (const destinationChainId of Object.keys(this.deposits)) {
+      const depositsWithBlock = this.depositsWithBlockNumbers[destinationChainId];
+      // Speed ups are appended to the remaining deposits again once the reorged speed ups are dropped.
+      this.deposits[destinationChainId] = this.deposits[destinationChainId]
+        .filter((_, index) => depositsWithBlock[index].originBlockNumber < forkBlock)
+        .map(({ speedUpSignature, newRelayerFeePct, ...deposit }) => deposit);
+      this.depositsWithBlockNumbers[destinationChainId] = depositsWithBlock.filter(
+        (deposit) => deposit.originBlockNumber < forkBlock
+      );
+    }
+    this.fills = this.fills.filter((_, index) => beforeFork(this.fillsWithBlockNumbers[index]));
+    this.fillsWithBlockNumbers = this.fillsWithBlockNumbers.filter(beforeFork);
+    this.depositIndex = {};
+    for (const deposits of Object.values(this.deposits))
+      for (const [position, deposit] of deposits.entries()) this.indexDeposit(deposit, position);
+    this.fillIndex = {};
+    for (const [position, fill] of this.fills.entries()) this.indexFill(fill, position);
+    for (const depositor of Object.keys(this.speedUps)) {
+      for (const depositId of Object.keys(this.speedUps[depositor])) {
+        this.speedUps[depositor][depositId] = this.speedUps[depositor][depositId].filter(beforeFork);
+        if (this.speedUps[depositor][depositId].length === 0) delete this.speedUps[depositor][depositId];
+      }
+    }
+    this.depositRouteUpdates = this.depositRouteUpdates.filter(beforeFork);
+    this.depositRoutes = {};
+    for (const { originToken, destinationChainId, enabled } of this.depositRouteUpdates)
+      assign(this.depositRoutes, [originToken, destinationChainId], enabled);
+    this.tokensBridged = this.tokensBridged.filter(beforeFork);
+    this.rootBundleRelays = this.rootBundleRelays.filter(beforeFork);
+    this.relayerRefundExecutions = this.relayerRefundExecutions.filter(beforeFork);
+    this.firstBlockToSearch = Math.min(this.firstBlockToSearch, forkBlock);
+  }
+
+  private indexDeposit(deposit: Deposit, position: number) {
+    if (this.depositIndex[deposit.destinationChainId] === undefined) this.depositIndex[deposit.destinationChainId] = {};
+    this.depositIndex[deposit.destinationChainId][deposit.depositId] = position;
+  }
+
+  private indexFill(fill: Fill, position: number) {
+    assign(this.fillIndex, [fill.originChainId, fill.depositId], [position]);
+  }
+
   private async computeRealizedLpFeePct(depositEvent: Event) {
     if (!this.configStoreClient) return { realizedLpFeePct: toBN(0), quoteBlock: 0 }; // If there is no rate model client return 0.
     const deposit = {
@@ -265,6 +374,11 @@ export class SpokePoolClient {
     return this.hubPoolClient().getDestinationTokenForDeposit(deposit);
   }
 
+  private async queryEvents(filter: EventFilter, searchConfig: EventSearchConfig) {
+    if (this.eventCache) return await this.eventCache.queryEvents(this.spokePool, filter, searchConfig);
+    return await paginatedEventQuery(this.spokePool, filter, searchConfig, this.logger);
+  }
+
   private log(level: string, message: string, data?: any) {
     this.logger[level]({ at: "SpokePoolClient", chainId: this.chainId, message, ...data });
   }
@@ -1,6 +1,6 @@
-import { BigNumber, winston, assign, ERC20, Contract, toBN, MAX_SAFE_ALLOWANCE } from "../utils";
+import { BigNumber, winston, assign, ERC20, Contract, Signer, toBN, MAX_SAFE_ALLOWANCE } from "../utils";
 import { runTransaction, getNetworkName, etherscanLink, MAX_UINT_VAL } from "../utils";
-import { HubPoolClient, SpokePoolClient } from ".";
+import { GasPriceClient, HubPoolClient, SpokePoolClient } from ".";
 import { Deposit } from "../interfaces";
 
 export class TokenClient {
@@ -9,12 +9,16 @@ export class TokenClient {
     [chainId: number]: { [token: string]: { deposits: number[]; totalRequirement: BigNumber } };
   } = {};
   private bondToken: Contract;
+  // Amount of each token on each chain that transactions sent but not yet mined will spend. Balances read from the chain
+  // still include these funds, so they are subtracted from the balances that are available to spend.
+  private reservedBalances: { [chainId: number]: { [token: string]: BigNumber } } = {};
 
   constructor(
     readonly logger: winston.Logger,
     readonly relayerAddress,
     readonly spokePoolClients: { [chainId: number]: SpokePoolClient },
-    readonly hubPoolClient: HubPoolClient
+    readonly hubPoolClient: HubPoolClient,
+    readonly gasPriceClient?: GasPriceClient
   ) {}
 
   getAllTokenData() {
@@ -28,7 +32,11 @@ export class TokenClient {
 
   getBalance(chainId: number | string, token: string) {
     if (!this._hasTokenPairData(chainId, token)) return toBN(0);
-    return this.tokenData[chainId][token].balance;
+    return this.tokenData[chainId][token].balance.sub(this.reservedBalances[chainId]?.[token] ?? toBN(0));
+  }
+
+  setReservedBalances(reservedBalances: { [chainId: number]: { [token: string]: BigNumber } }) {
+    this.reservedBalances = reservedBalances;
   }
 
   getAllowanceOnChain(chainId: number, token: string) {
@@ -110,7 +118,16 @@ export class TokenClient {
     for (const { token, chainId } of tokensToApprove) {
       const targetSpokePool = this.spokePoolClients[chainId].spokePool;
       const contract = new Contract(token, ERC20.abi, targetSpokePool.signer);
-      const tx = await runTransaction(this.logger, contract, "approve", [targetSpokePool.address, MAX_UINT_VAL]);
+      const tx = await runTransaction(
+        this.logger,
+        contract,
+        "approve",
+        [targetSpokePool.address, MAX_UINT_VAL],
+        toBN(0),
+        undefined,
+        undefined,
+        this.gasPriceClient
+      );
       const receipt = await tx.wait();
       mrkdwn +=
         ` - Approved SpokePool ${etherscanLink(targetSpokePool.address, chainId)} ` +
@@ -120,17 +137,29 @@ export class TokenClient {
     this.logger.info({ at: "TokenBalanceClient", message: `Approved whitelisted tokens! 💰`, mrkdwn });
   }
 
-  async setBondTokenAllowance() {
-    const ownerAddress = await this.hubPoolClient.hubPool.signer.getAddress();
+  // Approve the HubPool to spend the bond token of each signer that posts bonds. Defaults to the HubPool's signer.
+  async setBondTokenAllowance(signers: Signer[] = []) {
+    if (signers.length === 0) signers = [this.hubPoolClient.hubPool.signer];
+    for (const signer of signers) await this.setBondTokenAllowanceForSigner(signer);
+  }
+
+  private async setBondTokenAllowanceForSigner(signer: Signer) {
+    const ownerAddress = await signer.getAddress();
     const currentCollateralAllowance: BigNumber = await this.bondToken.allowance(
       ownerAddress,
       this.hubPoolClient.hubPool.address
     );
     if (currentCollateralAllowance.lt(toBN(MAX_SAFE_ALLOWANCE))) {
-      const tx = await runTransaction(this.logger, this.bondToken, "approve", [
-        this.hubPoolClient.hubPool.address,
-        MAX_UINT_VAL,
-      ]);
+      const tx = await runTransaction(
+        this.logger,
+        this.bondToken.connect(signer),
+        "approve",
+        [this.hubPoolClient.hubPool.address, MAX_UINT_VAL],
+        toBN(0),
+        undefined,
+        undefined,
+        this.gasPriceClient
+      );
       const receipt = await tx.wait();
       const mrkdwn =
         ` - Approved HubPool ${etherscanLink(this.hubPoolClient.hubPool.address, 1)} ` +
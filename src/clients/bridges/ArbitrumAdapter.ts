@@ -0,0 +1,100 @@
+import { BigNumber, Contract, ethers, toBN } from "../../utils";
+import { BaseAdapter, CrossChainTransfer, L1ToL2Transaction } from "./BaseAdapter";
+
+const gatewayRouterAbi = [
+  "function getGateway(address _token) view returns (address)",
+  "function outboundTransfer(address _token, address _to, uint256 _amount, uint256 _maxGas, uint256 _gasPriceBid, bytes _data) payable returns (bytes)",
+];
+const l1GatewayAbi = [
+  "function getOutboundCalldata(address _token, address _from, address _to, uint256 _amount, bytes _data) view returns (bytes)",
+  "function inbox() view returns (address)",
+  "event DepositInitiated(address l1Token, address indexed _from, address indexed _to, uint256 indexed _sequenceNumber, uint256 _amount)",
+];
+const inboxAbi = [
+  "function calculateRetryableSubmissionFee(uint256 dataLength, uint256 baseFee) view returns (uint256)",
+];
+const l2GatewayAbi = [
+  "event DepositFinalized(address indexed l1Token, address indexed _from, address indexed _to, uint256 _amount)",
+];
+
+const l1GatewayRouter = "0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef";
+const l2GatewayRouter = "0x5288c571Fd7aD117beA99bF60FE0846C4E84F933";
+
+// The deposit is executed on Arbitrum as a retryable ticket, which is paid for in ETH sent with the L1 transaction.
+// The ticket's submission cost and L2 gas price are quoted when the transfer is built and bid at a multiple of the
+// quote, as both can rise before the transfer is mined. Any ETH that is not used is refunded to the relayer on Arbitrum.
+const l2GasLimit = toBN(150000);
+const quoteMultiplier = 3;
+
+// Bridges tokens to Arbitrum over the gateway router, which forwards each token to the gateway it is registered with.
+export class ArbitrumAdapter extends BaseAdapter {
+  private gateways: { [l1Token: string]: { l1: string; l2: string } } = {};
+
+  async getL1ApprovalTarget(l1Token: string): Promise<string> {
+    return (await this.getGateways(l1Token)).l1;
+  }
+
+  async buildL1ToL2Transaction(l1Token: string, _l2Token: string, amount: BigNumber): Promise<L1ToL2Transaction> {
+    const gateway = new Contract((await this.getGateways(l1Token)).l1, l1GatewayAbi, this.l1Signer);
+    const [outboundCalldata, inboxAddress, l1Block, l2GasPriceQuote] = await Promise.all([
+      gateway.getOutboundCalldata(l1Token, this.relayerAddress, this.relayerAddress, amount, "0x"),
+      gateway.inbox(),
+      this.l1Signer.provider.getBlock("latest"),
+      this.l2Provider.getGasPrice(),
+    ]);
+    const inbox = new Contract(inboxAddress, inboxAbi, this.l1Signer);
+    const dataLength = ethers.utils.hexDataLength(outboundCalldata);
+    const submissionCostQuote = await inbox.calculateRetryableSubmissionFee(dataLength, l1Block.baseFeePerGas);
+    const maxSubmissionCost = submissionCostQuote.mul(quoteMultiplier);
+    const l2GasPrice = l2GasPriceQuote.mul(quoteMultiplier);
+    const data = ethers.utils.defaultAbiCoder.encode(["uint256", "bytes"], [maxSubmissionCost, "0x"]);
+    return {
+      contract: new Contract(l1GatewayRouter, gatewayRouterAbi, this.l1Signer),
+      method: "outboundTransfer",
+      args: [l1Token, this.relayerAddress, amount, l2GasLimit, l2GasPrice, data],
+      value: maxSubmissionCost.add(l2GasLimit.mul(l2GasPrice)),
+    };
+  }
+
+  protected async queryL1InitiatedTransfers(
+    l1Token: string,
+    _l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const gateway = new Contract((await this.getGateways(l1Token)).l1, l1GatewayAbi, this.l1Signer);
+    const filter = gateway.filters.DepositInitiated(null, this.relayerAddress);
+    // The L1 token is not indexed, so events for other tokens sharing the gateway are filtered out here.
+    return (await this.queryEvents(gateway, filter, fromBlock, toBlock))
+      .filter(({ args }) => args.l1Token.toLowerCase() === l1Token.toLowerCase())
+      .map(({ args, transactionHash, blockNumber }) => ({ amount: args._amount, transactionHash, blockNumber }));
+  }
+
+  protected async queryL2FinalizedTransfers(
+    l1Token: string,
+    _l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const gateway = new Contract((await this.getGateways(l1Token)).l2, l2GatewayAbi, this.l2Provider);
+    const filter = gateway.filters.DepositFinalized(l1Token, this.relayerAddress);
+    return (await this.queryEvents(gateway, filter, fromBlock, toBlock, false)).map(
+      ({ args, transactionHash, blockNumber }) => ({
+        amount: args._amount,
+        transactionHash,
+        blockNumber,
+      })
+    );
+  }
+
+  private async getGateways(l1Token: string) {
+    if (this.gateways[l1Token] === undefined) {
+      const [l1, l2] = await Promise.all([
+        new Contract(l1GatewayRouter, gatewayRouterAbi, this.l1Signer).getGateway(l1Token),
+        new Contract(l2GatewayRouter, gatewayRouterAbi, this.l2Provider).getGateway(l1Token),
+      ]);
+      this.gateways[l1Token] = { l1, l2 };
+    }
+    return this.gateways[l1Token];
+  }
+}
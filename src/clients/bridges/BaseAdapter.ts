@@ -0,0 +1,211 @@
+import {
+  BigNumber,
+  Contract,
+  ERC20,
+  EventFilter,
+  MAX_SAFE_ALLOWANCE,
+  MAX_UINT_VAL,
+  BotSigner,
+  providers,
+} from "../../utils";
+import { winston, toBN, paginatedEventQuery, runTransaction, getNetworkName, etherscanLink } from "../../utils";
+import { NonceManager } from "../NonceManager";
+import { GasPriceClient } from "../GasPriceClient";
+import { BlockFinder } from "@uma/sdk";
+
+// Mainnet WETH. The canonical bridges move ETH rather than WETH, so it can not be sent as an ERC20.
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+export interface CrossChainTransfer {
+  amount: BigNumber;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+// A transfer sent by the adapter whose L1 event has not been seen yet.
+interface SentTransfer {
+  amount: BigNumber;
+  transactionHash: string;
+}
+
+export interface L1ToL2Transaction {
+  contract: Contract;
+  method: string;
+  args: any[];
+  value?: BigNumber; // Native token sent with the transaction, for example to pay for the L2 execution.
+}
+
+// Sends tokens from the hub chain to an L2 over its canonical bridge and tracks transfers that are in flight. A transfer
+// is in flight from when it is sent until a matching finalization event is seen on the L2. The canonical bridges do not
+// share an identifier between the two chains, so each finalization is matched to the oldest unmatched transfer of the
+// same amount that was initiated before it, which is the order the bridges finalize transfers in. Events are searched
+// for over the same period of lookback seconds on both chains so that transfers sent before a restart are still
+// tracked. L1 is searched for one more period before that, so that a transfer initiated before the period but
+// finalized within it is matched to its finalization instead of a more recent transfer of the same amount.
+export abstract class BaseAdapter {
+  // Transfers sent by this adapter that are not yet visible in the L1 bridge events, keyed by L1 token.
+  private sentTransfers: { [l1Token: string]: SentTransfer[] } = {};
+  // Transfers initiated on L1 that have not yet been finalized on the L2, keyed by L1 token.
+  private outstandingTransfers: { [l1Token: string]: CrossChainTransfer[] } = {};
+  private blockFinders: { l1?: BlockFinder; l2?: BlockFinder } = {};
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly chainId: number,
+    readonly l1Signer: BotSigner,
+    readonly l2Provider: providers.Provider,
+    readonly nonceManager: NonceManager | undefined,
+    readonly gasPriceClient: GasPriceClient | undefined,
+    readonly lookback: number, // Seconds to search back on both chains for transfers.
+    readonly maxBlockLookBack: { l1: number; l2: number } = { l1: 0, l2: 0 }
+  ) {}
+
+  get relayerAddress(): string {
+    return this.l1Signer.address;
+  }
+
+  isSupportedToken(l1Token: string): boolean {
+    return l1Token.toLowerCase() !== WETH.toLowerCase();
+  }
+
+  // Contract that needs an allowance of the L1 token to bridge it.
+  abstract getL1ApprovalTarget(l1Token: string): Promise<string>;
+
+  abstract buildL1ToL2Transaction(l1Token: string, l2Token: string, amount: BigNumber): Promise<L1ToL2Transaction>;
+
+  protected abstract queryL1InitiatedTransfers(
+    l1Token: string,
+    l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]>;
+
+  protected abstract queryL2FinalizedTransfers(
+    l1Token: string,
+    l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]>;
+
+  // Total amount of the L1 token that is on its way to the L2.
+  getOutstandingTransferAmount(l1Token: string): BigNumber {
+    return [...(this.outstandingTransfers[l1Token] ?? []), ...(this.sentTransfers[l1Token] ?? [])].reduce(
+      (total, { amount }) => total.add(amount),
+      toBN(0)
+    );
+  }
+
+  getOutstandingTransfers(l1Token: string): SentTransfer[] {
+    return [...(this.outstandingTransfers[l1Token] ?? []), ...(this.sentTransfers[l1Token] ?? [])];
+  }
+
+  // Bridge the amount of the L1 token to the relayer's address on the L2. Returns the L1 transaction hash.
+  async sendTokenToL2(l1Token: string, l2Token: string, amount: BigNumber): Promise<string> {
+    await this.checkTokenApproval(l1Token);
+    const { contract, method, args, value } = await this.buildL1ToL2Transaction(l1Token, l2Token, amount);
+    const tx = await runTransaction(
+      this.logger,
+      contract,
+      method,
+      args,
+      value,
+      this.nonceManager,
+      undefined,
+      this.gasPriceClient
+    );
+    this.sentTransfers[l1Token] = [...(this.sentTransfers[l1Token] ?? []), { amount, transactionHash: tx.hash }];
+    return tx.hash;
+  }
+
+  // Refresh the transfers that are in flight for each of the tokens from the bridge events on both chains.
+  async update(tokens: { l1Token: string; l2Token: string }[]) {
+    const l1Provider = this.l1Signer.provider;
+    this.blockFinders.l1 = this.blockFinders.l1 ?? new BlockFinder(l1Provider.getBlock.bind(l1Provider));
+    this.blockFinders.l2 = this.blockFinders.l2 ?? new BlockFinder(this.l2Provider.getBlock.bind(this.l2Provider));
+    const [l1Block, l2Block] = await Promise.all([l1Provider.getBlock("latest"), this.l2Provider.getBlock("latest")]);
+    const periodStart = Math.min(l1Block.timestamp, l2Block.timestamp) - this.lookback;
+    const [l1FromBlock, l2FromBlock] = await Promise.all([
+      this.blockFinders.l1.getBlockForTimestamp(periodStart - this.lookback),
+      this.blockFinders.l2.getBlockForTimestamp(periodStart),
+    ]);
+    for (const { l1Token, l2Token } of tokens) {
+      const [initiated, finalized] = await Promise.all([
+        this.queryL1InitiatedTransfers(l1Token, l2Token, l1FromBlock.number, l1Block.number).then((transfers) =>
+          this.sortByTimestamp(l1Provider, transfers)
+        ),
+        this.queryL2FinalizedTransfers(l1Token, l2Token, l2FromBlock.number, l2Block.number).then((transfers) =>
+          this.sortByTimestamp(this.l2Provider, transfers)
+        ),
+      ]);
+
+      // Each finalization releases the oldest unmatched transfer of the same amount initiated before it. Transfers
+      // initiated before the period are only searched for to be matched, and are never in flight.
+      const matched = new Set<number>();
+      for (const finalization of finalized) {
+        const index = initiated.findIndex(
+          (transfer, index) =>
+            !matched.has(index) &&
+            transfer.amount.eq(finalization.amount) &&
+            transfer.timestamp <= finalization.timestamp
+        );
+        if (index !== -1) matched.add(index);
+      }
+      this.outstandingTransfers[l1Token] = initiated
+        .filter(({ timestamp }, index) => !matched.has(index) && timestamp >= periodStart)
+        .map(({ amount, transactionHash, blockNumber }) => ({ amount, transactionHash, blockNumber }));
+
+      // Sent transfers are now tracked by their L1 event. Reverted transfers never emit one, so stop tracking them.
+      const sentTransfers = this.sentTransfers[l1Token] ?? [];
+      const receipts = await Promise.all(
+        sentTransfers.map(({ transactionHash }) => this.l1Signer.provider.getTransactionReceipt(transactionHash))
+      );
+      this.sentTransfers[l1Token] = sentTransfers.filter(
+        ({ transactionHash }, index) =>
+          receipts[index]?.status !== 0 && !initiated.some((transfer) => transfer.transactionHash === transactionHash)
+      );
+    }
+    this.logger.debug({
+      at: "BaseAdapter",
+      message: `Updated cross chain transfers to ${getNetworkName(this.chainId)}`,
+      outstandingTransfers: this.outstandingTransfers,
+      sentTransfers: this.sentTransfers,
+    });
+  }
+
+  protected async queryEvents(contract: Contract, filter: EventFilter, fromBlock: number, toBlock: number, l1 = true) {
+    const maxBlockLookBack = l1 ? this.maxBlockLookBack.l1 : this.maxBlockLookBack.l2;
+    return await paginatedEventQuery(contract, filter, { fromBlock, toBlock, maxBlockLookBack }, this.logger);
+  }
+
+  // Add the timestamp of the block each transfer is in and sort the transfers from oldest to newest.
+  private async sortByTimestamp(provider: providers.Provider, transfers: CrossChainTransfer[]) {
+    const timestamps = await Promise.all(
+      transfers.map(async ({ blockNumber }) => (await provider.getBlock(blockNumber)).timestamp)
+    );
+    return transfers
+      .map((transfer, index) => ({ ...transfer, timestamp: timestamps[index] }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private async checkTokenApproval(l1Token: string) {
+    const target = await this.getL1ApprovalTarget(l1Token);
+    const token = new Contract(l1Token, ERC20.abi, this.l1Signer);
+    if ((await token.allowance(this.relayerAddress, target)).gte(MAX_SAFE_ALLOWANCE)) return;
+    const tx = await runTransaction(
+      this.logger,
+      token,
+      "approve",
+      [target, MAX_UINT_VAL],
+      toBN(0),
+      this.nonceManager,
+      undefined,
+      this.gasPriceClient
+    );
+    this.logger.info({
+      at: "BaseAdapter",
+      message: `Approved ${getNetworkName(this.chainId)} bridge to spend ${l1Token} 💰`,
+      mrkdwn: `tx: ${etherscanLink(tx.hash, 1)}`,
+    });
+    await tx.wait();
+  }
+}
@@ -0,0 +1,92 @@
+import { BigNumber, Contract } from "../../utils";
+import { BaseAdapter, CrossChainTransfer, L1ToL2Transaction } from "./BaseAdapter";
+
+const l1StandardBridgeAbi = [
+  "function depositERC20To(address _l1Token, address _l2Token, address _to, uint256 _amount, uint32 _l2Gas, bytes _data)",
+  "event ERC20DepositInitiated(address indexed _l1Token, address indexed _l2Token, address indexed _from, address _to, uint256 _amount, bytes _data)",
+];
+const l2StandardBridgeAbi = [
+  "event DepositFinalized(address indexed _l1Token, address indexed _l2Token, address indexed _from, address _to, uint256 _amount, bytes _data)",
+];
+
+// Gas limit for the deposit's execution on the L2. The bridge pays for this on L1 up to a free allowance.
+const l2Gas = 200000;
+
+// Canonical bridge addresses of the OVM based chains. Some tokens, such as DAI on Optimism, use their own bridge.
+const bridges = {
+  10: {
+    l1StandardBridge: "0x99C9fc46f92E8a1c0deC1b1747d010903E884bE1",
+    l2StandardBridge: "0x4200000000000000000000000000000000000010",
+    customBridges: {
+      // DAI
+      "0x6B175474E89094C44Da98b954EedeAC495271d0F": {
+        l1Bridge: "0x10E6593CDda8c58a1d0f14C5164B376352a55f2F",
+        l2Bridge: "0x467194771dAe2967Aef3ECbEDD3Bf9a310C76C65",
+      },
+    },
+  },
+  288: {
+    l1StandardBridge: "0xdc1664458d2f0B6090bEa60A8793A4E66c2F1c00",
+    l2StandardBridge: "0x4200000000000000000000000000000000000010",
+    customBridges: {},
+  },
+};
+
+// Bridges tokens to Optimism and Boba. Both run the OVM standard bridge.
+export class OptimismAdapter extends BaseAdapter {
+  async getL1ApprovalTarget(l1Token: string): Promise<string> {
+    return this.getL1Bridge(l1Token).address;
+  }
+
+  async buildL1ToL2Transaction(l1Token: string, l2Token: string, amount: BigNumber): Promise<L1ToL2Transaction> {
+    return {
+      contract: this.getL1Bridge(l1Token),
+      method: "depositERC20To",
+      args: [l1Token, l2Token, this.relayerAddress, amount, l2Gas, "0x"],
+    };
+  }
+
+  protected async queryL1InitiatedTransfers(
+    l1Token: string,
+    l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const bridge = this.getL1Bridge(l1Token);
+    const filter = bridge.filters.ERC20DepositInitiated(l1Token, l2Token, this.relayerAddress);
+    return (await this.queryEvents(bridge, filter, fromBlock, toBlock)).map(
+      ({ args, transactionHash, blockNumber }) => ({
+        amount: args._amount,
+        transactionHash,
+        blockNumber,
+      })
+    );
+  }
+
+  protected async queryL2FinalizedTransfers(
+    l1Token: string,
+    l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const l2Bridge = this.bridgeAddresses.customBridges[l1Token]?.l2Bridge ?? this.bridgeAddresses.l2StandardBridge;
+    const bridge = new Contract(l2Bridge, l2StandardBridgeAbi, this.l2Provider);
+    const filter = bridge.filters.DepositFinalized(l1Token, l2Token, this.relayerAddress);
+    return (await this.queryEvents(bridge, filter, fromBlock, toBlock, false)).map(
+      ({ args, transactionHash, blockNumber }) => ({
+        amount: args._amount,
+        transactionHash,
+        blockNumber,
+      })
+    );
+  }
+
+  private get bridgeAddresses() {
+    return bridges[this.chainId];
+  }
+
+  private getL1Bridge(l1Token: string): Contract {
+    const l1Bridge = this.bridgeAddresses.customBridges[l1Token]?.l1Bridge ?? this.bridgeAddresses.l1StandardBridge;
+    return new Contract(l1Bridge, l1StandardBridgeAbi, this.l1Signer);
+  }
+}
@@ -0,0 +1,61 @@
+import { BigNumber, Contract, ethers, ZERO_ADDRESS } from "../../utils";
+import { BaseAdapter, CrossChainTransfer, L1ToL2Transaction } from "./BaseAdapter";
+
+const rootChainManagerAbi = ["function depositFor(address user, address rootToken, bytes depositData)"];
+const erc20PredicateAbi = [
+  "event LockedERC20(address indexed depositor, address indexed depositReceiver, address indexed rootToken, uint256 amount)",
+];
+const childTokenAbi = ["event Transfer(address indexed from, address indexed to, uint256 value)"];
+
+const rootChainManager = "0xA0c68C638235ee32657e8f720a23ceC1bFc77C77";
+const erc20Predicate = "0x40ec5B33f54e0E8A33A975908C5BA1c14e5BbbDf";
+
+// Bridges PoS tokens to Polygon. Tokens are locked in the ERC20 predicate on L1 and minted to the relayer on Polygon,
+// so a finalized transfer is a mint of the child token to the relayer.
+export class PolygonAdapter extends BaseAdapter {
+  async getL1ApprovalTarget(): Promise<string> {
+    return erc20Predicate;
+  }
+
+  async buildL1ToL2Transaction(l1Token: string, _l2Token: string, amount: BigNumber): Promise<L1ToL2Transaction> {
+    return {
+      contract: new Contract(rootChainManager, rootChainManagerAbi, this.l1Signer),
+      method: "depositFor",
+      args: [this.relayerAddress, l1Token, ethers.utils.defaultAbiCoder.encode(["uint256"], [amount])],
+    };
+  }
+
+  protected async queryL1InitiatedTransfers(
+    l1Token: string,
+    _l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const predicate = new Contract(erc20Predicate, erc20PredicateAbi, this.l1Signer);
+    const filter = predicate.filters.LockedERC20(this.relayerAddress, this.relayerAddress, l1Token);
+    return (await this.queryEvents(predicate, filter, fromBlock, toBlock)).map(
+      ({ args, transactionHash, blockNumber }) => ({
+        amount: args.amount,
+        transactionHash,
+        blockNumber,
+      })
+    );
+  }
+
+  protected async queryL2FinalizedTransfers(
+    _l1Token: string,
+    l2Token: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<CrossChainTransfer[]> {
+    const childToken = new Contract(l2Token, childTokenAbi, this.l2Provider);
+    const filter = childToken.filters.Transfer(ZERO_ADDRESS, this.relayerAddress);
+    return (await this.queryEvents(childToken, filter, fromBlock, toBlock, false)).map(
+      ({ args, transactionHash, blockNumber }) => ({
+        amount: args.value,
+        transactionHash,
+        blockNumber,
+      })
+    );
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./BaseAdapter";
+export * from "./OptimismAdapter";
+export * from "./ArbitrumAdapter";
+export * from "./PolygonAdapter";
@@ -0,0 +1,32 @@
+import { BigNumber, ethers } from "../../utils";
+import { GasFees, GasOracle } from "../../interfaces";
+
+// Estimates the priority fee as the median, over the last blockCount blocks, of the given percentile of the priority
+// fees paid in each block, using eth_feeHistory. The maxFeePerGas allows for the next block's base fee to double.
+export class FeeHistoryGasOracle implements GasOracle {
+  readonly name = "feeHistory";
+
+  constructor(readonly percentile: number = 50, readonly blockCount: number = 20) {}
+
+  async getFees(provider: ethers.providers.Provider): Promise<GasFees> {
+    const { baseFeePerGas, reward } = await this.getJsonRpcProvider(provider).send("eth_feeHistory", [
+      ethers.utils.hexValue(this.blockCount),
+      "latest",
+      [this.percentile],
+    ]);
+    // The last base fee returned is that of the next block.
+    const nextBaseFee = BigNumber.from(baseFeePerGas[baseFeePerGas.length - 1]);
+    const rewards = reward
+      .map((blockReward: string[]) => BigNumber.from(blockReward[0]))
+      .sort((a: BigNumber, b: BigNumber) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+    const maxPriorityFeePerGas = rewards[Math.floor(rewards.length / 2)];
+    return { maxFeePerGas: nextBaseFee.mul(2).add(maxPriorityFeePerGas), maxPriorityFeePerGas };
+  }
+
+  // A FallbackProvider can not send raw RPC requests, so the request goes to the first of its providers.
+  private getJsonRpcProvider(provider: ethers.providers.Provider): ethers.providers.JsonRpcProvider {
+    if (provider instanceof ethers.providers.FallbackProvider)
+      return provider.providerConfigs[0].provider as ethers.providers.JsonRpcProvider;
+    return provider as ethers.providers.JsonRpcProvider;
+  }
+}
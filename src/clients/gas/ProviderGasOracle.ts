@@ -0,0 +1,13 @@
+import { ethers } from "../../utils";
+import { GasFees, GasOracle } from "../../interfaces";
+
+// Uses the fee data that the provider's node suggests. On EIP-1559 chains ethers derives maxFeePerGas as twice the
+// latest base fee plus a fixed priority fee, which is not a good estimate on chains such as Polygon.
+export class ProviderGasOracle implements GasOracle {
+  readonly name = "provider";
+
+  async getFees(provider: ethers.providers.Provider): Promise<GasFees> {
+    const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = await provider.getFeeData();
+    return maxFeePerGas && maxPriorityFeePerGas ? { maxFeePerGas, maxPriorityFeePerGas } : { gasPrice };
+  }
+}
@@ -0,0 +1,18 @@
+import { ethers, utils } from "../../utils";
+import { GasFees, GasOracle, StaticGasFees } from "../../interfaces";
+
+// Always returns the configured fees. Used in tests and to pin fees on a chain whose fee estimates are unreliable.
+export class StaticGasOracle implements GasOracle {
+  readonly name = "static";
+  private readonly fees: GasFees;
+
+  constructor(fees: StaticGasFees) {
+    this.fees = Object.fromEntries(
+      Object.entries(fees).map(([field, fee]) => [field, utils.parseUnits(String(fee), 9)])
+    );
+  }
+
+  async getFees(_provider: ethers.providers.Provider): Promise<GasFees> {
+    return { ...this.fees };
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./ProviderGasOracle";
+export * from "./FeeHistoryGasOracle";
+export * from "./StaticGasOracle";
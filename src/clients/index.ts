@@ -4,3 +4,16 @@ export * from "./ConfigStoreClient";
 export * from "./MultiCallerClient";
 export * from "./ProfitClient";
 export * from "./TokenClient";
+export * from "./InventoryClient";
+export * from "./AlertClient";
+export * from "./PendingFillClient";
+export * from "./ExposureClient";
+export * from "./LedgerClient";
+export * from "./NonceManager";
+export * from "./GasPriceClient";
+export * from "./EventCache";
+export * from "./ReorgTracker";
+export * from "./prices";
+export * from "./bridges";
+export * from "./gas";
+export * from "./stores";
@@ -0,0 +1,46 @@
+import { winston, Contract, ethers, toBN } from "../../utils";
+import { PriceSource, TokenPrice } from "../../interfaces";
+
+const aggregatorAbi = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+// Reads USD prices from Chainlink aggregator contracts. Each priced token must be mapped to the address of its
+// <TOKEN>/USD feed on the chain of the provider.
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = "chainlink";
+
+  constructor(
+    readonly logger: winston.Logger,
+    readonly provider: ethers.providers.Provider,
+    readonly feeds: { [address: string]: string }
+  ) {
+    // Token addresses are matched case-insensitively.
+    this.feeds = Object.fromEntries(Object.entries(feeds).map(([token, feed]) => [token.toLowerCase(), feed]));
+  }
+
+  async getPricesByAddress(addresses: string[]): Promise<{ [address: string]: TokenPrice }> {
+    const pricedAddresses = addresses.filter((address) => this.feeds[address.toLowerCase()] !== undefined);
+    const responses = await Promise.allSettled(pricedAddresses.map((address) => this.getFeedPrice(address)));
+    const prices: { [address: string]: TokenPrice } = {};
+    for (const [index, response] of responses.entries()) {
+      if (response.status === "fulfilled") prices[pricedAddresses[index]] = response.value;
+      else
+        this.logger.debug({
+          at: "ChainlinkPriceSource",
+          message: `Could not read price feed for ${pricedAddresses[index]}`,
+          error: response.reason,
+        });
+    }
+    return prices;
+  }
+
+  private async getFeedPrice(address: string): Promise<TokenPrice> {
+    const feed = new Contract(this.feeds[address.toLowerCase()], aggregatorAbi, this.provider);
+    const [decimals, { answer, updatedAt }] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    // Feed answers use the feed's own decimals. Scale them to the 18 decimals used for all prices in the bot.
+    const price = toBN(answer).mul(toBN(10).pow(18)).div(toBN(10).pow(decimals));
+    return { price, timestamp: toBN(updatedAt).toNumber(), source: this.name };
+  }
+}
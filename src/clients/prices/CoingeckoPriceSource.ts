@@ -0,0 +1,28 @@
+import { winston, toBNWei } from "../../utils";
+import { PriceSource, TokenPrice } from "../../interfaces";
+import { Coingecko } from "@uma/sdk";
+
+export class CoingeckoPriceSource implements PriceSource {
+  readonly name = "coingecko";
+  private readonly coingecko;
+
+  constructor(readonly logger: winston.Logger) {
+    this.coingecko = new Coingecko();
+  }
+
+  async getPricesByAddress(addresses: string[]): Promise<{ [address: string]: TokenPrice }> {
+    const responses = await Promise.allSettled(
+      addresses.map((address) => this.coingecko.getCurrentPriceByContract(address, "usd"))
+    );
+    const prices: { [address: string]: TokenPrice } = {};
+    for (const [index, response] of responses.entries()) {
+      if (response.status === "rejected") {
+        this.logger.debug({ at: "CoingeckoPriceSource", message: `Could not fetch price for ${addresses[index]}` });
+        continue;
+      }
+      const [timestamp, price] = response.value;
+      prices[addresses[index]] = { price: toBNWei(price.toString()), timestamp: Number(timestamp), source: this.name };
+    }
+    return prices;
+  }
+}
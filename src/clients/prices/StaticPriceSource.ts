@@ -0,0 +1,53 @@
+import { BigNumber, getCurrentTime, toBNWei } from "../../utils";
+import { PriceSource, TokenPrice } from "../../interfaces";
+import fs from "fs";
+
+// Entries of a static price table. Either a bare USD price or a price with the time it was last known to be correct.
+export type StaticPriceTable = { [address: string]: number | string | { price: number | string; timestamp?: number } };
+
+// Serves prices from a fixed table. Used in tests, to run the bot fully offline and as an emergency override if all
+// external sources are unavailable. Addresses are matched case-insensitively. Entries of a table passed in code without
+// a timestamp are treated as current each time they are read. Entries of a price file without a timestamp are as old
+// as the file, so the ProfitClient's stale price check pauses relays if the operator stops updating it.
+export class StaticPriceSource implements PriceSource {
+  private prices: { [address: string]: { price: BigNumber; timestamp?: number } } = {};
+  private fileModifiedAt: number | undefined;
+
+  constructor(priceTable: StaticPriceTable, readonly name = "static", timestamp?: number, readonly path?: string) {
+    this.setPrices(priceTable, timestamp);
+  }
+
+  // Load a JSON price table from disk. The file is read again whenever it is modified.
+  static fromFile(path: string): StaticPriceSource {
+    const priceSource = new StaticPriceSource({}, `file:${path}`, undefined, path);
+    priceSource.loadFile();
+    return priceSource;
+  }
+
+  async getPricesByAddress(addresses: string[]): Promise<{ [address: string]: TokenPrice }> {
+    if (this.path !== undefined) this.loadFile();
+    return Object.fromEntries(
+      addresses
+        .filter((address) => this.prices[address.toLowerCase()] !== undefined)
+        .map((address) => {
+          const { price, timestamp } = this.prices[address.toLowerCase()];
+          return [address, { price, timestamp: timestamp ?? getCurrentTime(), source: this.name }];
+        })
+    );
+  }
+
+  private loadFile() {
+    const { mtimeMs } = fs.statSync(this.path);
+    if (mtimeMs === this.fileModifiedAt) return;
+    this.setPrices(JSON.parse(fs.readFileSync(this.path, "utf8")), Math.floor(mtimeMs / 1000));
+    this.fileModifiedAt = mtimeMs;
+  }
+
+  private setPrices(priceTable: StaticPriceTable, timestamp: number | undefined) {
+    this.prices = {};
+    for (const [address, entry] of Object.entries(priceTable)) {
+      const { price, timestamp: entryTimestamp } = typeof entry === "object" ? entry : { price: entry, timestamp: 0 };
+      this.prices[address.toLowerCase()] = { price: toBNWei(price.toString()), timestamp: entryTimestamp || timestamp };
+    }
+  }
+}
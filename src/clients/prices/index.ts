@@ -0,0 +1,3 @@
+export * from "./CoingeckoPriceSource";
+export * from "./StaticPriceSource";
+export * from "./ChainlinkPriceSource";
@@ -0,0 +1,41 @@
+import { EventStore } from "../../interfaces";
+import fs from "fs";
+import path from "path";
+
+// Keeps each entry in its own JSON file in a local directory. Files are written to a temporary file first and renamed
+// into place, so that a process stopped mid write does not leave a truncated entry behind.
+export class FileEventStore implements EventStore {
+  readonly name = "file";
+
+  constructor(readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const file = this.getFile(key);
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const file = this.getFile(key);
+    fs.writeFileSync(`${file}.tmp`, value);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.getFile(key);
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+
+  async keys(): Promise<string[]> {
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length).replace(/_/g, ":"));
+  }
+
+  // Keys are made of chain IDs, addresses, event names and block ranges, none of which contain underscores.
+  private getFile(key: string) {
+    return path.join(this.directory, `${key.replace(/:/g, "_")}.json`);
+  }
+}
@@ -0,0 +1,29 @@
+import { EventStore } from "../../interfaces";
+import { createClient } from "redis4";
+
+// Keeps entries in redis under a common prefix, so that they can be listed apart from the other keys in the database.
+export class RedisEventStore implements EventStore {
+  readonly name = "redis";
+
+  constructor(readonly redisClient: ReturnType<typeof createClient>, readonly prefix = "eventCache:") {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.redisClient.get(`${this.prefix}${key}`)) ?? undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.redisClient.set(`${this.prefix}${key}`, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redisClient.del(`${this.prefix}${key}`);
+  }
+
+  // Keys are listed with SCAN rather than KEYS, which blocks the server while it walks the whole database.
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const key of this.redisClient.scanIterator({ MATCH: `${this.prefix}*`, COUNT: 1000 }))
+      keys.push(key.slice(this.prefix.length));
+    return keys;
+  }
+}
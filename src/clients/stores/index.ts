@@ -0,0 +1,2 @@
+export * from "./FileEventStore";
+export * from "./RedisEventStore";
@@ -2,13 +2,20 @@ import winston from "winston";
 import {
   getProvider,
   getSigner,
+  getSignerFromReference,
   getDeployedContract,
   getDeploymentBlockNumber,
-  Wallet,
+  getNetworkName,
+  assign,
+  BotSigner,
   SpokePool,
   Contract,
 } from "../utils";
 import { HubPoolClient, MultiCallerClient, AcrossConfigStoreClient, SpokePoolClient, ProfitClient } from "../clients";
+import { NonceManager, GasPriceClient, ProviderGasOracle, FeeHistoryGasOracle, StaticGasOracle } from "../clients";
+import { CoingeckoPriceSource, ChainlinkPriceSource, StaticPriceSource } from "../clients";
+import { EventCache, FileEventStore, RedisEventStore } from "../clients";
+import { GasOracle, PriceSource, SignerRole } from "../interfaces";
 import { CommonConfig } from "./Config";
 import { DataworkerClients } from "../dataworker/DataworkerClientHelper";
 import { createClient } from "redis4";
@@ -18,10 +25,17 @@ export interface Clients {
   configStoreClient: AcrossConfigStoreClient;
   multiCallerClient: MultiCallerClient;
   profitClient: ProfitClient;
-  hubSigner?: Wallet;
+  hubSigner?: BotSigner;
+  nonceManager?: NonceManager;
+  gasPriceClient?: GasPriceClient;
+  roleSigners?: RoleSigners;
+  eventCache?: EventCache;
 }
 
-export function getSpokePoolSigners(baseSigner: Wallet, config: CommonConfig): { [chainId: number]: Wallet } {
+// Signer for each role on each chain that it sends transactions on, connected to the chain's provider.
+export type RoleSigners = { [role in SignerRole]?: { [chainId: number]: BotSigner } };
+
+export function getSpokePoolSigners(baseSigner: BotSigner, config: CommonConfig): { [chainId: number]: BotSigner } {
   return Object.fromEntries(
     config.spokePoolChains.map((chainId) => {
       return [chainId, baseSigner.connect(getProvider(chainId, config.nodeQuorumThreshold))];
@@ -48,7 +62,9 @@ export async function constructSpokePoolClientsForBlockAndUpdate(
         clients.configStoreClient,
         Number(chainId),
         clients.spokePoolClientSearchSettings[chainId],
-        clients.spokePoolClientSearchSettings[chainId].fromBlock
+        clients.spokePoolClientSearchSettings[chainId].fromBlock,
+        clients.eventCache,
+        clients.finalityMargins?.[chainId]
       );
       return [chainId, client];
     })
@@ -61,11 +77,13 @@ export async function updateSpokePoolClients(spokePoolClients: { [chainId: numbe
   await Promise.all(Object.values(spokePoolClients).map((client: SpokePoolClient) => client.update()));
 }
 
-export async function constructClients(logger: winston.Logger, config: CommonConfig): Promise<Clients> {
-  // Create signers for each chain. Each is connected to an associated provider for that chain.
-  const baseSigner = await getSigner();
-
-  const hubSigner = baseSigner.connect(getProvider(config.hubPoolChainId));
+// The HubPool and config store contracts are connected to hubSigner. If not given, the --wallet key is used.
+export async function constructClients(
+  logger: winston.Logger,
+  config: CommonConfig,
+  hubSigner?: BotSigner
+): Promise<Clients> {
+  if (hubSigner === undefined) hubSigner = (await getSigner()).connect(getProvider(config.hubPoolChainId));
 
   // Create contract instances for each chain for each required contract.
   const hubPool = getDeployedContract("HubPool", config.hubPoolChainId, hubSigner);
@@ -78,7 +96,6 @@ export async function constructClients(logger: winston.Logger, config: CommonCon
     // ProposeRootBundle in order to match a bundle block evaluation block range with a pending root bundle.
     maxBlockLookBack: config.maxBlockLookBack[config.hubPoolChainId],
   };
-  const hubPoolClient = new HubPoolClient(logger, hubPool, hubPoolClientSearchSettings);
 
   const rateModelClientSearchSettings = {
     fromBlock: Number(getDeploymentBlockNumber("AcrossConfigStore", config.hubPoolChainId)),
@@ -99,24 +116,158 @@ export async function constructClients(logger: winston.Logger, config: CommonCon
     });
   }
 
+  const eventCache = config.eventCache ? constructEventCache(logger, config, redisClient) : undefined;
+  const hubFinalityMargin = config.finalityMargins[config.hubPoolChainId];
+  const hubPoolClient = new HubPoolClient(logger, hubPool, hubPoolClientSearchSettings, eventCache, hubFinalityMargin);
   const configStoreClient = new AcrossConfigStoreClient(
     logger,
     configStore,
     hubPoolClient,
     rateModelClientSearchSettings,
-    redisClient
+    redisClient,
+    eventCache,
+    hubFinalityMargin
   );
 
   // const gasEstimator = new GasEstimator() // todo when this is implemented in the SDK.
-  const multiCallerClient = new MultiCallerClient(logger, null, config.maxTxWait);
+  const gasPriceClient = new GasPriceClient(logger, config.gasPricePolicies, constructGasOracles(config));
+  const nonceManager = new NonceManager(
+    logger,
+    config.stuckTransactionTimeout,
+    config.stuckTransactionAction,
+    config.stuckTransactionFeeMultiplier,
+    gasPriceClient
+  );
+  const multiCallerClient = new MultiCallerClient(
+    logger,
+    null,
+    config.maxTxWait,
+    nonceManager,
+    config.multiCallBundleLimits,
+    config.parallelMultiCallBundles,
+    config.simulationReportDir,
+    gasPriceClient
+  );
+
+  const profitClient = new ProfitClient(
+    logger,
+    hubPoolClient,
+    config.relayerDiscount,
+    config.minRelayerProfitUsd,
+    constructPriceSources(logger, config, hubSigner),
+    config.priceValidityBounds
+  );
 
-  const profitClient = new ProfitClient(logger, hubPoolClient, config.relayerDiscount);
+  return {
+    hubPoolClient,
+    configStoreClient,
+    multiCallerClient,
+    profitClient,
+    hubSigner,
+    nonceManager,
+    gasPriceClient,
+    eventCache,
+  };
+}
 
-  return { hubPoolClient, configStoreClient, multiCallerClient, profitClient, hubSigner };
+export function constructEventCache(
+  logger: winston.Logger,
+  config: CommonConfig,
+  redisClient?: ReturnType<typeof createClient>
+): EventCache {
+  const store = redisClient ? new RedisEventStore(redisClient) : new FileEventStore(config.eventCacheDir);
+  return new EventCache(logger, store, config.finalityMargins);
+}
+
+// Chainlink feeds are read from the hub chain, which is expected to be mainnet when that source is enabled.
+export function constructPriceSources(
+  logger: winston.Logger,
+  config: CommonConfig,
+  hubSigner: BotSigner
+): PriceSource[] {
+  return config.priceSources.map((priceSource) => {
+    if (priceSource === "file") return StaticPriceSource.fromFile(config.priceFile);
+    if (priceSource === "chainlink")
+      return new ChainlinkPriceSource(logger, hubSigner.provider, config.chainlinkPriceFeeds);
+    return new CoingeckoPriceSource(logger);
+  });
+}
+
+export function constructGasOracles(config: CommonConfig): { [chainId: number]: GasOracle } {
+  return Object.fromEntries(
+    Object.entries(config.gasOracles).map(([chainId, { oracle, fees, percentile, blockCount }]) => {
+      if (oracle === "static") return [chainId, new StaticGasOracle(fees)];
+      if (oracle === "feeHistory") return [chainId, new FeeHistoryGasOracle(percentile, blockCount)];
+      return [chainId, new ProviderGasOracle()];
+    })
+  );
+}
+
+// Load the key that each role signs with on each of the given chains and connect it to the chain's provider. Keys are
+// loaded once however many roles and chains use them. Roles without a configured key use the --wallet key.
+export async function constructRoleSigners(
+  config: CommonConfig,
+  roleChainIds: { [role in SignerRole]?: number[] }
+): Promise<RoleSigners> {
+  const keys: { [keyName: string]: Promise<BotSigner> } = {};
+  const roleSigners: RoleSigners = {};
+  for (const [role, chainIds] of Object.entries(roleChainIds)) {
+    for (const chainId of chainIds) {
+      const keyName = getRoleKeyName(config, role as SignerRole, chainId);
+      const cacheKey = keyName ?? "--wallet";
+      if (keys[cacheKey] === undefined)
+        keys[cacheKey] = keyName ? getSignerFromReference(config.signerKeys[keyName]) : getSigner();
+      try {
+        const signer = await keys[cacheKey];
+        assign(roleSigners, [role, chainId], signer.connect(getProvider(chainId, config.nodeQuorumThreshold)));
+      } catch (error) {
+        throw new Error(
+          `Could not load the ${cacheKey} key for ${role} on ${getNetworkName(chainId)}: ${error.message}`
+        );
+      }
+    }
+  }
+  return roleSigners;
+}
+
+// Name of the key that the role signs with on the chain, or undefined if the role uses the --wallet key.
+export function getRoleKeyName(config: CommonConfig, role: SignerRole, chainId: number): string | undefined {
+  const roleKeys = config.signerRoles[role];
+  if (typeof roleKeys === "object") return roleKeys[chainId] ?? roleKeys.default;
+  return roleKeys;
+}
+
+// Check that each role's key holds gas on every chain that it signs on, so that an unfunded key fails at startup rather
+// than on the role's first transaction.
+export async function validateRoleSigners(logger: winston.Logger, roleSigners: RoleSigners) {
+  const signers = Object.entries(roleSigners).flatMap(([role, signersByChain]) =>
+    Object.entries(signersByChain).map(([chainId, signer]) => ({ role, chainId: Number(chainId), signer }))
+  );
+  const balances = await Promise.all(signers.map(({ signer }) => signer.getBalance()));
+  const unfunded = signers.filter((_, index) => balances[index].eq(0));
+  if (unfunded.length > 0)
+    throw new Error(
+      "Signers hold no gas: " +
+        unfunded
+          .map(({ role, chainId, signer }) => `${role} ${signer.address} on ${getNetworkName(chainId)}`)
+          .join(", ")
+    );
+  logger.debug({
+    at: "ClientHelper",
+    message: "Validated role signers",
+    signers: signers.map(({ role, chainId, signer }, index) => ({
+      role,
+      chainId,
+      address: signer.address,
+      balance: balances[index],
+    })),
+  });
 }
 
 export async function updateClients(clients: Clients) {
   await clients.hubPoolClient.update();
   await clients.configStoreClient.update();
   await clients.profitClient.update();
+  // Replace or cancel transactions sent in previous runs that are stuck, before sending any new ones.
+  await clients.nonceManager?.update();
 }
@@ -1,4 +1,5 @@
-import { assert, BigNumber, toBNWei } from "../utils";
+import { assert, BigNumber, toBNWei, utils } from "../utils";
+import { GasPricePolicy, SignerReference, SignerRoleKeys, StaticGasFees } from "../interfaces";
 import * as Constants from "./Constants";
 
 export interface ProcessEnv {
@@ -13,7 +14,27 @@ export class CommonConfig {
   readonly nodeQuorumThreshold: number;
   readonly maxTxWait: number;
   readonly relayerDiscount: BigNumber;
+  readonly minRelayerProfitUsd: { [chainId: number]: BigNumber };
+  readonly priceSources: string[];
+  readonly priceFile: string | undefined;
+  readonly chainlinkPriceFeeds: { [l1Token: string]: string };
+  readonly priceValidityBounds: { maxAge?: number; maxDeviationPct?: BigNumber };
   readonly redisUrl: string | undefined;
+  readonly stuckTransactionTimeout: number;
+  readonly stuckTransactionAction: "replace" | "cancel";
+  readonly stuckTransactionFeeMultiplier: number;
+  readonly multiCallBundleLimits: { [chainId: number]: { maxGas?: number; maxCalls?: number } };
+  readonly parallelMultiCallBundles: boolean;
+  readonly simulationReportDir: string | undefined;
+  readonly gasPricePolicies: { [chainId: number]: Partial<GasPricePolicy> };
+  readonly gasOracles: {
+    [chainId: number]: { oracle: string; fees?: StaticGasFees; percentile?: number; blockCount?: number };
+  };
+  readonly signerKeys: { [keyName: string]: SignerReference };
+  readonly signerRoles: { [role: string]: SignerRoleKeys };
+  readonly eventCache: boolean;
+  readonly eventCacheDir: string;
+  readonly finalityMargins: { [chainId: number]: number };
 
   constructor(env: ProcessEnv) {
     const {
@@ -24,7 +45,26 @@ export class CommonConfig {
       NODE_QUORUM_THRESHOLD,
       MAX_TX_WAIT_DURATION,
       RELAYER_DISCOUNT,
+      MIN_RELAYER_PROFIT_USD,
+      PRICE_SOURCES,
+      PRICE_FILE,
+      CHAINLINK_PRICE_FEEDS,
+      PRICE_MAX_AGE,
+      PRICE_MAX_DEVIATION_PCT,
       REDIS_URL,
+      STUCK_TX_TIMEOUT,
+      STUCK_TX_ACTION,
+      STUCK_TX_FEE_MULTIPLIER,
+      MAX_FEE_PER_GAS_GWEI,
+      MULTICALL_BUNDLE_LIMITS,
+      MULTICALL_PARALLEL_BUNDLES,
+      SIMULATION_REPORT_DIR,
+      GAS_PRICE_POLICY,
+      SIGNER_KEYS,
+      SIGNER_ROLES,
+      EVENT_CACHE,
+      EVENT_CACHE_DIR,
+      FINALITY_MARGINS,
     } = env;
     this.hubPoolChainId = HUB_CHAIN_ID ? Number(HUB_CHAIN_ID) : 1;
     this.spokePoolChains = CONFIGURED_NETWORKS ? JSON.parse(CONFIGURED_NETWORKS) : Constants.CHAIN_ID_LIST_INDICES;
@@ -37,6 +77,96 @@ export class CommonConfig {
     this.nodeQuorumThreshold = NODE_QUORUM_THRESHOLD ? Number(NODE_QUORUM_THRESHOLD) : 1;
     this.maxTxWait = MAX_TX_WAIT_DURATION ? Number(MAX_TX_WAIT_DURATION) : 180; // 3 minutes
     this.relayerDiscount = RELAYER_DISCOUNT ? toBNWei(RELAYER_DISCOUNT) : toBNWei(0);
+    // Per-chain override of the minimum net profit, in USD, that a fill must yield after gas. e.g. {"1":"5","10":"0.5"}
+    this.minRelayerProfitUsd = Object.fromEntries(
+      Object.entries(MIN_RELAYER_PROFIT_USD ? JSON.parse(MIN_RELAYER_PROFIT_USD) : {}).map(([chainId, minProfit]) => [
+        chainId,
+        toBNWei(String(minProfit)),
+      ])
+    );
+    // Price sources in priority order. Set to ["file"] along with a PRICE_FILE to run without any network price source.
+    this.priceSources = PRICE_SOURCES ? JSON.parse(PRICE_SOURCES) : ["coingecko"];
+    for (const priceSource of this.priceSources)
+      assert(Constants.PRICE_SOURCES.includes(priceSource), `Unknown price source ${priceSource}`);
+    this.priceFile = PRICE_FILE;
+    assert(!this.priceSources.includes("file") || this.priceFile !== undefined, "PRICE_FILE required for file source");
+    this.chainlinkPriceFeeds = CHAINLINK_PRICE_FEEDS ? JSON.parse(CHAINLINK_PRICE_FEEDS) : {};
+    // Relays of a token are paused while its price is older than PRICE_MAX_AGE seconds or moved by more than
+    // PRICE_MAX_DEVIATION_PCT from its last valid price. Unset bounds use the ProfitClient's defaults.
+    this.priceValidityBounds = {};
+    if (PRICE_MAX_AGE) this.priceValidityBounds.maxAge = Number(PRICE_MAX_AGE);
+    if (PRICE_MAX_DEVIATION_PCT) this.priceValidityBounds.maxDeviationPct = toBNWei(PRICE_MAX_DEVIATION_PCT);
     this.redisUrl = REDIS_URL;
+    // Transactions not mined within STUCK_TX_TIMEOUT seconds are either replaced with the same call or cancelled, with
+    // their fees multiplied by STUCK_TX_FEE_MULTIPLIER up to the maxFeePerGas ceiling of the chain's gas price policy.
+    this.stuckTransactionTimeout = STUCK_TX_TIMEOUT ? Number(STUCK_TX_TIMEOUT) : 600;
+    this.stuckTransactionAction = STUCK_TX_ACTION === "cancel" ? "cancel" : "replace";
+    this.stuckTransactionFeeMultiplier = STUCK_TX_FEE_MULTIPLIER ? Number(STUCK_TX_FEE_MULTIPLIER) : 1.25;
+    assert(this.stuckTransactionFeeMultiplier >= 1.1, "STUCK_TX_FEE_MULTIPLIER must be at least 1.1");
+    // Default maxFeePerGas ceiling per chain, in gwei. Chains without a configured ceiling are priced uncapped. e.g.
+    // MAX_FEE_PER_GAS_GWEI={"1":"300"}
+    const defaultMaxFeePerGas = Object.fromEntries(
+      Object.entries(MAX_FEE_PER_GAS_GWEI ? JSON.parse(MAX_FEE_PER_GAS_GWEI) : {}).map(([chainId, maxFee]) => [
+        chainId,
+        utils.parseUnits(String(maxFee), 9),
+      ])
+    );
+    // Queued calls on a chain are split into multicall bundles of at most maxGas estimated gas and maxCalls calls, to
+    // stay under block gas limits and L2 transaction caps. e.g. MULTICALL_BUNDLE_LIMITS={"1":{"maxGas":10000000}}
+    this.multiCallBundleLimits = MULTICALL_BUNDLE_LIMITS ? JSON.parse(MULTICALL_BUNDLE_LIMITS) : {};
+    this.parallelMultiCallBundles = MULTICALL_PARALLEL_BUNDLES === "true";
+    // Directory that runs with sending disabled write a JSON report of the calls that they would have sent to.
+    this.simulationReportDir = SIMULATION_REPORT_DIR;
+    // Per-chain gas price policy and oracle. The maxFeePerGas ceiling, in gwei, defaults to MAX_FEE_PER_GAS_GWEI. The
+    // feeHistory oracle takes the percentile of priority fees and the number of blocks to estimate from. e.g.
+    // GAS_PRICE_POLICY={"1":{"priorityScaler":1.5,"onCeiling":"wait"},"137":{"oracle":"feeHistory","percentile":60}}
+    const gasPricePolicies = GAS_PRICE_POLICY ? JSON.parse(GAS_PRICE_POLICY) : {};
+    this.gasPricePolicies = {};
+    this.gasOracles = {};
+    const policyChainIds = new Set([
+      ...Object.keys(defaultMaxFeePerGas),
+      ...Object.keys(gasPricePolicies),
+      ...Object.keys(Constants.DEFAULT_GAS_ORACLES),
+    ]);
+    for (const chainId of policyChainIds) {
+      const { oracle, fees, percentile, blockCount, maxFeePerGas, ...policy } = gasPricePolicies[chainId] ?? {};
+      if (policy.onCeiling !== undefined)
+        assert(["wait", "skip", "alert"].includes(policy.onCeiling), `Unknown onCeiling ${policy.onCeiling}`);
+      this.gasPricePolicies[chainId] = {
+        ...policy,
+        maxFeePerGas:
+          maxFeePerGas !== undefined ? utils.parseUnits(String(maxFeePerGas), 9) : defaultMaxFeePerGas[chainId],
+      };
+      const oracleName = oracle ?? Constants.DEFAULT_GAS_ORACLES[chainId];
+      if (oracleName === undefined) continue;
+      assert(Constants.GAS_ORACLES.includes(oracleName), `Unknown gas oracle ${oracleName}`);
+      assert(oracleName !== "static" || fees !== undefined, "Static gas oracle requires fees");
+      if (percentile !== undefined)
+        assert(percentile >= 0 && percentile <= 100, `Gas oracle percentile ${percentile} is not within [0, 100]`);
+      if (blockCount !== undefined)
+        assert(Number.isInteger(blockCount) && blockCount > 0, `Gas oracle blockCount ${blockCount} is not positive`);
+      this.gasOracles[chainId] = { oracle: oracleName, fees, percentile, blockCount };
+    }
+    // Named key references and the keys that each role signs with, either on all chains or per chain. Roles without a
+    // key sign with the --wallet key. See SignerReference for the fields of each backend. e.g.
+    // SIGNER_KEYS={"cold":{"wallet":"keystore","keystoreFile":"cold.json"},"hot":{"wallet":"remote","url":"http://..."}}
+    // SIGNER_ROLES={"proposer":"cold","executor":{"default":"hot","10":"cold"}}
+    this.signerKeys = SIGNER_KEYS ? JSON.parse(SIGNER_KEYS) : {};
+    this.signerRoles = SIGNER_ROLES ? JSON.parse(SIGNER_ROLES) : {};
+    for (const [role, roleKeys] of Object.entries(this.signerRoles)) {
+      assert(Constants.SIGNER_ROLES.includes(role), `Unknown signer role ${role}`);
+      for (const keyName of typeof roleKeys === "string" ? [roleKeys] : Object.values(roleKeys))
+        assert(this.signerKeys[keyName] !== undefined, `Signer role ${role} uses undefined key ${keyName}`);
+    }
+    // Cache queried events so that clients only query blocks after the cached history on startup. The cache is kept in
+    // redis if REDIS_URL is set, otherwise in files in EVENT_CACHE_DIR.
+    this.eventCache = EVENT_CACHE === "true";
+    this.eventCacheDir = EVENT_CACHE_DIR ?? "./event-cache";
+    // Per-chain number of blocks, behind the latest block, after which blocks are final. Clients check the blocks after
+    // it for reorgs and only earlier events are cached. e.g. FINALITY_MARGINS={"137":1000}
+    this.finalityMargins = {
+      ...Constants.DEFAULT_FINALITY_MARGINS,
+      ...(FINALITY_MARGINS ? JSON.parse(FINALITY_MARGINS) : {}),
+    };
   }
 }
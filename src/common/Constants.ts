@@ -16,3 +16,41 @@ export const BUNDLE_END_BLOCK_BUFFERS = {
   288: 10, // At 30s/block, 10 blocks = 5 mins
   42161: 1500, // At a conservative 5 TPS, 300 seconds = 3000 transactions. And 1 block per txn.
 };
+
+// Price sources that the ProfitClient can be configured with via PRICE_SOURCES.
+export const PRICE_SOURCES = ["coingecko", "chainlink", "file"];
+
+// Default number of blocks a deposit must be confirmed by on its origin chain before the relayer fills it. Polygon is
+// prone to deep reorgs. Rollups order transactions through a single sequencer and so do not need to wait.
+export const DEFAULT_MIN_DEPOSIT_CONFIRMATIONS = {
+  1: 2,
+  10: 0,
+  137: 64,
+  288: 0,
+  42161: 0,
+};
+
+// Seconds to search back on each chain for canonical bridge transfers of relayer inventory that are in flight. This
+// covers a day, which is well beyond the time any of the canonical bridges take to deposit.
+export const CROSS_CHAIN_TRANSFER_LOOKBACK = 24 * 60 * 60;
+
+// Default gas oracle per chain. Chains not listed use the provider's fee data. Polygon nodes return a fixed priority fee
+// that is too low to be included, so its fees are estimated from recent blocks instead.
+export const DEFAULT_GAS_ORACLES: { [chainId: number]: string } = {
+  137: "feeHistory",
+};
+
+export const GAS_ORACLES = ["provider", "feeHistory", "static"];
+
+export const SIGNER_ROLES = ["proposer", "disputer", "executor", "relayer", "finalizer"];
+
+// Default number of blocks behind each chain's latest block after which blocks are treated as final. Clients check the
+// blocks after it for reorgs, and the EventCache only caches events before it. These are well beyond the deepest reorgs
+// seen on each chain.
+export const DEFAULT_FINALITY_MARGINS = {
+  1: 64,
+  10: 1800,
+  137: 512,
+  288: 100,
+  42161: 3600,
+};
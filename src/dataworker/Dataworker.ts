@@ -1,4 +1,4 @@
-import { winston, EMPTY_MERKLE_ROOT, sortEventsDescending, BigNumber, getRefund } from "../utils";
+import { winston, EMPTY_MERKLE_ROOT, sortEventsDescending, BigNumber, getRefund, Contract } from "../utils";
 import {
   UnfilledDeposit,
   Deposit,
@@ -7,12 +7,15 @@ import {
   UnfilledDepositsForOriginChain,
   TreeData,
   RunningBalances,
+  Fill,
   FillWithBlock,
   PoolRebalanceLeaf,
   RelayerRefundLeaf,
   BigNumberForToken,
   FillsToRefund,
   RelayData,
+  GasUrgency,
+  SignerRole,
 } from "../interfaces";
 import { DataworkerClients, spokePoolClientsToProviders } from "./DataworkerClientHelper";
 import { SpokePoolClient } from "../clients";
@@ -61,7 +64,8 @@ export class Dataworker {
     readonly maxL1TokenCountOverride: number = undefined,
     readonly tokenTransferThreshold: BigNumberForToken = {},
     readonly blockRangeEndBlockBuffer: { [chainId: number]: number } = {},
-    readonly spokeRootsLookbackCount = 0
+    readonly spokeRootsLookbackCount = 0,
+    readonly executionGasUrgency: GasUrgency = "normal"
   ) {
     if (
       maxRefundCountOverride !== undefined ||
@@ -785,9 +789,6 @@ export class Dataworker {
           message: `Evaluating ${rootBundleRelays.length} historical non-empty slow roots relayed to chain ${chainId}`,
         });
 
-        const sortedFills = sortEventsDescending(client.fillsWithBlockNumbers);
-
-        const slowFillsForChain = client.getFills().filter((fill) => fill.isSlowRelay);
         for (const rootBundleRelay of rootBundleRelays) {
           const matchingRootBundle = this.clients.hubPoolClient.getProposedRootBundles().find((bundle) => {
             if (bundle.slowRelayRoot !== rootBundleRelay.slowRelayRoot) return false;
@@ -844,20 +845,17 @@ export class Dataworker {
 
           const leavesForChain = leaves.filter((leaf) => leaf.destinationChainId === Number(chainId));
           const unexecutedLeaves = leavesForChain.filter((leaf) => {
-            const executedLeaf = slowFillsForChain.find(
-              (event) => event.originChainId === leaf.originChainId && event.depositId === leaf.depositId
-            );
+            const fills = client.getFillsForDeposit(leaf.originChainId, leaf.depositId) as Fill[];
 
-            // Only return true if no leaf was found in the list of executed leaves.
-            return !executedLeaf;
+            // Only return true if the deposit has not been slow filled, which is what executing its leaf does.
+            return !fills.some((fill) => fill.isSlowRelay);
           });
           if (unexecutedLeaves.length === 0) continue;
 
           const leavesWithLatestFills = unexecutedLeaves.map((leaf) => {
-            const fill = sortedFills.find((fill) => {
+            const fills = client.getFillsForDeposit(leaf.originChainId, leaf.depositId, true) as FillWithBlock[];
+            const fill = sortEventsDescending(fills).find((fill) => {
               return (
-                fill.depositId === leaf.depositId &&
-                fill.originChainId === leaf.originChainId &&
                 fill.depositor === leaf.depositor &&
                 fill.destinationChainId === leaf.destinationChainId &&
                 fill.destinationToken === leaf.destinationToken &&
@@ -936,6 +934,8 @@ export class Dataworker {
                   tree.getHexProof(leaf),
                 ],
                 message: "Executed SlowRelayLeaf 🌿!",
+                label: `slow relay leaf for deposit ${leaf.depositId} from chain ${leaf.originChainId}`,
+                urgency: this.executionGasUrgency,
                 mrkdwn,
               });
             else this.logger.debug({ at: "Dataworker#executeSlowRelayLeaves", message: mrkdwn });
@@ -1068,7 +1068,7 @@ export class Dataworker {
       }`;
       if (submitExecution)
         this.clients.multiCallerClient.enqueueTransaction({
-          contract: this.clients.hubPoolClient.hubPool,
+          contract: this.getHubPoolForRole("executor", hubPoolChainId),
           chainId: hubPoolChainId,
           method: "executeRootBundle",
           args: [
@@ -1082,6 +1082,8 @@ export class Dataworker {
             proof,
           ],
           message: "Executed PoolRebalanceLeaf 🌿!",
+          label: `pool rebalance leaf ${leaf.leafId} for chain ${leaf.chainId}`,
+          urgency: this.executionGasUrgency,
           mrkdwn,
         });
       else this.logger.debug({ at: "Dataworker#executePoolRebalanceLeaves", message: mrkdwn });
@@ -1258,6 +1260,8 @@ export class Dataworker {
                 method: "executeRelayerRefundLeaf",
                 args: [rootBundleRelay.rootBundleId, leaf, tree.getHexProof(leaf)],
                 message: "Executed RelayerRefundLeaf 🌿!",
+                label: `relayer refund leaf ${leaf.leafId} of root bundle ${rootBundleRelay.rootBundleId} on chain ${chainId}`,
+                urgency: this.executionGasUrgency,
                 mrkdwn,
               });
             else this.logger.debug({ at: "Dataworker#executeRelayerRefundLeaves", message: mrkdwn });
@@ -1280,7 +1284,7 @@ export class Dataworker {
     try {
       const bundleEndBlocks = bundleBlockRange.map((block) => block[1]);
       this.clients.multiCallerClient.enqueueTransaction({
-        contract: this.clients.hubPoolClient.hubPool, // target contract
+        contract: this.getHubPoolForRole("proposer", hubPoolChainId), // target contract
         chainId: hubPoolChainId,
         method: "proposeRootBundle", // method called.
         args: [bundleEndBlocks, poolRebalanceLeaves.length, poolRebalanceRoot, relayerRefundRoot, slowRelayRoot], // props sent with function call.
@@ -1311,7 +1315,7 @@ export class Dataworker {
   _submitDisputeWithMrkdwn(hubPoolChainId: number, mrkdwn: string) {
     try {
       this.clients.multiCallerClient.enqueueTransaction({
-        contract: this.clients.hubPoolClient.hubPool, // target contract
+        contract: this.getHubPoolForRole("disputer", hubPoolChainId), // target contract
         chainId: hubPoolChainId,
         method: "disputeRootBundle", // method called.
         args: [], // props sent with function call.
@@ -1327,4 +1331,11 @@ export class Dataworker {
       });
     }
   }
+
+  // HubPool contract connected to the role's signer, if the role signs with its own key.
+  getHubPoolForRole(role: SignerRole, hubPoolChainId: number): Contract {
+    const signer = this.clients.roleSigners?.[role]?.[hubPoolChainId];
+    const { hubPool } = this.clients.hubPoolClient;
+    return signer ? hubPool.connect(signer) : hubPool;
+  }
 }
@@ -6,28 +6,55 @@ import {
   constructSpokePoolClientsForBlockAndUpdate,
   getSpokePoolSigners,
   updateClients,
+  constructRoleSigners,
+  validateRoleSigners,
 } from "../common";
-import { EventSearchConfig, getDeploymentBlockNumber, getSigner, Wallet, ethers } from "../utils";
+import { EventSearchConfig, getDeploymentBlockNumber, BotSigner, ethers } from "../utils";
+import { SignerRole } from "../interfaces";
 import { SpokePoolClient, TokenClient } from "../clients";
 import { getWidestPossibleExpectedBlockRange } from "./PoolRebalanceUtils";
 import { getBlockRangeForChain } from "./DataworkerUtils";
 
 export interface DataworkerClients extends Clients {
   tokenClient: TokenClient;
-  spokePoolSigners: { [chainId: number]: Wallet };
+  spokePoolSigners: { [chainId: number]: BotSigner };
   spokePoolClientSearchSettings: { [chainId: number]: EventSearchConfig };
+  finalityMargins?: { [chainId: number]: number };
 }
 
 export async function constructDataworkerClients(
   logger: winston.Logger,
   config: DataworkerConfig
 ): Promise<DataworkerClients> {
-  const commonClients = await constructClients(logger, config);
-  const baseSigner = await getSigner();
+  // Only the roles of enabled modes need keys. Executions are sent on the hub chain and on every spoke chain.
+  const hubChainId = config.hubPoolChainId;
+  const roleChainIds: { [role in SignerRole]?: number[] } = {};
+  if (config.proposerEnabled) roleChainIds.proposer = [hubChainId];
+  if (config.disputerEnabled) roleChainIds.disputer = [hubChainId];
+  if (config.executorEnabled) roleChainIds.executor = [...new Set([hubChainId, ...config.spokePoolChains])];
+  if (config.finalizerEnabled) roleChainIds.finalizer = [hubChainId];
+  const roleSigners = await constructRoleSigners(config, roleChainIds);
+  await validateRoleSigners(logger, roleSigners);
+
+  // The HubPool client's contract is connected to the hub chain signer of the first enabled role. Each role connects the
+  // HubPool to its own signer when it sends transactions.
+  const { proposer, disputer, executor, finalizer } = roleSigners;
+  const baseSigner = [proposer, disputer, executor, finalizer].find((signers) => signers !== undefined)?.[hubChainId];
+  const commonClients = await constructClients(logger, config, baseSigner);
+  const hubSigner = commonClients.hubSigner;
 
   // We don't pass any spoke pool clients to token client since data worker doesn't need to set approvals for L2 tokens.
-  const tokenClient = new TokenClient(logger, baseSigner.address, {}, commonClients.hubPoolClient);
-  const spokePoolSigners = getSpokePoolSigners(baseSigner, config);
+  const tokenClient = new TokenClient(
+    logger,
+    hubSigner.address,
+    {},
+    commonClients.hubPoolClient,
+    commonClients.gasPriceClient
+  );
+  // Spoke pools are read from in every mode but only the executor sends transactions to them.
+  const spokePoolSigners = executor
+    ? Object.fromEntries(config.spokePoolChains.map((chainId) => [chainId, executor[chainId]]))
+    : getSpokePoolSigners(hubSigner, config);
   const spokePoolClientSearchSettings = Object.fromEntries(
     config.spokePoolChains.map((chainId) => {
       return [
@@ -41,7 +68,14 @@ export async function constructDataworkerClients(
     })
   );
 
-  return { ...commonClients, tokenClient, spokePoolSigners, spokePoolClientSearchSettings };
+  return {
+    ...commonClients,
+    roleSigners,
+    tokenClient,
+    spokePoolSigners,
+    spokePoolClientSearchSettings,
+    finalityMargins: config.finalityMargins,
+  };
 }
 
 export async function updateDataworkerClients(clients: DataworkerClients) {
@@ -50,8 +84,9 @@ export async function updateDataworkerClients(clients: DataworkerClients) {
   // Token client needs updated hub pool client to pull bond token data.
   await clients.tokenClient.update();
 
-  // Run approval on hub pool.
-  await clients.tokenClient.setBondTokenAllowance();
+  // Run approval on hub pool for each signer that posts bonds.
+  const { proposer, disputer } = clients.roleSigners ?? {};
+  await clients.tokenClient.setBondTokenAllowance([...Object.values(proposer ?? {}), ...Object.values(disputer ?? {})]);
 }
 
 export function spokePoolClientsToProviders(spokePoolClients: { [chainId: number]: SpokePoolClient }): {
@@ -1,5 +1,6 @@
 import { CommonConfig, ProcessEnv, BUNDLE_END_BLOCK_BUFFERS, CHAIN_ID_LIST_INDICES } from "../common";
 import { BigNumber, assert, toBNWei } from "../utils";
+import { GasUrgency } from "../interfaces";
 
 export class DataworkerConfig extends CommonConfig {
   readonly maxPoolRebalanceLeafSizeOverride: number;
@@ -9,6 +10,7 @@ export class DataworkerConfig extends CommonConfig {
   readonly rootBundleExecutionThreshold: BigNumber;
   readonly spokeRootsLookbackCount: number; // Consider making this configurable per chain ID.
   readonly finalizerChains: number[];
+  readonly executionGasUrgency: GasUrgency;
 
   // These variables can be toggled to choose whether the bot will go through the dataworker logic.
   readonly disputerEnabled: boolean;
@@ -40,6 +42,7 @@ export class DataworkerConfig extends CommonConfig {
       SEND_EXECUTIONS,
       FINALIZER_CHAINS,
       FINALIZER_ENABLED,
+      EXECUTION_GAS_URGENCY,
     } = env;
     super(env);
 
@@ -78,5 +81,11 @@ export class DataworkerConfig extends CommonConfig {
     this.sendingExecutionsEnabled = SEND_EXECUTIONS === "true";
     this.finalizerChains = FINALIZER_CHAINS ? JSON.parse(FINALIZER_CHAINS) : CHAIN_ID_LIST_INDICES;
     this.finalizerEnabled = FINALIZER_ENABLED === "true";
+    // Urgency that leaf executions are priced with by each chain's gas price policy. One of low, normal or high.
+    this.executionGasUrgency = (EXECUTION_GAS_URGENCY ?? "normal") as GasUrgency;
+    assert(
+      ["low", "normal", "high"].includes(this.executionGasUrgency),
+      `Unknown EXECUTION_GAS_URGENCY ${EXECUTION_GAS_URGENCY}`
+    );
   }
 }
@@ -26,7 +26,8 @@ export async function createDataworker(_logger: winston.Logger) {
     config.maxPoolRebalanceLeafSizeOverride,
     config.tokenTransferThresholdOverride,
     config.blockRangeEndBlockBuffer,
-    config.spokeRootsLookbackCount
+    config.spokeRootsLookbackCount,
+    config.executionGasUrgency
   );
 
   return {
@@ -88,9 +89,10 @@ export async function runDataworker(_logger: winston.Logger): Promise<void> {
 
       await clients.multiCallerClient.executeTransactionQueue();
 
-      if (config.finalizerEnabled)
-        await finalize(logger, clients.hubSigner, clients.hubPoolClient, spokePoolClients, config.finalizerChains);
-      else logger[startupLogLevel(config)]({ at: "Dataworker#index", message: "Finalizer disabled" });
+      if (config.finalizerEnabled) {
+        const finalizerSigner = clients.roleSigners?.finalizer?.[config.hubPoolChainId] ?? clients.hubSigner;
+        await finalize(logger, finalizerSigner, clients.hubPoolClient, spokePoolClients, config.finalizerChains);
+      } else logger[startupLogLevel(config)]({ at: "Dataworker#index", message: "Finalizer disabled" });
 
       if (await processEndPollingLoop(logger, "Dataworker", config.pollingDelay)) break;
     }
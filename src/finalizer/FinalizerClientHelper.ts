@@ -1,7 +1,7 @@
 import winston from "winston";
-import { getSigner } from "../utils";
 import { SpokePoolClient } from "../clients";
-import { Clients, constructClients, updateClients, updateSpokePoolClients } from "../common";
+import { Clients, constructClients, updateClients, updateSpokePoolClients, getSpokePoolSigners } from "../common";
+import { constructRoleSigners, validateRoleSigners } from "../common";
 import { constructSpokePoolClientsWithLookback } from "../relayer/RelayerClientHelper";
 import { FinalizerConfig } from "./FinalizerConfig";
 
@@ -13,13 +13,17 @@ export async function constructFinalizerClients(
   logger: winston.Logger,
   config: FinalizerConfig
 ): Promise<FinalizerClients> {
-  const baseSigner = await getSigner();
+  // Finalizations are only sent on the hub chain. Spoke pools are only read from.
+  const roleSigners = await constructRoleSigners(config, { finalizer: [config.hubPoolChainId] });
+  await validateRoleSigners(logger, roleSigners);
+  const baseSigner = roleSigners.finalizer[config.hubPoolChainId];
 
-  const commonClients = await constructClients(logger, config);
+  const commonClients = await constructClients(logger, config, baseSigner);
 
-  const spokePoolClients = await constructSpokePoolClientsWithLookback(logger, commonClients, config, baseSigner);
+  const spokePoolSigners = getSpokePoolSigners(baseSigner, config);
+  const spokePoolClients = await constructSpokePoolClientsWithLookback(logger, commonClients, config, spokePoolSigners);
 
-  return { ...commonClients, spokePoolClients };
+  return { ...commonClients, roleSigners, spokePoolClients };
 }
 
 export async function updateFinalizerClients(clients: FinalizerClients) {
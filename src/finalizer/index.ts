@@ -1,4 +1,4 @@
-import { Wallet } from "../utils";
+import { BotSigner } from "../utils";
 import { winston } from "../utils";
 import {
   finalizeArbitrum,
@@ -17,7 +17,7 @@ import { HubPoolClient } from "../clients";
 
 export async function finalize(
   logger: winston.Logger,
-  hubSigner: Wallet,
+  hubSigner: BotSigner,
   hubPoolClient: HubPoolClient,
   spokePoolClients: SpokePoolClientsByChain,
   configuredChainIds: number[]
@@ -1,4 +1,4 @@
-import { getProvider, Wallet, winston, convertFromWei, Contract, groupObjectCountsByProp, delay } from "../../utils";
+import { getProvider, BotSigner, winston, convertFromWei, Contract, groupObjectCountsByProp, delay } from "../../utils";
 import { L2ToL1MessageWriter, L2ToL1MessageStatus, L2TransactionReceipt, getL2Network } from "@arbitrum/sdk";
 import { MessageBatchProofInfo } from "@arbitrum/sdk/dist/lib/message/L2ToL1Message";
 import Outbox__factory_1 from "@arbitrum/sdk/dist/lib/abi/factories/Outbox__factory";
@@ -45,7 +45,7 @@ export async function finalizeArbitrum(
 export async function getFinalizableMessages(
   logger: winston.Logger,
   tokensBridged: TokensBridged[],
-  l1Signer: Wallet,
+  l1Signer: BotSigner,
   hubPoolClient: HubPoolClient
 ) {
   const allMessagesWithStatuses = await getAllMessageStatuses(tokensBridged, logger, l1Signer);
@@ -90,7 +90,7 @@ export async function getFinalizableMessages(
 export async function getAllMessageStatuses(
   tokensBridged: TokensBridged[],
   logger: winston.Logger,
-  mainnetSigner: Wallet
+  mainnetSigner: BotSigner
 ) {
   // For each token bridge event, store a unique log index for the event within the arbitrum transaction hash.
   // This is important for bridge transactions containing multiple events.
@@ -118,7 +118,7 @@ export async function getAllMessageStatuses(
 export async function getMessageOutboxStatusAndProof(
   logger: winston.Logger,
   event: TokensBridged,
-  l1Signer: Wallet,
+  l1Signer: BotSigner,
   logIndex: number
 ): Promise<{
   message: L2ToL1MessageWriter;
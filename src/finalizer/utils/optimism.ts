@@ -1,11 +1,11 @@
 import * as optimismSDK from "@eth-optimism/sdk";
 import { HubPoolClient } from "../../clients";
 import { TokensBridged } from "../../interfaces";
-import { convertFromWei, delay, getProvider, groupObjectCountsByProp, Wallet, winston } from "../../utils";
+import { convertFromWei, delay, getProvider, groupObjectCountsByProp, BotSigner, winston } from "../../utils";
 
 const CHAIN_ID = 10;
 
-export function getOptimismClient(mainnetSigner: Wallet) {
+export function getOptimismClient(mainnetSigner: BotSigner) {
   return new optimismSDK.CrossChainMessenger({
     l1ChainId: 1,
     l1SignerOrProvider: mainnetSigner,
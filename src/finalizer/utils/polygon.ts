@@ -10,7 +10,7 @@ import {
   getProvider,
   groupObjectCountsByProp,
   toBN,
-  Wallet,
+  BotSigner,
   winston,
 } from "../../utils";
 import { TokensBridged } from "../../interfaces";
@@ -26,7 +26,7 @@ enum POLYGON_MESSAGE_STATUS {
   CAN_EXIT = "CAN_EXIT",
 }
 
-export async function getPosClient(mainnetSigner: Wallet) {
+export async function getPosClient(mainnetSigner: BotSigner) {
   // Following from https://maticnetwork.github.io/matic.js/docs/pos
   use(Web3ClientPlugin);
   setProofApi("https://apis.matic.network/");
@@ -120,14 +120,14 @@ export async function finalizePolygon(
   }
 }
 
-export function getMainnetTokenBridger(mainnetSigner: Wallet) {
+export function getMainnetTokenBridger(mainnetSigner: BotSigner) {
   return getDeployedContract("PolygonTokenBridger", 1, mainnetSigner);
 }
 
 export async function retrieveTokenFromMainnetTokenBridger(
   logger: winston.Logger,
   l2Token: string,
-  mainnetSigner: Wallet,
+  mainnetSigner: BotSigner,
   hubPoolClient: HubPoolClient
 ): Promise<boolean> {
   const l1Token = hubPoolClient.getL1TokenCounterpartAtBlock(
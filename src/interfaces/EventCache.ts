@@ -0,0 +1,33 @@
+// Persistent key-value store that the EventCache keeps its entries in. Values are JSON strings.
+export interface EventStore {
+  readonly name: string;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// Decoded event as stored in the cache. Args holds the event's named arguments, with BigNumbers in their JSON form.
+export interface CachedEvent {
+  event: string;
+  args: { [name: string]: any };
+  blockNumber: number;
+  transactionIndex: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+// Blocks, inclusive, of one segment of an entry. The segment's events are stored apart from the entry, under the entry's
+// key followed by the segment's block range.
+export interface EventCacheSegment {
+  fromBlock: number;
+  toBlock: number;
+}
+
+// All of one contract's events of one name between fromBlock and toBlock, inclusive, split into consecutive segments.
+// toBlock is never above the block that was final, by the chain's finality margin, when the entry was written.
+export interface EventCacheEntry {
+  fromBlock: number;
+  toBlock: number;
+  segments: EventCacheSegment[];
+}
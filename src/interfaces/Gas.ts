@@ -0,0 +1,33 @@
+import { BigNumber, ethers } from "../utils";
+
+// Fee fields of a transaction. Either gasPrice for legacy chains, or maxFeePerGas and maxPriorityFeePerGas.
+export interface GasFees {
+  gasPrice?: BigNumber;
+  maxFeePerGas?: BigNumber;
+  maxPriorityFeePerGas?: BigNumber;
+}
+
+// Fees in gwei, either a gasPrice or a maxFeePerGas and maxPriorityFeePerGas.
+export type StaticGasFees = { gasPrice?: string; maxFeePerGas?: string; maxPriorityFeePerGas?: string };
+
+export interface GasOracle {
+  readonly name: string;
+  // Returns the unscaled fees that a transaction needs to be included at normal speed on the provider's chain.
+  getFees(provider: ethers.providers.Provider): Promise<GasFees>;
+}
+
+// How quickly a transaction needs to be included. Higher urgency scales up the fees paid.
+export type GasUrgency = "low" | "normal" | "high";
+
+// What to do when the network's fees are above the ceiling: wait up to waitTimeout seconds for them to drop, skip the
+// transaction, or alert and send it with fees capped at the ceiling.
+export type GasCeilingAction = "wait" | "skip" | "alert";
+
+export interface GasPricePolicy {
+  priorityScaler: number; // Scales the priority fee, or the gas price on legacy chains.
+  maxFeePerGasScaler: number; // Further scales the maxFeePerGas, on top of the priority scaler.
+  urgencyScalers: { [urgency in GasUrgency]?: number }; // Scales fees on top of the other scalers. Defaults to 1.
+  maxFeePerGas?: BigNumber; // Ceiling on the maxFeePerGas, or gas price, paid.
+  onCeiling: GasCeilingAction;
+  waitTimeout: number;
+}
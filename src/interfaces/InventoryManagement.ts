@@ -0,0 +1,26 @@
+import { BigNumber } from "../utils";
+
+// Target allocation of an L1 token's cumulative relayer inventory on a given chain. targetPct is 1e18 scaled, i.e
+// 0.2e18 means the relayer wants 20% of its total inventory of the L1 token to sit on that chain. If thresholdPct is
+// set then the chain is topped back up to targetPct from L1 once its allocation falls below thresholdPct.
+export interface TokenInventoryTarget {
+  targetPct: BigNumber;
+  thresholdPct?: BigNumber;
+}
+
+export interface InventoryConfig {
+  tokenConfig: { [l1Token: string]: { [chainId: number]: TokenInventoryTarget } };
+}
+
+// Caps on the relayer's capital in an L1 token that is outstanding, i.e. sent in fills and not yet refunded. maxExposure
+// caps the total, destinationChains caps what was sent in fills on each chain and repaymentChains caps what is owed to
+// the relayer on each chain. Amounts are in whole units of the token, for example "1000" is 1000 USDC.
+export interface TokenExposureLimits {
+  maxExposure?: string;
+  destinationChains?: { [chainId: number]: string };
+  repaymentChains?: { [chainId: number]: string };
+}
+
+export interface ExposureLimits {
+  [l1Token: string]: TokenExposureLimits;
+}
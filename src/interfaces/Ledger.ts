@@ -0,0 +1,47 @@
+import { BigNumber } from "../utils";
+
+// The relayer refund leaf execution that repaid a fill.
+export interface LedgerRefund {
+  rootBundleId: number;
+  leafId: number;
+  refundedAt: number; // Block time of the leaf execution on the repayment chain.
+}
+
+// One of the relayer's fills. Token amounts are in the deposit's token, gas in the destination chain's native token and
+// USD values are 1e18 scaled, priced when the fill was mined.
+export interface LedgerEntry {
+  originChainId: number;
+  depositId: number;
+  destinationChainId: number;
+  repaymentChainId: number;
+  l1Token: string;
+  fillAmount: BigNumber;
+  feeRevenue: BigNumber; // Relayer fee earned on the fill.
+  realizedLpFee: BigNumber; // LP fee withheld from the refund.
+  refundAmount: BigNumber; // Amount owed back to the relayer on the repayment chain.
+  gasCost: BigNumber; // Share of the fill transaction's gas cost. Bundled fills split the transaction's cost evenly.
+  feeRevenueInUsd: BigNumber;
+  gasCostInUsd: BigNumber;
+  transactionHash: string;
+  blockNumber: number; // Block on the destination chain that the fill was mined in.
+  filledAt: number; // Block time of the fill.
+  refund?: LedgerRefund;
+}
+
+export interface LedgerSummary {
+  fills: number;
+  volume: BigNumber;
+  feeRevenue: BigNumber;
+  realizedLpFee: BigNumber;
+  gasCostInUsd: BigNumber;
+  netProfitInUsd: BigNumber; // Fee revenue in USD less gas costs.
+  outstandingRefunds: BigNumber; // Refunds owed at the end of the window.
+  capitalTurnover: number; // Volume divided by the average capital outstanding waiting on refunds over the window.
+}
+
+export interface LedgerReport {
+  fromTime: number;
+  toTime: number;
+  byToken: { [l1Token: string]: LedgerSummary };
+  byRoute: { [route: string]: { [l1Token: string]: LedgerSummary } }; // Routes are keyed as "originChainId-destinationChainId".
+}
@@ -0,0 +1,14 @@
+import { BigNumber } from "../utils";
+
+export interface TokenPrice {
+  price: BigNumber; // USD price of one whole token, scaled to 18 decimals.
+  timestamp: number; // Unix timestamp, in seconds, at which the source last updated the price.
+  source: string; // Name of the price source that produced the price.
+}
+
+export interface PriceSource {
+  readonly name: string;
+  // Returns prices for as many of the requested token addresses as the source can price. Tokens that the source does
+  // not know about, or fails to price, are omitted so that the next source can be tried for them.
+  getPricesByAddress(addresses: string[]): Promise<{ [address: string]: TokenPrice }>;
+}
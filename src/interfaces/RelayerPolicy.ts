@@ -0,0 +1,24 @@
+// Allowlist and denylist for one attribute of a deposit. If an allowlist is set then only the listed values are
+// relayed. Listed values are always rejected by the denylist, even if they are also allowed.
+export interface PolicyList<T> {
+  allow?: T[];
+  deny?: T[];
+}
+
+// Minimum and maximum size of deposits relayed on a route, in whole units of the token. For example "1000" is 1000 USDC.
+export interface RouteSizeLimits {
+  minAmount?: string;
+  maxAmount?: string;
+}
+
+export interface RelayerPolicyConfig {
+  originChainIds?: PolicyList<number>;
+  destinationChainIds?: PolicyList<number>;
+  l1Tokens?: PolicyList<string>;
+  depositors?: PolicyList<string>;
+  recipients?: PolicyList<string>;
+  // Keyed by origin chain ID, then destination chain ID, then L1 token.
+  routeSizeLimits?: {
+    [originChainId: number]: { [destinationChainId: number]: { [l1Token: string]: RouteSizeLimits } };
+  };
+}
@@ -0,0 +1,19 @@
+// Roles that bots send transactions in. Each role can sign with its own key, and with different keys on each chain.
+export type SignerRole = "proposer" | "disputer" | "executor" | "relayer" | "finalizer";
+
+// Reference to a key held by one of the wallet backends. References never contain secrets, only the names of the env
+// vars and files that they are read from. Unset fields default to the env vars that the --wallet option reads.
+export interface SignerReference {
+  wallet: "mnemonic" | "privateKey" | "gckms" | "keystore" | "remote";
+  mnemonicEnv?: string; // mnemonic. Defaults to MNEMONIC.
+  privateKeyEnv?: string; // privateKey. Defaults to PRIVATE_KEY.
+  keys?: string; // gckms. Name of the key in the GCKMS config.
+  keystoreFile?: string; // keystore. Defaults to KEYSTORE_FILE.
+  passwordFile?: string; // keystore. Defaults to KEYSTORE_PASSWORD_FILE.
+  passwordEnv?: string; // keystore. Defaults to KEYSTORE_PASSWORD.
+  url?: string; // remote. Defaults to REMOTE_SIGNER_URL.
+  address?: string; // remote. Defaults to REMOTE_SIGNER_ADDRESS.
+}
+
+// Name of the key that a role signs with, either on every chain or as a default with per chain overrides.
+export type SignerRoleKeys = string | { default?: string; [chainId: number]: string };
@@ -14,6 +14,7 @@ export interface Deposit {
   realizedLpFeePct?: BigNumber; // appended after initialization (not part of Deposit event).
   destinationToken?: string; // appended after initialization (not part of Deposit event).
   speedUpSignature?: string | undefined; // appended after initialization, if deposit was speedup (not part of Deposit event).
+  newRelayerFeePct?: BigNumber; // appended after initialization, if deposit was speedup (not part of Deposit event).
 }
 
 export interface DepositWithBlock extends Deposit, SortableEvent {
@@ -47,6 +48,8 @@ export interface SpeedUp {
   originChainId: number;
 }
 
+export interface SpeedUpWithBlock extends SpeedUp, SortableEvent {}
+
 export interface SlowFill {
   relayHash: string;
   amount: BigNumber;
@@ -133,3 +136,5 @@ export interface TokensBridged {
   caller: string;
   transactionHash: string;
 }
+
+export interface TokensBridgedWithBlock extends TokensBridged, SortableEvent {}
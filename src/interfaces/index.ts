@@ -2,3 +2,10 @@ export * from "./SpokePool";
 export * from "./HubPool";
 export * from "./ConfigStore";
 export * from "./Common";
+export * from "./InventoryManagement";
+export * from "./Prices";
+export * from "./RelayerPolicy";
+export * from "./Ledger";
+export * from "./Gas";
+export * from "./Signers";
+export * from "./EventCache";
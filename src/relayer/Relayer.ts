@@ -1,19 +1,35 @@
-import { BigNumber, winston, buildFillRelayProps, getNetworkName } from "../utils";
-import { createFormatFunction, etherscanLink, toBN } from "../utils";
+import { BigNumber, winston, buildFillRelayProps, buildFillRelayWithUpdatedFeeProps, getNetworkName } from "../utils";
+import { createFormatFunction, etherscanLink, toBN, utils, providers } from "../utils";
 import { RelayerClients } from "./RelayerClientHelper";
+import { RelayerConfig } from "./RelayerConfig";
+import { RelayerPolicy } from "./RelayerPolicy";
 
-import { Deposit } from "../interfaces/SpokePool";
+import { SpokePoolClient } from "../clients";
+import { Deposit, DepositWithBlock } from "../interfaces/SpokePool";
 
 export class Relayer {
-  private repaymentChainId = 1; // Set to 1 for now. In future can be dynamically set to adjust bots capital allocation.
+  readonly policy: RelayerPolicy;
+  // Deposits the policy has rejected, keyed by origin chain and deposit ID, so that each rejection is only logged once.
+  private readonly rejectedDeposits = new Set<string>();
+
+  constructor(readonly logger: winston.Logger, readonly clients: RelayerClients, readonly config?: RelayerConfig) {
+    this.policy = new RelayerPolicy(config?.relayerPolicy);
+  }
 
-  constructor(readonly logger: winston.Logger, readonly clients: RelayerClients) {}
   async checkForUnfilledDepositsAndFill() {
+    // The relayer's balances still include the funds of fills that were sent but are not yet mined. Set these aside so
+    // that they are not spent again on other deposits.
+    this.clients.tokenClient.setReservedBalances(this.clients.pendingFillClient.getUnminedFillAmounts());
+
     // Fetch all unfilled deposits, order by total earnable fee.
     // TODO: Note this does not consider the price of the token which will be added once the profitability module is
     // added to this bot.
     const unfilledDeposits = this.getUnfilledDeposits().sort((a, b) =>
-      a.unfilledAmount.mul(a.deposit.relayerFeePct).lt(b.unfilledAmount.mul(b.deposit.relayerFeePct)) ? 1 : -1
+      a.unfilledAmount
+        .mul(a.deposit.newRelayerFeePct ?? a.deposit.relayerFeePct)
+        .lt(b.unfilledAmount.mul(b.deposit.newRelayerFeePct ?? b.deposit.relayerFeePct))
+        ? 1
+        : -1
     );
 
     if (unfilledDeposits.length > 0)
@@ -22,44 +38,108 @@ export class Relayer {
 
     // Iterate over all unfilled deposits. For each unfilled deposit: a) check that the token balance client has enough
     // balance to fill the unfilled amount. b) the fill is profitable. If both hold true then fill the unfilled amount.
-    // If not enough ballance add the shortfall to the shortfall tracker to produce an appropriate log. If the deposit
-    // is has no other fills then send a 0 sized fill to initiate a slow relay. If unprofitable then add the
-    // unprofitable tx to the unprofitable tx tracker to produce an appropriate log.
+    // If not enough ballance add the shortfall to the shortfall tracker to produce an appropriate log. If partial fills
+    // are enabled then fill as much of the deposit as the balance allows. Else, if the deposit is has no other fills
+    // then send a 0 sized fill to initiate a slow relay. If unprofitable then add the unprofitable tx to the
+    // unprofitable tx tracker to produce an appropriate log.
     for (const { deposit, unfilledAmount, fillCount } of unfilledDeposits) {
       if (this.clients.tokenClient.hasSufficientBalanceForFill(deposit, unfilledAmount)) {
-        if (this.clients.profitClient.isFillProfitable(deposit, unfilledAmount)) {
-          this.fillRelay(deposit, unfilledAmount);
-        } else {
-          this.clients.profitClient.captureUnprofitableFill(deposit, unfilledAmount);
-        }
+        await this.fillRelayIfProfitable(deposit, unfilledAmount, unfilledAmount);
       } else {
-        this.clients.tokenClient.captureTokenShortfallForFill(deposit, unfilledAmount);
+        const partialFillAmount = this.getPartialFillAmount(deposit);
+        const filled =
+          partialFillAmount.gt(0) && (await this.fillRelayIfProfitable(deposit, partialFillAmount, unfilledAmount));
+        // The partial fill only covers part of the shortfall if it was actually sent.
+        const shortfall = filled ? unfilledAmount.sub(partialFillAmount) : unfilledAmount;
+        this.clients.tokenClient.captureTokenShortfallForFill(deposit, shortfall);
         // If we dont have enough balance to fill the unfilled amount and the fill count on the deposit is 0 then send a
-        // 0 sized fill to ensure that the deposit is slow relayed. This only needs to be done once.
-        if (fillCount === 0) this.zeroFillDeposit(deposit);
+        // 0 sized fill to ensure that the deposit is slow relayed. This only needs to be done once. A partial fill
+        // initiates the slow relay in the same way.
+        if (!filled && fillCount === 0) this.zeroFillDeposit(deposit);
       }
     }
 
-    // If during the execution run we had shortfalls or unprofitable fills then handel it by producing associated logs.
-    if (this.clients.tokenClient.anyCapturedShortFallFills()) this.handleTokenShortfall();
-    if (this.clients.profitClient.anyCapturedUnprofitableFills()) this.handleUnprofitableFill();
+    // Top up chains whose inventory ran low from L1. This is done before the token shortfall is cleared so that chains
+    // with a shortfall are topped up to cover it.
+    await this.clients.inventoryClient.rebalanceInventoryIfNeeded();
+
+    // Produce alerts for shortfalls and unprofitable fills seen during the execution run. These are always handled, even
+    // if none were seen, so that alerts for conditions that cleared since the last run are resolved.
+    await this.handleTokenShortfall();
+    await this.handleUnprofitableFill();
+    await this.handleExposureLimits();
   }
 
-  fillRelay(deposit: Deposit, fillAmount: BigNumber) {
-    this.logger.debug({ at: "Relayer", message: "Filling deposit", deposit, repaymentChain: this.repaymentChainId });
+  // Fill the deposit with the fill amount if it is profitable to do so. Returns true if the fill was enqueued.
+  async fillRelayIfProfitable(deposit: Deposit, fillAmount: BigNumber, unfilledAmount: BigNumber): Promise<boolean> {
+    // The price of the deposit's token can not be trusted to decide profitability. The ProfitClient has already
+    // alerted on this, so skip the deposit until a valid price is fetched.
+    if (this.clients.profitClient.isRelayPausedForDeposit(deposit)) {
+      this.logger.debug({ at: "Relayer", message: "Relays paused for deposit token", deposit });
+      return false;
+    }
+    // Choose the repayment chain based on the relayer's inventory allocation over all chains. This is part of the
+    // fill's calldata, so it is needed before the cost of the fill can be estimated.
+    const repaymentChainId = this.clients.inventoryClient.determineRefundChainId(deposit, fillAmount);
+    // Stop taking new fills once the capital outstanding waiting on refunds reaches a configured cap.
+    const exposureLimitBreach = this.clients.exposureClient.getExposureLimitBreach(
+      deposit,
+      fillAmount,
+      repaymentChainId
+    );
+    if (exposureLimitBreach !== undefined) {
+      this.clients.exposureClient.captureExposureLimitedFill(deposit, exposureLimitBreach);
+      return false;
+    }
+    const gasCostInUsd = await this.estimateFillGasCostInUsd(deposit, repaymentChainId, fillAmount);
+    if (!this.clients.profitClient.isFillProfitable(deposit, fillAmount, gasCostInUsd)) {
+      this.clients.profitClient.captureUnprofitableFill(deposit, fillAmount, gasCostInUsd);
+      return false;
+    }
+    this.fillRelay(deposit, fillAmount, repaymentChainId, unfilledAmount);
+    return true;
+  }
+
+  // Amount of the deposit's destination token that can be used for a partial fill. This is the relayer's balance on
+  // the destination chain less the reserve configured for the token. Zero if partial fills are disabled.
+  getPartialFillAmount(deposit: Deposit): BigNumber {
+    if (!this.config?.partialFillsEnabled) return toBN(0);
+    const { address: l1Token, decimals } = this.clients.hubPoolClient.getTokenInfoForDeposit(deposit);
+    const reserve = utils.parseUnits(this.config.partialFillReserve?.[l1Token] ?? "0", decimals);
+    const balance = this.clients.tokenClient.getBalance(deposit.destinationChainId, deposit.destinationToken);
+    return balance.gt(reserve) ? balance.sub(reserve) : toBN(0);
+  }
+
+  fillRelay(
+    deposit: Deposit,
+    fillAmount: BigNumber,
+    repaymentChainId: number = this.clients.inventoryClient.determineRefundChainId(deposit, fillAmount),
+    unfilledAmount: BigNumber = fillAmount
+  ) {
     try {
+      this.logger.debug({ at: "Relayer", message: "Filling deposit", deposit, repaymentChainId });
       // Add the fill transaction to the multiCallerClient so it will be executed with the next batch.
       this.clients.multiCallerClient.enqueueTransaction({
         contract: this.clients.spokePoolClients[deposit.destinationChainId].spokePool, // target contract
         chainId: deposit.destinationChainId,
-        method: "fillRelay", // method called.
-        args: buildFillRelayProps(deposit, this.repaymentChainId, fillAmount), // props sent with function call.
+        ...this.buildFillMethodAndArgs(deposit, repaymentChainId, fillAmount), // method called & props sent with it.
         message: "Relay instantly sent 🚀", // message sent to logger.
-        mrkdwn: this.constructRelayFilledMrkdwn(deposit, this.repaymentChainId, fillAmount), // message details mrkdwn
+        label: `deposit ${deposit.depositId} from ${getNetworkName(deposit.originChainId)}`,
+        urgency: this.config?.fillGasUrgency,
+        // Reserve the fill amount until the fill is seen by the SpokePoolClient so the next run does not refill it.
+        onSubmitted: (transactionHash: string) =>
+          this.clients.pendingFillClient.addPendingFill(deposit, fillAmount, repaymentChainId, transactionHash),
+        onReplaced: (oldHash: string, newHash: string) =>
+          this.clients.pendingFillClient.replaceTransactionHash(oldHash, newHash),
+        onMined: (receipt: providers.TransactionReceipt, callCount: number) =>
+          this.clients.ledgerClient.recordFill(deposit, fillAmount, repaymentChainId, receipt, callCount),
+        mrkdwn: this.constructRelayFilledMrkdwn(deposit, repaymentChainId, fillAmount, unfilledAmount), // mrkdwn
       });
 
       // Decrement tokens in token client used in the fill. This ensures that we dont try and fill more than we have.
       this.clients.tokenClient.decrementLocalBalance(deposit.destinationChainId, deposit.destinationToken, fillAmount);
+      // Likewise, count the fill towards the relayer's exposure so that later fills in this run respect the caps.
+      this.clients.exposureClient.addExposure(deposit, fillAmount, repaymentChainId);
     } catch (error) {
       console.log("error", error);
       this.logger.error({
@@ -72,16 +152,26 @@ export class Relayer {
   }
 
   zeroFillDeposit(deposit: Deposit) {
-    this.logger.debug({ at: "Relayer", message: "Zero filling", deposit, repaymentChain: this.repaymentChainId });
+    // A zero fill is never refunded in any meaningful amount, so there is no point balancing inventory with it.
+    const repaymentChainId = this.clients.inventoryClient.hubPoolChainId;
+    this.logger.debug({ at: "Relayer", message: "Zero filling", deposit, repaymentChainId });
     try {
       // Add the zero fill fill transaction to the multiCallerClient so it will be executed with the next batch.
       this.clients.multiCallerClient.enqueueTransaction({
         contract: this.clients.spokePoolClients[deposit.destinationChainId].spokePool, // target contract
         chainId: deposit.destinationChainId,
         method: "fillRelay", // method called.
-        args: buildFillRelayProps(deposit, this.repaymentChainId, toBN(1)), // props sent with function call.
+        // A speed up does not change the relay hash, so the zero fill can always use the original fee.
+        args: buildFillRelayProps(deposit, repaymentChainId, toBN(1)), // props sent with function call.
         message: "Zero size relay sent 🐌", // message sent to logger.
+        label: `zero fill of deposit ${deposit.depositId} from ${getNetworkName(deposit.originChainId)}`,
+        urgency: this.config?.fillGasUrgency,
         mrkdwn: this.constructZeroSizeFilledMrkdwn(deposit), // message details mrkdwn
+        // Tracked as a pending fill so that another zero fill is not sent while this one is pending.
+        onSubmitted: (transactionHash: string) =>
+          this.clients.pendingFillClient.addPendingFill(deposit, toBN(1), repaymentChainId, transactionHash),
+        onReplaced: (oldHash: string, newHash: string) =>
+          this.clients.pendingFillClient.replaceTransactionHash(oldHash, newHash),
       });
     } catch (error) {
       this.logger.error({
@@ -93,6 +183,19 @@ export class Relayer {
     }
   }
 
+  // Estimate the USD cost of the gas needed to send the fill on the destination chain. If this errors then the cost is
+  // returned as 0 so that the fill is still considered by the profit client on its revenue alone.
+  async estimateFillGasCostInUsd(deposit: Deposit, repaymentChainId: number, fillAmount: BigNumber) {
+    try {
+      const { method, args } = this.buildFillMethodAndArgs(deposit, repaymentChainId, fillAmount);
+      const spokePool = this.clients.spokePoolClients[deposit.destinationChainId].spokePool;
+      return await this.clients.profitClient.estimateGasCostUsd(deposit.destinationChainId, spokePool, method, args);
+    } catch (error) {
+      this.logger.warn({ at: "Relayer", message: "Could not estimate fill gas cost. Using 0", deposit, error });
+      return toBN(0);
+    }
+  }
+
   // Returns all unfilled deposits over all spokePoolClients. Return values include the amount of the unfilled deposit.
   getUnfilledDeposits(): { deposit: Deposit; unfilledAmount: BigNumber; fillCount: number }[] {
     let unfilledDeposits: { deposit: Deposit; unfilledAmount: BigNumber; fillCount: number }[] = [];
@@ -106,28 +209,122 @@ export class Relayer {
         // validates that the deposit is filled "correctly" for the given deposit information. This includes validation
         // of the all deposit -> relay props, the realizedLpFeePct and the origin->destination token mapping.
         const destinationClient = this.clients.spokePoolClients[destinationChain];
-        const depositsForDestinationChain = originClient.getDepositsForDestinationChain(destinationChain);
+        const depositsForDestinationChain = this.getConfirmedDeposits(originClient, Number(destinationChain));
+        // Fills that were submitted but are not yet seen by the destination client reduce the unfilled amount. They
+        // also count as a fill so that a zero fill is not sent for a deposit that is already being filled.
         const unfilledDepositsForDestinationChain = depositsForDestinationChain.map((deposit) => {
-          return { ...destinationClient.getValidUnfilledAmountForDeposit(deposit), deposit };
+          const { unfilledAmount, fillCount } = destinationClient.getValidUnfilledAmountForDeposit(deposit);
+          const pendingFillAmount = this.clients.pendingFillClient.getPendingFillAmount(deposit);
+          return {
+            unfilledAmount: unfilledAmount.sub(pendingFillAmount),
+            fillCount: pendingFillAmount.gt(0) ? fillCount + 1 : fillCount,
+            deposit,
+          };
         });
-        // Remove any deposits that have no unfilled amount and append the remaining deposits to unfilledDeposits array.
-        unfilledDeposits.push(...unfilledDepositsForDestinationChain.filter((deposit) => deposit.unfilledAmount.gt(0)));
+        // Remove any deposits that have no unfilled amount or that the relayer's policy rejects and append the remaining
+        // deposits to unfilledDeposits array.
+        unfilledDeposits.push(
+          ...this.filterDepositsByPolicy(
+            unfilledDepositsForDestinationChain.filter((deposit) => deposit.unfilledAmount.gt(0))
+          )
+        );
       }
     }
 
     return unfilledDeposits;
   }
 
-  // TODO: that the implementations below for both methods will produce logs on each iteration of the bot. This should
-  // be refactored to only log ONCE on the first time seeing each log. This will be left for a later PR.
+  // Remove deposits that the relayer's policy rejects. Each rejected deposit is logged with the rule that rejected it
+  // the first time it is rejected.
+  filterDepositsByPolicy<T extends { deposit: Deposit }>(unfilledDeposits: T[]): T[] {
+    const rejectedDeposits = [];
+    const allowedDeposits = unfilledDeposits.filter(({ deposit }) => {
+      const { address: l1Token, decimals } = this.clients.hubPoolClient.getTokenInfoForDeposit(deposit);
+      const rule = this.policy.getRejectionRule(deposit, l1Token, decimals);
+      if (rule === undefined) return true;
+      const key = `${deposit.originChainId}-${deposit.depositId}`;
+      if (!this.rejectedDeposits.has(key)) {
+        this.rejectedDeposits.add(key);
+        rejectedDeposits.push({ originChainId: deposit.originChainId, depositId: deposit.depositId, rule });
+      }
+      return false;
+    });
+    if (rejectedDeposits.length > 0)
+      this.logger.info({ at: "Relayer", message: "Skipping deposits rejected by relayer policy", rejectedDeposits });
+    return allowedDeposits;
+  }
 
-  private handleTokenShortfall() {
+  // Deposits that are not yet confirmed by the required number of blocks on their origin chain could still be reorged
+  // out, so they are held in a "pending confirmation" state and are not filled until they reach that depth.
+  getConfirmedDeposits(originClient: SpokePoolClient, destinationChainId: number): Deposit[] {
+    // Deposits with block numbers do not include speed ups, so they are only used to look up the origin block number.
+    const deposits = originClient.getDepositsForDestinationChain(destinationChainId);
+    const originBlockNumbers = Object.fromEntries(
+      originClient
+        .getDepositsForDestinationChain(destinationChainId, true)
+        .map((deposit: DepositWithBlock) => [deposit.depositId, deposit.originBlockNumber])
+    );
+    const pendingConfirmation = [];
+    const confirmedDeposits = deposits.filter((deposit) => {
+      const requiredConfirmations = this.getMinDepositConfirmations(deposit);
+      const confirmations = originClient.latestBlockNumber - originBlockNumbers[deposit.depositId] + 1;
+      if (confirmations >= requiredConfirmations) return true;
+      pendingConfirmation.push({ depositId: deposit.depositId, confirmations, requiredConfirmations });
+      return false;
+    });
+    if (pendingConfirmation.length > 0)
+      this.logger.debug({
+        at: "Relayer",
+        message: "Deposits pending confirmation",
+        originChainId: originClient.chainId,
+        destinationChainId,
+        pendingConfirmation,
+      });
+    return confirmedDeposits;
+  }
+
+  // Confirmations required for the deposit on its origin chain. If tiers are configured by USD size then the largest
+  // tier that the deposit reaches applies. If the deposit can not be priced then the largest tier applies.
+  getMinDepositConfirmations(deposit: Deposit): number {
+    const tiers = this.config?.minDepositConfirmations?.[deposit.originChainId] ?? [];
+    if (tiers.length === 0) return 0;
+    const maxConfirmations = Math.max(...tiers.map(({ minConfirmations }) => minConfirmations));
+    if (tiers.every(({ usdThreshold }) => usdThreshold.lte(0))) return maxConfirmations;
+
+    const { address: l1Token, decimals } = this.clients.hubPoolClient.getTokenInfoForDeposit(deposit);
+    const price = this.clients.profitClient.getPriceInfoOfToken(l1Token)?.price;
+    if (price === undefined || price.lte(0)) return maxConfirmations;
+    const depositValueInUsd = toBN(deposit.amount).mul(price).div(toBN(10).pow(decimals));
+    return Math.max(
+      0,
+      ...tiers
+        .filter(({ usdThreshold }) => depositValueInUsd.gte(usdThreshold))
+        .map(({ minConfirmations }) => minConfirmations)
+    );
+  }
+
+  // Alerts are deduplicated by the AlertClient. A condition is alerted on when it first appears, reminded about while
+  // it stays open, and reported as resolved once it clears. Token shortfalls are keyed by chain and token.
+  private async handleTokenShortfall() {
     const tokenShortfall = this.clients.tokenClient.getTokenShortfall();
 
+    const openConditions = {};
+    Object.keys(tokenShortfall).forEach((chainId) =>
+      Object.keys(tokenShortfall[chainId]).forEach((token) => {
+        const { symbol } = this.clients.hubPoolClient.getTokenInfo(chainId, token);
+        openConditions[`${chainId}_${token}`] = `${symbol} on ${getNetworkName(chainId)}`;
+      })
+    );
+    const { opened, reminders, resolved } = await this.clients.alertClient.updateAlerts("shortfall", openConditions);
+
     let mrkdwn = "";
     Object.keys(tokenShortfall).forEach((chainId) => {
+      const tokens = Object.keys(tokenShortfall[chainId]).filter((token) =>
+        [...opened, ...reminders].includes(`${chainId}_${token}`)
+      );
+      if (tokens.length === 0) return;
       mrkdwn += `*Shortfall on ${getNetworkName(chainId)}:*\n`;
-      Object.keys(tokenShortfall[chainId]).forEach((token) => {
+      tokens.forEach((token) => {
         const { symbol, decimals } = this.clients.hubPoolClient.getTokenInfo(chainId, token);
         const formatFunction = createFormatFunction(2, 4, false, decimals);
         mrkdwn +=
@@ -135,46 +332,134 @@ export class Relayer {
           `${formatFunction(tokenShortfall[chainId][token].shortfall)} ` +
           `(have ${formatFunction(tokenShortfall[chainId][token].balance)} but need ` +
           `${formatFunction(tokenShortfall[chainId][token].needed)}). ` +
-          `This is blocking deposits: ${tokenShortfall[chainId][token].deposits}\n`;
+          `This is blocking deposits: ${tokenShortfall[chainId][token].deposits}` +
+          `${reminders.includes(`${chainId}_${token}`) ? " (still unresolved)" : ""}\n`;
       });
     });
 
-    this.logger.warn({ at: "Relayer", message: "Insufficient balance to fill all deposits 💸!", mrkdwn });
+    if (mrkdwn) this.logger.warn({ at: "Relayer", message: "Insufficient balance to fill all deposits 💸!", mrkdwn });
+    if (Object.keys(resolved).length > 0)
+      this.logger.info({
+        at: "Relayer",
+        message: "Token shortfall resolved ✅",
+        mrkdwn: Object.values(resolved)
+          .map((description) => ` - ${description}\n`)
+          .join(""),
+      });
 
     this.clients.tokenClient.clearTokenShortfall();
   }
 
-  private handleUnprofitableFill() {
+  // Unprofitable deposits are keyed by origin chain and deposit ID.
+  private async handleUnprofitableFill() {
     const unprofitableDeposits = this.clients.profitClient.getUnprofitableFills();
 
+    const openConditions = {};
+    Object.keys(unprofitableDeposits).forEach((chainId) =>
+      unprofitableDeposits[chainId].forEach(({ deposit }) => {
+        openConditions[`${chainId}_${deposit.depositId}`] =
+          `DepositId ${deposit.depositId} from ${getNetworkName(deposit.originChainId)} ` +
+          `to ${getNetworkName(deposit.destinationChainId)}`;
+      })
+    );
+    const { opened, reminders, resolved } = await this.clients.alertClient.updateAlerts("unprofitable", openConditions);
+
     let mrkdwn = "";
     Object.keys(unprofitableDeposits).forEach((chainId) => {
+      const fills = unprofitableDeposits[chainId].filter(({ deposit }) =>
+        [...opened, ...reminders].includes(`${chainId}_${deposit.depositId}`)
+      );
+      if (fills.length === 0) return;
       mrkdwn += `*Unprofitable deposits on ${getNetworkName(chainId)}:*\n`;
-      Object.keys(unprofitableDeposits[chainId]).forEach((depositId) => {
-        const { deposit, fillAmount } = unprofitableDeposits[chainId][depositId];
+      fills.forEach(({ deposit, fillAmount, fillRevenueInUsd, gasCostInUsd, netProfitInUsd }) => {
         const { symbol, decimals } = this.clients.hubPoolClient.getTokenInfoForDeposit(deposit);
         const formatFunction = createFormatFunction(2, 4, false, decimals);
+        const formatUsd = createFormatFunction(2, 4, false, 18);
         mrkdwn +=
           `- DepositId ${deposit.depositId} of amount ${formatFunction(deposit.amount)} ${symbol}` +
           ` with a relayerFeePct ${formatFunction(deposit.relayerFeePct)} being relayed from ` +
           `${getNetworkName(deposit.originChainId)} to ${getNetworkName(deposit.destinationChainId)}` +
-          ` and an unfilled amount of  ${formatFunction(fillAmount)} ${symbol} is unprofitable!\n`;
+          ` and an unfilled amount of  ${formatFunction(fillAmount)} ${symbol} is unprofitable!` +
+          ` Revenue: $${formatUsd(fillRevenueInUsd)}, gas cost: $${formatUsd(gasCostInUsd)},` +
+          ` net profit: $${formatUsd(netProfitInUsd)}.` +
+          `${reminders.includes(`${chainId}_${deposit.depositId}`) ? " (still unresolved)" : ""}\n`;
       });
     });
 
-    this.logger.warn({ at: "Relayer", message: "Not relaying unprofitable deposits 🙅‍♂️!", mrkdwn });
+    if (mrkdwn) this.logger.warn({ at: "Relayer", message: "Not relaying unprofitable deposits 🙅‍♂️!", mrkdwn });
+    if (Object.keys(resolved).length > 0)
+      this.logger.info({
+        at: "Relayer",
+        message: "Unprofitable deposits resolved ✅",
+        mrkdwn: Object.values(resolved)
+          .map((description) => ` - ${description} is no longer unprofitable or unfilled\n`)
+          .join(""),
+      });
 
     this.clients.profitClient.clearUnprofitableFills();
-
-    // Note that this implementation right now will result in each run of the bot logging for insufficient token balance.
-    // Storing these logs and only emmitting them once will be done in a subsequent PR.
-    this.clients.tokenClient.clearTokenShortfall();
   }
 
-  private constructRelayFilledMrkdwn(deposit: Deposit, repaymentChainId: number, fillAmount: BigNumber): string {
-    return (
-      this.constructBaseFillMarkdown(deposit, fillAmount) + `Relayer repayment: ${getNetworkName(repaymentChainId)}.`
+  // Exposure limit alerts are keyed by the cap that was reached.
+  private async handleExposureLimits() {
+    const exposureLimitedFills = this.clients.exposureClient.getExposureLimitedFills();
+
+    const openConditions = Object.fromEntries(
+      Object.entries(exposureLimitedFills).map(([key, { description }]) => [key, description])
     );
+    const { opened, reminders, resolved } = await this.clients.alertClient.updateAlerts("exposure", openConditions);
+
+    let mrkdwn = "";
+    Object.entries(exposureLimitedFills).forEach(([key, { reason, deposits }]) => {
+      if (![...opened, ...reminders].includes(key)) return;
+      mrkdwn +=
+        `- ${reason}. This is blocking deposits: ` +
+        `${deposits.map(({ originChainId, depositId }) => `${originChainId}_${depositId}`).join(", ")}` +
+        `${reminders.includes(key) ? " (still unresolved)" : ""}\n`;
+    });
+
+    if (mrkdwn) this.logger.warn({ at: "Relayer", message: "Exposure limit reached, not taking new fills 🚧", mrkdwn });
+    if (Object.keys(resolved).length > 0)
+      this.logger.info({
+        at: "Relayer",
+        message: "Exposure back under limit ✅",
+        mrkdwn: Object.values(resolved)
+          .map((description) => ` - ${description}\n`)
+          .join(""),
+      });
+
+    this.clients.exposureClient.clearExposureLimitedFills();
+  }
+
+  // If the depositor sped up the deposit then fill with their signed, updated fee. Else, send a normal fill.
+  private buildFillMethodAndArgs(deposit: Deposit, repaymentChainId: number, fillAmount: BigNumber) {
+    return deposit.speedUpSignature !== undefined
+      ? {
+          method: "fillRelayWithUpdatedFee",
+          args: buildFillRelayWithUpdatedFeeProps(deposit, repaymentChainId, fillAmount),
+        }
+      : { method: "fillRelay", args: buildFillRelayProps(deposit, repaymentChainId, fillAmount) };
+  }
+
+  private constructRelayFilledMrkdwn(
+    deposit: Deposit,
+    repaymentChainId: number,
+    fillAmount: BigNumber,
+    unfilledAmount: BigNumber
+  ): string {
+    let mrkdwn =
+      this.constructBaseFillMarkdown(deposit, fillAmount) + `Relayer repayment: ${getNetworkName(repaymentChainId)}.`;
+    if (fillAmount.lt(unfilledAmount)) {
+      const { symbol, decimals } = this.clients.hubPoolClient.getTokenInfoForDeposit(deposit);
+      const formatFunction = createFormatFunction(2, 4, false, decimals);
+      mrkdwn +=
+        ` Partial fill due to insufficient balance: filled ${formatFunction(fillAmount.toString())} ${symbol},` +
+        ` remaining ${formatFunction(unfilledAmount.sub(fillAmount).toString())} ${symbol}.`;
+    }
+    if (deposit.speedUpSignature !== undefined)
+      mrkdwn +=
+        ` Speed up applied: relayerFee raised to ` +
+        `${createFormatFunction(2, 4, false, 18)(toBN(deposit.newRelayerFeePct).mul(100).toString())}%.`;
+    return mrkdwn;
   }
 
   private constructZeroSizeFilledMrkdwn(deposit: Deposit): string {
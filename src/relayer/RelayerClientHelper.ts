@@ -1,12 +1,35 @@
 import winston from "winston";
-import { Contract, getDeployedContract, getDeploymentBlockNumber, getSigner, Wallet } from "../utils";
-import { TokenClient, SpokePoolClient } from "../clients";
+import { Contract, getDeployedContract, getDeploymentBlockNumber, getProvider, BotSigner } from "../utils";
+import {
+  TokenClient,
+  SpokePoolClient,
+  InventoryClient,
+  AlertClient,
+  PendingFillClient,
+  NonceManager,
+  GasPriceClient,
+} from "../clients";
+import {
+  ExposureClient,
+  LedgerClient,
+  BaseAdapter,
+  OptimismAdapter,
+  ArbitrumAdapter,
+  PolygonAdapter,
+} from "../clients";
 import { RelayerConfig } from "./RelayerConfig";
-import { Clients, constructClients, updateClients, getSpokePoolSigners, updateSpokePoolClients } from "../common";
+import { Clients, constructClients, updateClients, updateSpokePoolClients } from "../common";
+import { constructRoleSigners, validateRoleSigners } from "../common";
+import { CHAIN_ID_LIST_INDICES, CROSS_CHAIN_TRANSFER_LOOKBACK } from "../common";
 
 export interface RelayerClients extends Clients {
   spokePoolClients: { [chainId: number]: SpokePoolClient };
   tokenClient: TokenClient;
+  inventoryClient: InventoryClient;
+  alertClient: AlertClient;
+  pendingFillClient: PendingFillClient;
+  exposureClient: ExposureClient;
+  ledgerClient: LedgerClient;
 }
 
 export interface SpokePoolClientsByChain {
@@ -17,12 +40,11 @@ export async function constructSpokePoolClientsWithLookback(
   logger: winston.Logger,
   clients: Clients,
   config: RelayerConfig,
-  baseSigner: Wallet
+  spokePoolSigners: { [chainId: number]: BotSigner }
 ): Promise<SpokePoolClientsByChain> {
   const spokePoolClients: SpokePoolClientsByChain = {};
 
-  // Set up Spoke signers and connect them to spoke pool contract objects:
-  const spokePoolSigners = getSpokePoolSigners(baseSigner, config);
+  // Connect the spoke signers to spoke pool contract objects:
   const spokePools = config.spokePoolChains.map((networkId) => {
     return { networkId, contract: getDeployedContract("SpokePool", networkId, spokePoolSigners[networkId]) };
   });
@@ -54,31 +76,136 @@ export async function constructSpokePoolClientsWithLookback(
       clients.configStoreClient,
       obj.networkId,
       spokePoolClientSearchSettings,
-      spokePoolDeploymentBlock
+      spokePoolDeploymentBlock,
+      clients.eventCache,
+      config.finalityMargins[obj.networkId]
     );
   });
 
   return spokePoolClients;
 }
 
+// Canonical bridge adapters for each L2 spoke chain that the relayer can rebalance inventory to. The l1Signer must be
+// connected to the hub chain.
+export function constructBridgeAdapters(
+  logger: winston.Logger,
+  config: RelayerConfig,
+  l1Signer: BotSigner,
+  nonceManager?: NonceManager,
+  gasPriceClient?: GasPriceClient
+): { [chainId: number]: BaseAdapter } {
+  const adapters: { [chainId: number]: BaseAdapter } = {};
+  const adapterClasses = { 10: OptimismAdapter, 288: OptimismAdapter, 42161: ArbitrumAdapter, 137: PolygonAdapter };
+  config.spokePoolChains
+    .filter((chainId) => adapterClasses[chainId] !== undefined)
+    .forEach((chainId) => {
+      adapters[chainId] = new adapterClasses[chainId](
+        logger,
+        chainId,
+        l1Signer,
+        getProvider(chainId, config.nodeQuorumThreshold),
+        nonceManager,
+        gasPriceClient,
+        CROSS_CHAIN_TRANSFER_LOOKBACK,
+        { l1: config.maxBlockLookBack[config.hubPoolChainId], l2: config.maxBlockLookBack[chainId] }
+      );
+    });
+  return adapters;
+}
+
 export async function constructRelayerClients(logger: winston.Logger, config: RelayerConfig): Promise<RelayerClients> {
-  const baseSigner = await getSigner();
+  // The relayer signs on the hub chain, to rebalance inventory, and on every spoke chain. Its refunds are paid to the
+  // address that sent each fill, so it may use different key backends per chain but they must all hold the same key.
+  const chainIds = [...new Set([config.hubPoolChainId, ...config.spokePoolChains])];
+  const roleSigners = await constructRoleSigners(config, { relayer: chainIds });
+  const relayerSigners = roleSigners.relayer;
+  const baseSigner = relayerSigners[config.hubPoolChainId];
+  const otherAddresses = chainIds.filter((chainId) => relayerSigners[chainId].address !== baseSigner.address);
+  if (otherAddresses.length > 0)
+    throw new Error(`Relayer keys must share one address but chains ${otherAddresses} use a different one`);
+  await validateRoleSigners(logger, roleSigners);
+
+  const commonClients = await constructClients(logger, config, baseSigner);
+
+  const spokePoolClients = await constructSpokePoolClientsWithLookback(logger, commonClients, config, relayerSigners);
+
+  const tokenClient = new TokenClient(
+    logger,
+    baseSigner.address,
+    spokePoolClients,
+    commonClients.hubPoolClient,
+    commonClients.gasPriceClient
+  );
+
+  const inventoryClient = new InventoryClient(
+    logger,
+    config.inventoryConfig,
+    tokenClient,
+    commonClients.hubPoolClient,
+    config.hubPoolChainId,
+    config.rebalanceInventoryEnabled
+      ? constructBridgeAdapters(logger, config, baseSigner, commonClients.nonceManager, commonClients.gasPriceClient)
+      : {},
+    config.rebalanceDryRun
+  );
 
-  const commonClients = await constructClients(logger, config);
+  // Reuse the config store's redis client, if one is configured, to persist alert state between runs.
+  const alertClient = new AlertClient(
+    logger,
+    baseSigner.address,
+    config.alertReminderInterval,
+    commonClients.configStoreClient.redisClient
+  );
 
-  const spokePoolClients = await constructSpokePoolClientsWithLookback(logger, commonClients, config, baseSigner);
+  const pendingFillClient = new PendingFillClient(logger, spokePoolClients);
 
-  const tokenClient = new TokenClient(logger, baseSigner.address, spokePoolClients, commonClients.hubPoolClient);
+  const exposureClient = new ExposureClient(
+    logger,
+    baseSigner.address,
+    spokePoolClients,
+    commonClients.hubPoolClient,
+    pendingFillClient,
+    CHAIN_ID_LIST_INDICES,
+    config.exposureLimits
+  );
+
+  const ledgerClient = new LedgerClient(
+    logger,
+    baseSigner.address,
+    spokePoolClients,
+    commonClients.hubPoolClient,
+    commonClients.profitClient,
+    CHAIN_ID_LIST_INDICES,
+    config.ledgerFile
+  );
 
-  return { ...commonClients, tokenClient, spokePoolClients };
+  return {
+    ...commonClients,
+    roleSigners,
+    tokenClient,
+    inventoryClient,
+    alertClient,
+    pendingFillClient,
+    exposureClient,
+    ledgerClient,
+    spokePoolClients,
+  };
 }
 
 export async function updateRelayerClients(clients: RelayerClients) {
   await updateClients(clients);
   // SpokePoolClient client requires up to date HubPoolClient and ConfigStore client.
   await updateSpokePoolClients(clients.spokePoolClients);
+  // Pending fills are only released once the up to date SpokePool clients include them.
+  await clients.pendingFillClient.update();
+  // Exposure is computed from the relayer's fills and refunds seen by the SpokePool clients.
+  clients.exposureClient.update();
+  // Refunds are linked to the fills in the ledger from the relayer refund executions seen by the SpokePool clients.
+  await clients.ledgerClient.update();
   // Token client requires up to date spokePool clients to fetch token routes.
   await clients.tokenClient.update();
+  // Transfers in flight to each chain are part of its inventory allocation.
+  await clients.inventoryClient.update();
 
   // Run approval check last as needs up to date route info. If no new then returns with no async calls.
   await clients.tokenClient.setOriginTokenApprovals();
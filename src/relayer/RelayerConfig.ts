@@ -1,12 +1,108 @@
-import { CommonConfig, ProcessEnv } from "../common";
+import { CommonConfig, DEFAULT_MIN_DEPOSIT_CONFIRMATIONS, ProcessEnv } from "../common";
+import { assert, BigNumber, toBNWei } from "../utils";
+import { ExposureLimits, GasUrgency, InventoryConfig, RelayerPolicyConfig } from "../interfaces";
+import fs from "fs";
+
 export class RelayerConfig extends CommonConfig {
   readonly maxRelayerLookBack: { [chainId: number]: number };
   readonly sendingRelaysEnabled: boolean;
+  readonly inventoryConfig: InventoryConfig;
+  readonly rebalanceInventoryEnabled: boolean;
+  readonly rebalanceDryRun: boolean;
+  readonly partialFillsEnabled: boolean;
+  readonly partialFillReserve: { [l1Token: string]: string };
+  readonly alertReminderInterval: number;
+  readonly relayerPolicy: RelayerPolicyConfig;
+  readonly exposureLimits: ExposureLimits;
+  readonly ledgerFile: string | undefined;
+  readonly fillGasUrgency: GasUrgency;
+  readonly minDepositConfirmations: { [chainId: number]: { usdThreshold: BigNumber; minConfirmations: number }[] };
 
   constructor(env: ProcessEnv) {
-    const { MAX_RELAYER_DEPOSIT_LOOK_BACK, SEND_RELAYS } = env;
+    const {
+      MAX_RELAYER_DEPOSIT_LOOK_BACK,
+      SEND_RELAYS,
+      RELAYER_INVENTORY_CONFIG,
+      RELAYER_PARTIAL_FILLS,
+      RELAYER_PARTIAL_FILL_RESERVE,
+      RELAYER_ALERT_REMINDER_INTERVAL,
+      RELAYER_MIN_DEPOSIT_CONFIRMATIONS,
+      RELAYER_POLICY_FILE,
+      RELAYER_EXPOSURE_LIMITS,
+      RELAYER_LEDGER_FILE,
+      RELAYER_GAS_URGENCY,
+      RELAYER_REBALANCE_INVENTORY,
+      RELAYER_REBALANCE_DRY_RUN,
+    } = env;
     super(env);
     this.maxRelayerLookBack = MAX_RELAYER_DEPOSIT_LOOK_BACK ? JSON.parse(MAX_RELAYER_DEPOSIT_LOOK_BACK) : {};
     this.sendingRelaysEnabled = SEND_RELAYS === "true";
+
+    // If enabled, deposits that the relayer can not fully fill are partially filled with its balance on the destination
+    // chain, less a reserve keyed by L1 token in whole units of the token. For example:
+    // RELAYER_PARTIAL_FILL_RESERVE='{"0xa0b8...eb48":"1000"}' always keeps 1000 USDC on each chain.
+    this.partialFillsEnabled = RELAYER_PARTIAL_FILLS === "true";
+    this.partialFillReserve = RELAYER_PARTIAL_FILL_RESERVE ? JSON.parse(RELAYER_PARTIAL_FILL_RESERVE) : {};
+    // Seconds between reminders for shortfall and unprofitable deposit alerts that are still unresolved.
+    this.alertReminderInterval = RELAYER_ALERT_REMINDER_INTERVAL ? Number(RELAYER_ALERT_REMINDER_INTERVAL) : 3600;
+
+    // Allow and deny lists by chain, token and address, and deposit size limits per route. See RelayerPolicyConfig for
+    // the format of the JSON file.
+    this.relayerPolicy = RELAYER_POLICY_FILE ? JSON.parse(fs.readFileSync(RELAYER_POLICY_FILE, "utf8")) : {};
+
+    // Caps on capital sent in fills and not yet refunded, keyed by L1 token and in whole units of the token. For example:
+    // RELAYER_EXPOSURE_LIMITS='{"0xa0b8...eb48":{"maxExposure":"500000","destinationChains":{"10":"100000"},"repaymentChains":{"1":"400000"}}}'
+    this.exposureLimits = RELAYER_EXPOSURE_LIMITS ? JSON.parse(RELAYER_EXPOSURE_LIMITS) : {};
+
+    // JSON file that the relayer's fills and their refunds are recorded to. If unset the ledger is only kept in memory.
+    this.ledgerFile = RELAYER_LEDGER_FILE;
+
+    // Urgency that fills are priced with by each chain's gas price policy. One of low, normal or high.
+    this.fillGasUrgency = (RELAYER_GAS_URGENCY ?? "normal") as GasUrgency;
+    assert(
+      ["low", "normal", "high"].includes(this.fillGasUrgency),
+      `Unknown RELAYER_GAS_URGENCY ${RELAYER_GAS_URGENCY}`
+    );
+
+    // Confirmations a deposit needs on its origin chain before it is filled. Either a number per chain, or a list of
+    // tiers by deposit size in USD where the largest tier the deposit reaches applies. For example:
+    // RELAYER_MIN_DEPOSIT_CONFIRMATIONS='{"1":2,"137":[{"usdThreshold":"0","minConfirmations":64},{"usdThreshold":"10000","minConfirmations":128}]}'
+    const minDepositConfirmations = RELAYER_MIN_DEPOSIT_CONFIRMATIONS
+      ? JSON.parse(RELAYER_MIN_DEPOSIT_CONFIRMATIONS)
+      : DEFAULT_MIN_DEPOSIT_CONFIRMATIONS;
+    this.minDepositConfirmations = {};
+    Object.keys(minDepositConfirmations).forEach((chainId) => {
+      const tiers =
+        typeof minDepositConfirmations[chainId] === "number"
+          ? [{ usdThreshold: 0, minConfirmations: minDepositConfirmations[chainId] }]
+          : minDepositConfirmations[chainId];
+      this.minDepositConfirmations[chainId] = tiers.map(({ usdThreshold, minConfirmations }) => {
+        assert(Number.isInteger(minConfirmations) && minConfirmations >= 0, `Bad minConfirmations for ${chainId}`);
+        return { usdThreshold: toBNWei(String(usdThreshold)), minConfirmations };
+      });
+    });
+
+    // Inventory config is keyed by L1 token and then by chain ID. For example:
+    // RELAYER_INVENTORY_CONFIG='{"0xa0b8...eb48":{"10":{"targetPct":"0.2","thresholdPct":"0.1"},"42161":{"targetPct":"0.2"}}}'
+    const inventoryConfig = RELAYER_INVENTORY_CONFIG ? JSON.parse(RELAYER_INVENTORY_CONFIG) : {};
+    this.inventoryConfig = { tokenConfig: {} };
+    Object.keys(inventoryConfig).forEach((l1Token) => {
+      this.inventoryConfig.tokenConfig[l1Token] = {};
+      Object.keys(inventoryConfig[l1Token]).forEach((chainId) => {
+        const targetPct = toBNWei(inventoryConfig[l1Token][chainId].targetPct);
+        assert(targetPct.gte(0) && targetPct.lte(toBNWei(1)), `Bad targetPct for ${l1Token} on ${chainId}`);
+        this.inventoryConfig.tokenConfig[l1Token][chainId] = { targetPct };
+        if (inventoryConfig[l1Token][chainId].thresholdPct === undefined) return;
+        const thresholdPct = toBNWei(inventoryConfig[l1Token][chainId].thresholdPct);
+        assert(thresholdPct.gte(0) && thresholdPct.lte(targetPct), `Bad thresholdPct for ${l1Token} on ${chainId}`);
+        this.inventoryConfig.tokenConfig[l1Token][chainId].thresholdPct = thresholdPct;
+      });
+    });
+
+    // If enabled, chains whose inventory allocation falls below their thresholdPct are topped up from L1 over the
+    // canonical bridges. In dry run mode the planned transfers are only logged, which is always the case when relays
+    // are not being sent.
+    this.rebalanceInventoryEnabled = RELAYER_REBALANCE_INVENTORY === "true";
+    this.rebalanceDryRun = RELAYER_REBALANCE_DRY_RUN === "true" || !this.sendingRelaysEnabled;
   }
 }
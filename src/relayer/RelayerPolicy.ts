@@ -0,0 +1,46 @@
+import { toBN, utils } from "../utils";
+import { Deposit, PolicyList, RelayerPolicyConfig } from "../interfaces";
+
+// Decides which deposits the relayer is willing to fill, independent of their balance and profitability. Each check
+// returns a description of the rule that rejected the deposit so that ops can explain every skipped fill. Addresses
+// are matched case-insensitively.
+export class RelayerPolicy {
+  constructor(readonly policy: RelayerPolicyConfig = {}) {}
+
+  // Returns the rule that rejects the deposit, or undefined if the policy allows it. l1Token and decimals describe the
+  // deposit's token on the hub chain.
+  getRejectionRule(deposit: Deposit, l1Token: string, decimals: number): string | undefined {
+    const { originChainId, destinationChainId, depositor, recipient, amount } = deposit;
+    const listRule =
+      this.checkList("originChainIds", this.policy.originChainIds, originChainId) ??
+      this.checkList("destinationChainIds", this.policy.destinationChainIds, destinationChainId) ??
+      this.checkList("l1Tokens", this.policy.l1Tokens, l1Token) ??
+      this.checkList("depositors", this.policy.depositors, depositor) ??
+      this.checkList("recipients", this.policy.recipients, recipient);
+    if (listRule !== undefined) return listRule;
+
+    const limits = this.findRouteSizeLimits(originChainId, destinationChainId, l1Token);
+    if (limits === undefined) return undefined;
+    const route = `routeSizeLimits ${originChainId}->${destinationChainId} for ${l1Token}`;
+    if (limits.minAmount !== undefined && toBN(amount).lt(utils.parseUnits(limits.minAmount, decimals)))
+      return `${route}: amount below minAmount ${limits.minAmount}`;
+    if (limits.maxAmount !== undefined && toBN(amount).gt(utils.parseUnits(limits.maxAmount, decimals)))
+      return `${route}: amount above maxAmount ${limits.maxAmount}`;
+    return undefined;
+  }
+
+  private checkList<T extends number | string>(name: string, list: PolicyList<T> | undefined, value: T) {
+    if (list === undefined) return undefined;
+    const includes = (values: T[]) =>
+      values.some((listed) => String(listed).toLowerCase() === String(value).toLowerCase());
+    if (list.deny !== undefined && includes(list.deny)) return `${name} denylist contains ${value}`;
+    if (list.allow !== undefined && !includes(list.allow)) return `${name} allowlist does not contain ${value}`;
+    return undefined;
+  }
+
+  private findRouteSizeLimits(originChainId: number, destinationChainId: number, l1Token: string) {
+    const tokenLimits = this.policy.routeSizeLimits?.[originChainId]?.[destinationChainId] ?? {};
+    const key = Object.keys(tokenLimits).find((token) => token.toLowerCase() === l1Token.toLowerCase());
+    return key !== undefined ? tokenLimits[key] : undefined;
+  }
+}
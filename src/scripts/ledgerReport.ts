@@ -0,0 +1,36 @@
+// How to run:
+// 1. Set the ledger file that the relayer records its fills to:
+//    RELAYER_LEDGER_FILE=./ledger.json
+// 2. Optionally set the report window as unix timestamps. Defaults to the 7 days up to now:
+//    FROM_TIME=1656633600
+//    TO_TIME=1657238400
+// 3. Example: RELAYER_LEDGER_FILE=./ledger.json ts-node ./src/scripts/ledgerReport.ts
+
+import { winston, config, Logger, getCurrentTime } from "../utils";
+import { loadLedger, summarizeLedger } from "../clients";
+
+config();
+
+export async function run(logger: winston.Logger) {
+  if (!process.env.RELAYER_LEDGER_FILE)
+    throw new Error("Must set environment variable 'RELAYER_LEDGER_FILE=<PATH>' to the relayer's ledger file");
+  const toTime = process.env.TO_TIME ? Number(process.env.TO_TIME) : getCurrentTime();
+  const fromTime = process.env.FROM_TIME ? Number(process.env.FROM_TIME) : toTime - 7 * 24 * 60 * 60;
+
+  const { entries } = loadLedger(process.env.RELAYER_LEDGER_FILE);
+  const report = summarizeLedger(entries, fromTime, toTime);
+  logger.info({ at: "LedgerReport", message: `Relayer PnL from ${fromTime} to ${toTime} 📒`, report });
+}
+
+if (require.main === module) {
+  run(Logger)
+    .then(() => {
+      // eslint-disable-next-line no-process-exit
+      process.exit(0);
+    })
+    .catch((error) => {
+      Logger.error({ at: "LedgerReport", message: "There was an error generating the report!", error });
+      // eslint-disable-next-line no-process-exit
+      process.exit(1);
+    });
+}
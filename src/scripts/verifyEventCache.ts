@@ -0,0 +1,64 @@
+// How to run:
+// 1. Use the same event cache settings as the bots. The cache is read from redis if REDIS_URL is set, otherwise from
+//    EVENT_CACHE_DIR:
+//    EVENT_CACHE_DIR=./event-cache
+// 2. Optionally set the number of ranges to re-fetch from each cached event and their size in blocks:
+//    VERIFY_SAMPLES=3
+//    VERIFY_RANGE_SIZE=10000
+// 3. Example: EVENT_CACHE_DIR=./event-cache ts-node ./src/scripts/verifyEventCache.ts
+// Cached events of the HubPool, the AcrossConfigStore and each configured chain's current SpokePool are verified.
+
+import { winston, config, Logger, getDeployedContract, getProvider, getNetworkName } from "../utils";
+import { CommonConfig, constructEventCache } from "../common";
+import { EventCacheMismatch } from "../clients";
+import { createClient } from "redis4";
+
+config();
+
+export async function run(logger: winston.Logger) {
+  const botConfig = new CommonConfig(process.env);
+  const samples = Number(process.env.VERIFY_SAMPLES ?? 3);
+  const rangeSize = Number(process.env.VERIFY_RANGE_SIZE ?? 10000);
+
+  let redisClient: ReturnType<typeof createClient> | undefined;
+  if (botConfig.redisUrl) {
+    redisClient = createClient({ url: botConfig.redisUrl });
+    await redisClient.connect();
+  }
+  const eventCache = constructEventCache(logger, botConfig, redisClient);
+
+  const contracts = [
+    { name: "HubPool", chainId: botConfig.hubPoolChainId },
+    { name: "AcrossConfigStore", chainId: botConfig.hubPoolChainId },
+    ...botConfig.spokePoolChains.map((chainId) => ({ name: "SpokePool", chainId })),
+  ];
+  const mismatches: EventCacheMismatch[] = [];
+  for (const { name, chainId } of contracts) {
+    const contract = getDeployedContract(name, chainId).connect(getProvider(chainId, botConfig.nodeQuorumThreshold));
+    // Ranges are kept within the chain's max block look back, so that each one is re-fetched in a single query.
+    const maxBlockLookBack = botConfig.maxBlockLookBack[chainId];
+    const contractRangeSize = maxBlockLookBack ? Math.min(rangeSize, maxBlockLookBack) : rangeSize;
+    mismatches.push(...(await eventCache.verify(contract, samples, contractRangeSize)));
+  }
+  await redisClient?.quit();
+
+  if (mismatches.length > 0) {
+    logger.error({ at: "VerifyEventCache", message: "Cached events differ from the chain's events 🚨", mismatches });
+    return false;
+  }
+  logger.info({ at: "VerifyEventCache", message: "Cached events match the chain's events ✅", samples, rangeSize });
+  return true;
+}
+
+if (require.main === module) {
+  run(Logger)
+    .then((verified) => {
+      // eslint-disable-next-line no-process-exit
+      process.exit(verified ? 0 : 1);
+    })
+    .catch((error) => {
+      Logger.error({ at: "VerifyEventCache", message: "There was an error verifying the event cache!", error });
+      // eslint-disable-next-line no-process-exit
+      process.exit(1);
+    });
+}
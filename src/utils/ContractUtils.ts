@@ -1,9 +1,9 @@
-import { getNetworkName, Contract, Wallet, getDeployedAddress, getDeployedBlockNumber } from ".";
+import { getNetworkName, Contract, BotSigner, getDeployedAddress, getDeployedBlockNumber } from ".";
 
 import * as typechain from "@across-protocol/contracts-v2"; //TODO: refactor once we've fixed export from contract repo
 
 // Return an ethers contract instance for a deployed contract, imported from the Across-protocol contracts repo.
-export function getDeployedContract(contractName: string, networkId: number, signer?: Wallet): Contract {
+export function getDeployedContract(contractName: string, networkId: number, signer?: BotSigner): Contract {
   try {
     const address = getDeployedAddress(contractName, networkId);
     // If the contractName is SpokePool then we need to modify it to find the correct contract factory artifact.
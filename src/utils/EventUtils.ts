@@ -1,10 +1,27 @@
 import { delay } from "@uma/financial-templates-lib";
 import { SortableEvent } from "../interfaces";
-import { Contract, Event, EventFilter, Promise } from "./";
+import { Contract, Event, EventFilter, Promise, winston } from "./";
 
 const defaultConcurrency = 200;
 const maxRetries = 3;
-const retrySleepTime = 10;
+const retrySleepTime = 1; // Seconds before the first retry of a window. Doubles on each further retry.
+const windowGrowthThreshold = 10; // Consecutive successful windows on a chain before its window size is doubled.
+// Errors that providers return when a query's range holds too many results or takes too long to serve.
+const rangeErrorPattern = new RegExp(
+  [
+    "more than \\d+ results",
+    "too many (results|logs)",
+    "response size",
+    "range (is )?too (large|wide)",
+    "maximum block range",
+    "limit exceeded",
+    "timed? ?out",
+    "-32005",
+  ].join("|"),
+  "i"
+);
+// Keyed by chain and max block look back, as queries with different look backs on a chain are split differently.
+const eventQueryStats: { [key: string]: EventQueryStats } = {};
 
 export function spreadEvent(event: Event) {
   const keys = Object.keys(event.args).filter((key: string) => isNaN(+key)); // Extract non-numeric keys.
@@ -25,33 +42,107 @@ export function spreadEvent(event: Event) {
   return returnedObject;
 }
 
-export async function paginatedEventQuery(contract: Contract, filter: EventFilter, searchConfig: EventSearchConfig) {
-  let retryCounter = 0;
-  // If the max block look back is set to 0 then we dont need to do any pagination and can query over the whole range.
-  if (searchConfig.maxBlockLookBack === 0)
-    return await contract.queryFilter(filter, searchConfig.fromBlock, searchConfig.toBlock);
-
-  // Compute the number of queries needed. If there is no maxBlockLookBack set then we can execute the whole query in
-  // one go. Else, the number of queries is the range over which we are searching, divided by the maxBlockLookBack,
-  // rounded up. This gives us the number of queries we need to execute to traverse the whole block range.
-  let numberOfQueries = 1;
-  if (!searchConfig.maxBlockLookBack) searchConfig.maxBlockLookBack = searchConfig.toBlock - searchConfig.fromBlock;
-  else numberOfQueries = Math.ceil((searchConfig.toBlock - searchConfig.fromBlock) / searchConfig.maxBlockLookBack);
-  const promises = [];
-  for (let i = 0; i < numberOfQueries; i++) {
-    const fromBlock = searchConfig.fromBlock + i * searchConfig.maxBlockLookBack;
-    const toBlock = Math.min(searchConfig.fromBlock + (i + 1) * searchConfig.maxBlockLookBack, searchConfig.toBlock);
-    promises.push(contract.queryFilter(filter, fromBlock, toBlock));
-  }
-
-  try {
-    return (await Promise.all(promises, { concurrency: searchConfig.concurrency | defaultConcurrency })).flat(); // Default to 200 concurrent calls.
-  } catch (error) {
-    if (retryCounter++ < maxRetries) {
-      await delay(retrySleepTime);
-      return await paginatedEventQuery(contract, filter, searchConfig);
-    } else throw error;
-  }
+// Event queries over a block range are split into windows of at most maxBlockLookBack blocks, or sent as one query over
+// the whole range if maxBlockLookBack is 0. Providers cap the number of results, the response size or the time that a
+// query can take. A window that fails for one of these reasons is split in half and each half is retried, and the
+// window size of the chain and look back shrinks so that later windows fit. It grows back, up to maxBlockLookBack,
+// after a run of successful windows. Windows that succeed are never fetched again. Other errors are retried with
+// exponential backoff up to maxRetries times per window.
+export async function paginatedEventQuery(
+  contract: Contract,
+  filter: EventFilter,
+  searchConfig: EventSearchConfig,
+  logger?: winston.Logger
+) {
+  const { chainId } = await contract.provider.getNetwork();
+  const fromBlock = searchConfig.fromBlock;
+  const toBlock = searchConfig.toBlock ?? (await contract.provider.getBlockNumber());
+  // If the max block look back is 0 or unset then try to query over the whole range in one go.
+  const maxBlockLookBack = searchConfig.maxBlockLookBack || Infinity;
+  const statsKey = getEventQueryStatsKey(chainId, searchConfig.maxBlockLookBack);
+  const stats = (eventQueryStats[statsKey] = eventQueryStats[statsKey] ?? {
+    queries: 0,
+    splits: 0,
+    retries: 0,
+    consecutiveSuccesses: 0,
+  });
+  const { splits, retries } = stats;
+
+  const queryWindow = async (from: number, to: number, attempt = 0) => {
+    try {
+      stats.queries++;
+      const events: Event[] = await contract.queryFilter(filter, from, to);
+      const shrunk = stats.windowSize !== undefined && stats.windowSize < maxBlockLookBack;
+      if (++stats.consecutiveSuccesses >= windowGrowthThreshold && shrunk) {
+        stats.windowSize = Math.min(stats.windowSize * 2, maxBlockLookBack);
+        stats.consecutiveSuccesses = 0;
+      }
+      return events;
+    } catch (error) {
+      stats.consecutiveSuccesses = 0;
+      if (isRangeError(error) && to > from) {
+        stats.splits++;
+        const middle = from + Math.floor((to - from) / 2);
+        stats.windowSize = Math.min(stats.windowSize ?? Infinity, middle - from + 1);
+        const halves: Event[][] = await Promise.all([queryWindow(from, middle), queryWindow(middle + 1, to)]);
+        return halves.flat();
+      }
+      if (attempt >= maxRetries) throw error;
+      stats.retries++;
+      await delay(retrySleepTime * 2 ** attempt);
+      return await queryWindow(from, to, attempt + 1);
+    }
+  };
+
+  // Windows do not overlap, so that events on a window's boundary block are not returned twice.
+  const windows: [number, number][] = [];
+  const windowSize = Math.min(stats.windowSize ?? Infinity, maxBlockLookBack);
+  for (let from = fromBlock; from <= toBlock; from += windowSize)
+    windows.push([from, Math.min(from + windowSize - 1, toBlock)]);
+  const events = (
+    await Promise.map(windows, ([from, to]) => queryWindow(from, to), {
+      concurrency: searchConfig.concurrency ?? defaultConcurrency,
+    })
+  ).flat();
+
+  if (stats.splits > splits || stats.retries > retries)
+    logger?.debug({
+      at: "EventUtils",
+      message: `Adapted event query windows on chain ${chainId}`,
+      contract: contract.address,
+      fromBlock,
+      toBlock,
+      maxBlockLookBack: searchConfig.maxBlockLookBack,
+      splits: stats.splits - splits,
+      retries: stats.retries - retries,
+      chainStats: getEventQueryStats(chainId, searchConfig.maxBlockLookBack),
+    });
+  return events;
+}
+
+// Running totals of the event queries sent on a chain with a max block look back, and the window size that queries are
+// currently split into. If a chain's window size stays well below its maxBlockLookBack then its
+// CHAIN_MAX_BLOCK_LOOKBACK should be lowered.
+export function getEventQueryStats(chainId: number, maxBlockLookBack = 0): EventQueryStats | undefined {
+  const stats = eventQueryStats[getEventQueryStatsKey(chainId, maxBlockLookBack)];
+  return stats ? { ...stats } : undefined;
+}
+
+function getEventQueryStatsKey(chainId: number, maxBlockLookBack: number | undefined): string {
+  return `${chainId}_${maxBlockLookBack || 0}`;
+}
+
+function isRangeError(error: any): boolean {
+  const message = [error?.message, error?.error?.message, error?.body].filter((part) => part !== undefined).join(" ");
+  return rangeErrorPattern.test(message);
+}
+
+export interface EventQueryStats {
+  windowSize?: number; // Unset until a range error shrinks the windows below maxBlockLookBack.
+  queries: number;
+  splits: number;
+  retries: number;
+  consecutiveSuccesses: number;
 }
 
 export interface EventSearchConfig {
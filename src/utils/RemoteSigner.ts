@@ -0,0 +1,55 @@
+import { ethers, utils } from "ethers";
+
+// Delegates signing to an external JSON-RPC signer, such as web3signer or clef, that holds the key for address. The
+// signer only signs; transactions are populated and sent through the connected provider like any other signer.
+export class RemoteSigner extends ethers.Signer {
+  private requestId = 0;
+
+  constructor(readonly url: string, readonly address: string, provider?: ethers.providers.Provider) {
+    super();
+    utils.defineReadOnly(this, "provider", provider);
+  }
+
+  // Uses the first account that the remote signer holds if no address is given.
+  static async create(url: string, address?: string): Promise<RemoteSigner> {
+    if (address) return new RemoteSigner(url, utils.getAddress(address));
+    const accounts: string[] = await new RemoteSigner(url, ethers.constants.AddressZero).request("eth_accounts", []);
+    if (accounts.length === 0) throw new Error(`Remote signer at ${url} holds no accounts`);
+    return new RemoteSigner(url, utils.getAddress(accounts[0]));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+
+  async signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+    const tx = await utils.resolveProperties(transaction);
+    if (tx.from !== undefined && utils.getAddress(tx.from) !== this.address)
+      throw new Error(`Transaction from ${tx.from} can not be signed by the remote signer for ${this.address}`);
+    const request = {
+      ...ethers.providers.JsonRpcProvider.hexlifyTransaction(tx),
+      from: this.address,
+      // Remote signers need the chain ID to sign replay protected transactions. ethers does not hexlify it.
+      ...(tx.chainId !== undefined ? { chainId: utils.hexValue(tx.chainId) } : {}),
+    };
+    const result = await this.request("eth_signTransaction", [request]);
+    // Clef returns the raw transaction along with its decoded fields. Web3signer returns only the raw transaction.
+    return typeof result === "string" ? result : result.raw;
+  }
+
+  async signMessage(message: string | utils.Bytes): Promise<string> {
+    const data = typeof message === "string" ? utils.toUtf8Bytes(message) : message;
+    return await this.request("eth_sign", [this.address, utils.hexlify(data)]);
+  }
+
+  private async request(method: string, params: unknown[]) {
+    const payload = { jsonrpc: "2.0", id: this.requestId++, method, params };
+    const response = await utils.fetchJson(this.url, JSON.stringify(payload));
+    if (response.error) throw new Error(`Remote signer ${method} failed: ${response.error.message}`);
+    return response.result;
+  }
+}
@@ -1,25 +1,68 @@
-import { Wallet, retrieveGckmsKeys, getGckmsConfig } from "./";
+import { Wallet, RemoteSigner, retrieveGckmsKeys, getGckmsConfig } from "./";
+import { SignerReference } from "../interfaces";
+import fs from "fs";
 const args = require("minimist")(process.argv.slice(2));
 
-export async function getSigner(): Promise<Wallet> {
-  if (!Object.keys(args).includes("wallet")) throw new Error("Must define mnemonic, privatekey or gckms for wallet");
-  if (args.wallet == "mnemonic") return getMnemonicSigner();
-  if (args.wallet == "privateKey") return getPrivateKeySigner();
-  if (args.wallet == "gckms") return await getGckmsSigner();
+// Signers that getSigner can return. All of them expose their address and can be connected to each chain's provider.
+export type BotSigner = Wallet | RemoteSigner;
+
+export async function getSigner(): Promise<BotSigner> {
+  if (!Object.keys(args).includes("wallet"))
+    throw new Error("Must define mnemonic, privateKey, gckms, keystore or remote for wallet");
+  return await getSignerFromReference({ wallet: args.wallet, keys: args.keys });
+}
+
+export async function getSignerFromReference(reference: SignerReference): Promise<BotSigner> {
+  const { wallet } = reference;
+  if (wallet == "mnemonic") return getMnemonicSigner(reference.mnemonicEnv);
+  if (wallet == "privateKey") return getPrivateKeySigner(reference.privateKeyEnv);
+  if (wallet == "gckms") return await getGckmsSigner(reference.keys);
+  if (wallet == "keystore")
+    return await getKeystoreSigner(reference.keystoreFile, reference.passwordFile, reference.passwordEnv);
+  if (wallet == "remote") return await getRemoteSigner(reference.url, reference.address);
+  throw new Error(`Unknown wallet ${wallet}`);
 }
 
-function getPrivateKeySigner() {
-  if (!process.env.PRIVATE_KEY) throw new Error(`Wallet private key selected but no PRIVATE_KEY env set!`);
-  return new Wallet(process.env.PRIVATE_KEY);
+function getPrivateKeySigner(privateKeyEnv = "PRIVATE_KEY") {
+  if (!process.env[privateKeyEnv]) throw new Error(`Wallet private key selected but no ${privateKeyEnv} env set!`);
+  return new Wallet(process.env[privateKeyEnv]);
 }
 
-async function getGckmsSigner() {
-  if (!args.keys) throw new Error(`Wallet GCKSM selected but no keys parameter set! Set GCKMS key to use`);
-  const privateKeys = await retrieveGckmsKeys(getGckmsConfig([args.keys]));
+async function getGckmsSigner(keys: string) {
+  if (!keys) throw new Error(`Wallet GCKSM selected but no keys parameter set! Set GCKMS key to use`);
+  const privateKeys = await retrieveGckmsKeys(getGckmsConfig([keys]));
   return new Wallet(privateKeys[0]); // GCKMS retrieveGckmsKeys returns multiple keys. For now we only support 1.
 }
 
-function getMnemonicSigner() {
-  if (!process.env.MNEMONIC) throw new Error(`Wallet mnemonic selected but no MNEMONIC env set!`);
-  return Wallet.fromMnemonic(process.env.MNEMONIC);
+function getMnemonicSigner(mnemonicEnv = "MNEMONIC") {
+  if (!process.env[mnemonicEnv]) throw new Error(`Wallet mnemonic selected but no ${mnemonicEnv} env set!`);
+  return Wallet.fromMnemonic(process.env[mnemonicEnv]);
+}
+
+// Decrypts a standard Ethereum JSON keystore. The password is read from KEYSTORE_PASSWORD_FILE if set, otherwise from
+// KEYSTORE_PASSWORD, so that it does not have to be kept in the environment.
+async function getKeystoreSigner(
+  keystoreFile = process.env.KEYSTORE_FILE,
+  passwordFile = process.env.KEYSTORE_PASSWORD_FILE,
+  passwordEnv = "KEYSTORE_PASSWORD"
+) {
+  if (!keystoreFile) throw new Error(`Wallet keystore selected but no KEYSTORE_FILE env set!`);
+  const password = passwordFile ? fs.readFileSync(passwordFile, "utf8").trim() : process.env[passwordEnv];
+  if (password === undefined)
+    throw new Error(`Wallet keystore selected but neither a password file nor ${passwordEnv} env set!`);
+  return await decryptKeystore(fs.readFileSync(keystoreFile, "utf8"), password);
+}
+
+export async function decryptKeystore(keystore: string, password: string): Promise<Wallet> {
+  return await Wallet.fromEncryptedJson(keystore, password);
+}
+
+// Signs with an external JSON-RPC signer at REMOTE_SIGNER_URL. REMOTE_SIGNER_ADDRESS picks the account to sign with if
+// the remote signer holds more than one.
+async function getRemoteSigner(
+  url = process.env.REMOTE_SIGNER_URL,
+  address: string | undefined = process.env.REMOTE_SIGNER_ADDRESS
+) {
+  if (!url) throw new Error(`Wallet remote selected but no REMOTE_SIGNER_URL env set!`);
+  return await RemoteSigner.create(url, address);
 }
@@ -18,3 +18,29 @@ export function buildFillRelayProps(deposit: Deposit, repaymentChainId: number,
     deposit.depositId,
   ];
 }
+
+export function buildFillRelayWithUpdatedFeeProps(
+  deposit: Deposit,
+  repaymentChainId: number,
+  maxFillAmount: BigNumber
+) {
+  // Validate all keys are present.
+  for (const key in deposit)
+    if (deposit[key] == undefined) throw new Error(`Missing or undefined value in props! ${key}`);
+  if (!deposit.speedUpSignature || !deposit.newRelayerFeePct) throw new Error("Deposit has not been sped up!");
+
+  return [
+    deposit.depositor,
+    deposit.recipient,
+    deposit.destinationToken,
+    deposit.amount,
+    maxFillAmount,
+    repaymentChainId,
+    deposit.originChainId,
+    deposit.realizedLpFeePct,
+    deposit.relayerFeePct,
+    deposit.newRelayerFeePct,
+    deposit.depositId,
+    deposit.speedUpSignature,
+  ];
+}
@@ -1,37 +1,68 @@
-import { AugmentedTransaction } from "../clients";
-import { winston, Contract, getContractInfoFromAddress, fetch, ethers, toBNWei } from "../utils";
+import { AugmentedTransaction, GasPriceClient, NonceManager } from "../clients";
+import { GasFees, GasUrgency } from "../interfaces";
+import {
+  winston,
+  Contract,
+  getContractInfoFromAddress,
+  ethers,
+  BigNumber,
+  toBN,
+  getNetworkName,
+  Logger,
+} from "../utils";
 
 // Note that this function will throw if the call to the contract on method for given args reverts. Implementers
 // of this method should be considerate of this and catch the response to deal with the error accordingly.
-export async function runTransaction(logger: winston.Logger, contract: Contract, method: string, args: any) {
+// The optional value is the amount of native token sent with the call, for payable methods. If a nonce manager is
+// provided then it assigns the nonce and tracks the transaction so that it can be replaced if it gets stuck. Fees
+// default to those of the gas price client's policy for the chain, see getGasPrice.
+export async function runTransaction(
+  logger: winston.Logger,
+  contract: Contract,
+  method: string,
+  args: any,
+  value: BigNumber = toBN(0),
+  nonceManager?: NonceManager,
+  fees?: GasFees,
+  gasPriceClient?: GasPriceClient
+) {
   try {
-    const gas = await getGasPrice(contract.provider);
-    logger.debug({ at: "TxUtil", message: "sending tx", target: getTarget(contract.address), method, args, gas });
-    return await contract[method](...args, gas);
+    const gas = fees ?? (await getGasPrice(contract.provider, gasPriceClient));
+    const nonce = nonceManager ? await nonceManager.getNonce(contract.signer) : undefined;
+    logger.debug({
+      at: "TxUtil",
+      message: "sending tx",
+      target: getTarget(contract.address),
+      method,
+      args,
+      gas,
+      value,
+      nonce,
+    });
+    const overrides = { ...gas, ...(value.gt(0) ? { value } : {}), ...(nonce !== undefined ? { nonce } : {}) };
+    const transaction = await contract[method](...args, overrides);
+    await nonceManager?.trackTransaction(contract.signer, transaction);
+    return transaction;
   } catch (error) {
+    // The nonce might not have been used, so count from the node's pending transaction count again.
+    await nonceManager?.resetNonce(contract.signer);
     logger.error({ at: "TxUtil", message: "Error executing tx", error, notificationPath: "across-error" });
     console.log(error);
     throw new Error(error.reason); // Extract the reason from the transaction error and throw it.
   }
 }
 
-// TODO: add in gasPrice when the SDK has this for the given chainId. TODO: improve how we fetch prices.
-// For now this method will extract the provider's Fee data from the associated network and scale it by a priority
-// scaler. This works on both mainnet and L2's by the utility switching the response structure accordingly.
-export async function getGasPrice(provider: ethers.providers.Provider, priorityScaler = 1.2, maxFeePerGasScaler = 3) {
-  const [feeData, chainInfo] = await Promise.all([provider.getFeeData(), provider.getNetwork()]);
-  if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-    // Polygon, for some or other reason, does not correctly return an appropriate maxPriorityFeePerGas. Set the
-    // maxPriorityFeePerGas to the maxFeePerGas * 5 for now as a temp workaround.
-    if (chainInfo.chainId === 137)
-      feeData.maxPriorityFeePerGas = ethers.utils.parseUnits((await getPolygonPriorityFee()).fastest.toString(), 9);
-    if (feeData.maxPriorityFeePerGas.gt(feeData.maxFeePerGas))
-      feeData.maxFeePerGas = scaleByNumber(feeData.maxPriorityFeePerGas, 1.5);
-    return {
-      maxFeePerGas: scaleByNumber(feeData.maxFeePerGas, priorityScaler * maxFeePerGasScaler), // scale up the maxFeePerGas. Any extra paid on this is refunded.
-      maxPriorityFeePerGas: scaleByNumber(feeData.maxPriorityFeePerGas, priorityScaler),
-    };
-  } else return { gasPrice: scaleByNumber(feeData.gasPrice, priorityScaler) };
+// Fees to send a transaction with on the provider's chain, by the gas price client's policy for the chain. Without a
+// client the default policy is applied to the provider's fee data. Throws if the policy says not to send.
+export async function getGasPrice(
+  provider: ethers.providers.Provider,
+  gasPriceClient: GasPriceClient = new GasPriceClient(Logger),
+  urgency: GasUrgency = "normal"
+): Promise<GasFees> {
+  const { chainId } = await provider.getNetwork();
+  const fees = await gasPriceClient.getGasPrice(chainId, provider, urgency);
+  if (fees === undefined) throw new Error(`Fees on ${getNetworkName(chainId)} are above the gas price ceiling`);
+  return fees;
 }
 
 export async function willSucceed(
@@ -53,19 +84,3 @@ export function getTarget(targetAddress: string) {
     return { targetAddress };
   }
 }
-
-async function getPolygonPriorityFee(): Promise<{
-  safeLow: number;
-  standard: number;
-  fast: number;
-  fastest: number;
-  blockTime: number;
-  blockNumber: number;
-}> {
-  const res = await fetch("https://gasstation-mainnet.matic.network");
-  return await res.json();
-}
-
-function scaleByNumber(amount: ethers.BigNumber, scaling: number) {
-  return amount.mul(toBNWei(scaling)).div(toBNWei("1"));
-}
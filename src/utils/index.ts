@@ -15,6 +15,7 @@ export { Promise } from "bluebird";
 // Utils specifically for this bot.
 export * from "./ProviderUtils";
 export * from "./SignerUtils";
+export * from "./RemoteSigner";
 export * from "./EventUtils";
 export * from "./ObjectUtils";
 export * from "./FormattingUtils";
@@ -0,0 +1,76 @@
+import { expect, createSpyLogger, randomAddress, winston } from "./utils";
+
+import { AlertClient, AlertRedisClient } from "../src/clients"; // Tested
+
+let spyLogger: winston.Logger;
+
+const relayer = randomAddress();
+
+// In memory stand in for the subset of the redis client used to persist alert state.
+class MockRedisClient implements AlertRedisClient {
+  private store: { [key: string]: string } = {};
+  async get(key: string): Promise<string | null> {
+    return this.store[key] ?? null;
+  }
+  async set(key: string, value: string): Promise<string> {
+    this.store[key] = value;
+    return "OK";
+  }
+  keys(): string[] {
+    return Object.keys(this.store);
+  }
+}
+
+describe("AlertClient", async function () {
+  beforeEach(async function () {
+    ({ spyLogger } = createSpyLogger());
+  });
+
+  it("Alerts once when a condition opens and again when it resolves", async function () {
+    const alertClient = new AlertClient(spyLogger, relayer, 3600);
+    expect(await alertClient.updateAlerts("shortfall", { a: "Token A" })).to.deep.equal({
+      opened: ["a"],
+      reminders: [],
+      resolved: {},
+    });
+
+    // The condition is still open and not due a reminder, so there is nothing new to alert on.
+    expect(await alertClient.updateAlerts("shortfall", { a: "Token A", b: "Token B" })).to.deep.equal({
+      opened: ["b"],
+      reminders: [],
+      resolved: {},
+    });
+
+    expect(await alertClient.updateAlerts("shortfall", { b: "Token B" })).to.deep.equal({
+      opened: [],
+      reminders: [],
+      resolved: { a: "Token A" },
+    });
+    expect(Object.keys(alertClient.getOpenAlerts("shortfall"))).to.deep.equal(["b"]);
+
+    // Categories are tracked independently.
+    expect(Object.keys(alertClient.getOpenAlerts("unprofitable"))).to.deep.equal([]);
+  });
+
+  it("Reminds about conditions that stay open", async function () {
+    const alertClient = new AlertClient(spyLogger, relayer, 0);
+    await alertClient.updateAlerts("shortfall", { a: "Token A" });
+    expect((await alertClient.updateAlerts("shortfall", { a: "Token A" })).reminders).to.deep.equal(["a"]);
+  });
+
+  it("Persists alert state to redis", async function () {
+    const redisClient = new MockRedisClient();
+    await new AlertClient(spyLogger, relayer, 3600, redisClient).updateAlerts("shortfall", { a: "Token A" });
+    expect(redisClient.keys()).to.deep.equal([`alerts_${relayer}_shortfall`]);
+
+    // A new client, such as after a restart of the bot, does not alert again on the open condition.
+    const restartedAlertClient = new AlertClient(spyLogger, relayer, 3600, redisClient);
+    expect((await restartedAlertClient.updateAlerts("shortfall", { a: "Token A" })).opened).to.deep.equal([]);
+
+    // Another relayer sharing the redis instance tracks its own alerts.
+    const otherAlertClient = new AlertClient(spyLogger, randomAddress(), 3600, redisClient);
+    expect((await otherAlertClient.updateAlerts("shortfall", { a: "Token A" })).opened).to.deep.equal(["a"]);
+
+    expect((await restartedAlertClient.updateAlerts("shortfall", {})).resolved).to.deep.equal({ a: "Token A" });
+  });
+});
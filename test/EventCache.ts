@@ -0,0 +1,125 @@
+import { expect, ethers, Contract, SignerWithAddress, getContractFactory, createSpyLogger, sinon } from "./utils";
+import { randomAddress, enableRoutes, zeroAddress, originChainId, destinationChainId } from "./utils";
+import { SpokePoolClient, FileEventStore } from "../src/clients";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { EventCache } from "../src/clients"; // Tested
+
+let spokePool: Contract, owner: SignerWithAddress;
+let cacheDir: string, store: FileEventStore, routesKey: string, finalityMargins: { [chainId: number]: number };
+
+// Each EventCache reads the store afresh, as a bot does when it starts.
+function constructSpokePoolClient(segmentBlocks?: number, fromBlock = 0) {
+  const eventCache = new EventCache(createSpyLogger().spyLogger, store, finalityMargins, segmentBlocks);
+  const searchConfig = { fromBlock, toBlock: null, maxBlockLookBack: 0 };
+  return new SpokePoolClient(createSpyLogger().spyLogger, spokePool, null, originChainId, searchConfig, 0, eventCache);
+}
+
+// All of the events cached in the segments of the entry.
+async function getCachedEvents(key: string) {
+  const { segments } = JSON.parse(await store.get(key));
+  const segmentEvents = await Promise.all(
+    segments.map(async ({ fromBlock, toBlock }) => JSON.parse(await store.get(`${key}:${fromBlock}-${toBlock}`)))
+  );
+  return segmentEvents.flat();
+}
+
+describe("EventCache", async function () {
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+    spokePool = await (
+      await getContractFactory("MockSpokePool", owner)
+    ).deploy(owner.address, owner.address, zeroAddress, zeroAddress);
+    const { chainId } = await ethers.provider.getNetwork();
+    // Only events more than one block behind the latest block are cached.
+    finalityMargins = { [chainId]: 1 };
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "event-cache-"));
+    store = new FileEventStore(cacheDir);
+    routesKey = `${chainId}:${spokePool.address}:EnabledDepositRoute`;
+  });
+
+  afterEach(async function () {
+    sinon.restore();
+    fs.rmdirSync(cacheDir, { recursive: true });
+  });
+
+  it("Loads cached events on startup and only queries blocks after them", async function () {
+    const originTokens = [randomAddress(), randomAddress(), randomAddress()];
+    for (const originToken of originTokens) await enableRoutes(spokePool, [{ originToken, destinationChainId }]);
+    const expectedRoutes = Object.fromEntries(originTokens.map((token) => [token, { [destinationChainId]: true }]));
+
+    const spokePoolClient = constructSpokePoolClient();
+    await spokePoolClient.update();
+    expect(spokePoolClient.getDepositRoutes()).to.deep.equal(expectedRoutes);
+
+    // The route enabled in the latest block is within the finality margin and is not cached.
+    const latestBlock = await ethers.provider.getBlockNumber();
+    const entry = JSON.parse(await store.get(routesKey));
+    expect(entry.toBlock).to.equal(latestBlock - 1);
+    expect((await getCachedEvents(routesKey)).map(({ args }) => args.originToken)).to.deep.equal(
+      originTokens.slice(0, 2)
+    );
+
+    // A restarted client returns the same routes while only querying the blocks after the cached ones.
+    const queryFilter = sinon.spy(spokePool, "queryFilter");
+    const restartedClient = constructSpokePoolClient();
+    await restartedClient.update();
+    expect(restartedClient.getDepositRoutes()).to.deep.equal(expectedRoutes);
+    expect(queryFilter.called).to.be.true;
+    expect(queryFilter.getCalls().every((call) => call.args[1] === latestBlock)).to.be.true;
+
+    // Later updates extend the cached entry.
+    await enableRoutes(spokePool, [{ originToken: originTokens[0], destinationChainId: destinationChainId + 1 }]);
+    await enableRoutes(spokePool, [{ originToken: originTokens[1], destinationChainId: destinationChainId + 1 }]);
+    await restartedClient.update();
+    expect((await getCachedEvents(routesKey)).length).to.equal(4);
+  });
+
+  it("Appends new blocks in segments without rewriting full segments", async function () {
+    const deploymentBlock = await ethers.provider.getBlockNumber();
+    for (let index = 0; index < 4; index++)
+      await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    const spokePoolClient = constructSpokePoolClient(2, deploymentBlock);
+    await spokePoolClient.update();
+    const { segments } = JSON.parse(await store.get(routesKey));
+    expect(segments.every(({ fromBlock, toBlock }) => toBlock - fromBlock + 1 <= 2)).to.be.true;
+    const fullSegmentKeys = segments
+      .filter(({ fromBlock, toBlock }) => toBlock - fromBlock + 1 === 2)
+      .map(({ fromBlock, toBlock }) => `${routesKey}:${fromBlock}-${toBlock}`);
+    expect(fullSegmentKeys.length).to.be.greaterThan(0);
+
+    const set = sinon.spy(store, "set");
+    for (let index = 0; index < 2; index++)
+      await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    await spokePoolClient.update();
+    expect(set.getCalls().some((call) => fullSegmentKeys.includes(call.args[0]))).to.be.false;
+
+    // Only the segments that the entry lists are left in the store, and together they hold all of its events.
+    const entry = JSON.parse(await store.get(routesKey));
+    const segmentKeys = (await store.keys()).filter((key) => key.startsWith(`${routesKey}:`));
+    expect(segmentKeys.length).to.equal(entry.segments.length);
+    expect((await getCachedEvents(routesKey)).length).to.equal(5);
+    const restartedClient = constructSpokePoolClient(2, deploymentBlock);
+    await restartedClient.update();
+    expect(Object.keys(restartedClient.getDepositRoutes()).length).to.equal(6);
+  });
+
+  it("Verifies cached events against the chain", async function () {
+    await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    const spokePoolClient = constructSpokePoolClient();
+    await spokePoolClient.update();
+    expect(await spokePoolClient.eventCache.verify(spokePool, 3, 100)).to.deep.equal([]);
+
+    const [segment] = JSON.parse(await store.get(routesKey)).segments;
+    const segmentKey = `${routesKey}:${segment.fromBlock}-${segment.toBlock}`;
+    const events = JSON.parse(await store.get(segmentKey));
+    events[0].args.enabled = false;
+    await store.set(segmentKey, JSON.stringify(events));
+    const mismatches = await constructSpokePoolClient().eventCache.verify(spokePool, 3, 100);
+    expect(mismatches.map(({ key }) => key)).to.deep.equal([routesKey]);
+    expect(mismatches[0]).to.include({ cachedEvents: 1, fetchedEvents: 1 });
+  });
+});
@@ -0,0 +1,110 @@
+import { expect, Contract, randomAddress, createSpyLogger, winston, lastSpyLogIncludes, sinon } from "./utils";
+
+import { paginatedEventQuery, getEventQueryStats } from "../src/utils"; // Tested
+
+let spy: sinon.SinonSpy, spyLogger: winston.Logger;
+
+// Contract whose provider returns one event per block, but fails queries over more than maxRange blocks. Each test uses
+// its own chain ID as window sizes are tracked per chain and max block look back.
+function buildContract(chainId: number, maxRange: number, transientErrors = 0) {
+  const queries: { fromBlock: number; toBlock: number; succeeded: boolean }[] = [];
+  const contract = {
+    address: randomAddress(),
+    provider: { getNetwork: async () => ({ chainId }), getBlockNumber: async () => 0 },
+    queryFilter: async (_filter: unknown, fromBlock: number, toBlock: number) => {
+      const succeeded = toBlock - fromBlock + 1 <= maxRange && transientErrors-- <= 0;
+      queries.push({ fromBlock, toBlock, succeeded });
+      if (toBlock - fromBlock + 1 > maxRange) throw new Error("query returned more than 10000 results");
+      if (!succeeded) throw new Error("missing response");
+      return Array.from({ length: toBlock - fromBlock + 1 }, (_, index) => ({ blockNumber: fromBlock + index }));
+    },
+  };
+  return { contract: contract as unknown as Contract, queries };
+}
+
+describe("EventUtils: Adaptive event pagination", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+  });
+
+  it("Splits windows that return too many results and keeps the windows that succeed", async function () {
+    const { contract, queries } = buildContract(1001, 150);
+    const searchConfig = { fromBlock: 0, toBlock: 799, maxBlockLookBack: 400 };
+    const events = await paginatedEventQuery(contract, {}, searchConfig, spyLogger);
+
+    // Every block's event is returned exactly once and no block is fetched again once its window has succeeded.
+    expect(events.map(({ blockNumber }) => blockNumber)).to.deep.equal(Array.from({ length: 800 }, (_, i) => i));
+    const fetchedBlocks = queries
+      .filter(({ succeeded }) => succeeded)
+      .reduce((total, { fromBlock, toBlock }) => total + toBlock - fromBlock + 1, 0);
+    expect(fetchedBlocks).to.equal(800);
+    expect(getEventQueryStats(1001, 400).windowSize).to.equal(100);
+    expect(lastSpyLogIncludes(spy, "Adapted event query windows on chain 1001")).to.be.true;
+
+    // Later queries on the chain start from the smaller window and do not need to split.
+    const splits = getEventQueryStats(1001, 400).splits;
+    await paginatedEventQuery(contract, {}, { fromBlock: 800, toBlock: 1199, maxBlockLookBack: 400 });
+    expect(getEventQueryStats(1001, 400).splits).to.equal(splits);
+  });
+
+  it("Grows the window back after repeated successes", async function () {
+    await paginatedEventQuery(
+      buildContract(1002, 100).contract,
+      {},
+      { fromBlock: 0, toBlock: 399, maxBlockLookBack: 400 }
+    );
+    expect(getEventQueryStats(1002, 400).windowSize).to.equal(100);
+
+    // After 10 successful windows the window doubles, and again after 10 more, up to the max block look back.
+    const { contract } = buildContract(1002, Infinity);
+    await paginatedEventQuery(contract, {}, { fromBlock: 0, toBlock: 1999, maxBlockLookBack: 400, concurrency: 1 });
+    expect(getEventQueryStats(1002, 400).windowSize).to.equal(400);
+  });
+
+  it("Queries the whole range at once without a max block look back and only splits it on range errors", async function () {
+    // A window learned with a max block look back does not limit queries with another look back.
+    await paginatedEventQuery(
+      buildContract(1005, 150).contract,
+      {},
+      { fromBlock: 0, toBlock: 399, maxBlockLookBack: 400 }
+    );
+    expect(getEventQueryStats(1005, 400).windowSize).to.equal(100);
+
+    // A small query does not limit later queries over a wider range.
+    const { contract, queries } = buildContract(1005, Infinity);
+    await paginatedEventQuery(contract, {}, { fromBlock: 0, toBlock: 9, maxBlockLookBack: 0 });
+    await paginatedEventQuery(contract, {}, { fromBlock: 0, toBlock: 9999, maxBlockLookBack: 0 });
+    expect(queries.length).to.equal(2);
+    expect(getEventQueryStats(1005).windowSize).to.be.undefined;
+
+    // Once a range error splits a query, later queries are split into windows that fit.
+    await paginatedEventQuery(
+      buildContract(1005, 1000).contract,
+      {},
+      { fromBlock: 0, toBlock: 1999, maxBlockLookBack: 0 }
+    );
+    expect(getEventQueryStats(1005).windowSize).to.equal(1000);
+    expect(getEventQueryStats(1005, 400).windowSize).to.equal(100);
+  });
+
+  it("Retries other errors a limited number of times", async function () {
+    this.timeout(20000);
+    const { contract, queries } = buildContract(1003, Infinity, 1);
+    const events = await paginatedEventQuery(contract, {}, { fromBlock: 0, toBlock: 9, maxBlockLookBack: 10 });
+    expect(events.length).to.equal(10);
+    expect(queries.length).to.equal(2);
+
+    // The first attempt and three retries fail, after which the error is thrown.
+    const failing = buildContract(1004, Infinity, Infinity);
+    const error = await paginatedEventQuery(
+      failing.contract,
+      {},
+      { fromBlock: 0, toBlock: 9, maxBlockLookBack: 10 }
+    ).then(
+      () => undefined,
+      (error) => error
+    );
+    expect(error.message).to.equal("missing response");
+    expect(failing.queries.length).to.equal(4);
+  });
+});
@@ -0,0 +1,167 @@
+import { expect, createSpyLogger, winston, toBNWei, toBN, randomAddress, BigNumber, buildMockDeposit } from "./utils";
+import { MockHubPoolClient, MockSpokePoolClient } from "./mocks";
+import { FillWithBlock, RelayerRefundExecutionWithBlock } from "../src/interfaces";
+import { CHAIN_ID_TEST_LIST } from "./constants";
+
+import { ExposureClient, PendingFillClient } from "../src/clients"; // Tested
+
+let hubPoolClient: MockHubPoolClient, spyLogger: winston.Logger;
+let spokePoolClients: { [chainId: number]: MockSpokePoolClient };
+let pendingFillClient: PendingFillClient;
+let exposureClient: ExposureClient; // tested
+
+const relayer = randomAddress();
+const l1Token = randomAddress();
+const l2TokensForChain = { 1: l1Token, 10: randomAddress(), 137: randomAddress() };
+const deposit = buildMockDeposit(1, 10, toBN(0), l2TokensForChain, { realizedLpFeePct: toBNWei("0.01") });
+
+describe("ExposureClient: Outstanding capital limits", async function () {
+  beforeEach(async function () {
+    ({ spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.setL1TokensToDestinationTokens({ [l1Token]: l2TokensForChain });
+    hubPoolClient.addL1Token({ address: l1Token, symbol: "USDC", decimals: 6 });
+    spokePoolClients = Object.fromEntries(
+      [1, 10, 137].map((chainId) => [chainId, new MockSpokePoolClient(spyLogger, null, null, chainId)])
+    );
+    pendingFillClient = new PendingFillClient(spyLogger, spokePoolClients);
+    exposureClient = new ExposureClient(
+      spyLogger,
+      relayer,
+      spokePoolClients,
+      hubPoolClient,
+      pendingFillClient,
+      CHAIN_ID_TEST_LIST,
+      { [l1Token]: { maxExposure: "1000", destinationChains: { 10: "300" }, repaymentChains: { 137: "200" } } }
+    );
+  });
+
+  it("Computes exposure from fills less executed refunds", async function () {
+    // 100 filled on Optimism and 50 on Polygon, all repaid on mainnet. A 1% LP fee leaves 148.5 owed.
+    spokePoolClients[10].addFill(buildFill(10, 1, toBN(100e6), 100));
+    spokePoolClients[137].addFill(buildFill(137, 1, toBN(50e6), 200));
+    // Slow fills and other relayers' fills are never owed to the relayer.
+    spokePoolClients[10].addFill({ ...buildFill(10, 1, toBN(100e6), 100), isSlowRelay: true });
+    spokePoolClients[10].addFill({ ...buildFill(10, 1, toBN(100e6), 100), relayer: randomAddress() });
+    exposureClient.update();
+    expect(exposureClient.getExposure(l1Token)).to.equal(toBN(148.5e6));
+    expect(exposureClient.getExposure(l1Token, { destinationChainId: 10 })).to.equal(toBN(99e6));
+
+    // A refund on mainnet repays the fills within its root bundle's block ranges, i.e. only the fill on Optimism.
+    addRefund(1, 0, toBN(99e6), { 1: [0, 150], 10: [0, 150], 137: [0, 150] });
+    exposureClient.update();
+    expect(exposureClient.getExposure(l1Token)).to.equal(toBN(49.5e6));
+    expect(exposureClient.getExposure(l1Token, { destinationChainId: 10 })).to.equal(toBN(0));
+    expect(exposureClient.getExposure(l1Token, { repaymentChainId: 1 })).to.equal(toBN(49.5e6));
+
+    // Refunds for fills outside of the SpokePoolClients' lookback, and refunds whose root bundle is not known, do not
+    // offset more recent fills.
+    addRefund(1, 1, toBN(1000e6), { 1: [0, 50], 10: [0, 50], 137: [0, 50] });
+    spokePoolClients[1].addRelayerRefundExecution(buildRefund(1, 2, toBN(1000e6)));
+    exposureClient.update();
+    expect(exposureClient.getExposure(l1Token)).to.equal(toBN(49.5e6));
+  });
+
+  it("Counts pending fills towards the exposure", async function () {
+    pendingFillClient.addPendingFill({ ...deposit, amount: toBN(100e6) }, toBN(100e6), 137, "0x01");
+    exposureClient.update();
+    expect(exposureClient.getExposure(l1Token, { repaymentChainId: 137, destinationChainId: 10 })).to.equal(toBN(99e6));
+  });
+
+  it("Reports which cap a fill would breach", async function () {
+    spokePoolClients[10].addFill(buildFill(10, 137, toBN(200e6), 100));
+    exposureClient.update();
+
+    // 198 owed on Polygon. Another 10 would take it past the 200 cap.
+    const breach = exposureClient.getExposureLimitBreach(deposit, toBN(10e6), 137);
+    expect(breach.key).to.equal(`${l1Token}_repayment_137`);
+    expect(breach.reason).to.include("exposure limit of 200 USDC reached with 198.0 outstanding");
+    expect(exposureClient.getExposureLimitBreach(deposit, toBN(10e6), 1)).to.be.undefined;
+
+    // Fills sent in this run count towards the exposure.
+    exposureClient.addExposure(deposit, toBN(110e6), 1);
+    expect(exposureClient.getExposureLimitBreach(deposit, toBN(10e6), 1).key).to.equal(`${l1Token}_destination_10`);
+  });
+
+  it("Does not limit tokens without configured caps", async function () {
+    const unlimitedClient = new ExposureClient(
+      spyLogger,
+      relayer,
+      spokePoolClients,
+      hubPoolClient,
+      pendingFillClient,
+      CHAIN_ID_TEST_LIST
+    );
+    spokePoolClients[10].addFill(buildFill(10, 137, toBN(200e6), 100));
+    unlimitedClient.update();
+    expect(unlimitedClient.getExposureLimitBreach(deposit, toBN(1e12), 137)).to.be.undefined;
+  });
+});
+
+function buildFill(
+  destinationChainId: number,
+  repaymentChainId: number,
+  fillAmount: BigNumber,
+  blockNumber: number
+): FillWithBlock {
+  return {
+    amount: fillAmount,
+    totalFilledAmount: fillAmount,
+    fillAmount,
+    repaymentChainId,
+    originChainId: 1,
+    relayerFeePct: toBNWei("0.01"),
+    appliedRelayerFeePct: toBNWei("0.01"),
+    realizedLpFeePct: toBNWei("0.01"),
+    depositId: 0,
+    destinationToken: l2TokensForChain[destinationChainId],
+    relayer,
+    depositor: randomAddress(),
+    recipient: randomAddress(),
+    isSlowRelay: false,
+    destinationChainId,
+    blockNumber,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: "",
+  };
+}
+
+// Relay a root bundle with the block ranges to the chain and execute its refund of the relayer there.
+function addRefund(
+  chainId: number,
+  rootBundleId: number,
+  amount: BigNumber,
+  blockRanges: { [chainId: number]: number[] }
+) {
+  const relayerRefundRoot = `0x${chainId}${rootBundleId}`;
+  hubPoolClient.setBundleBlockRanges(relayerRefundRoot, blockRanges);
+  spokePoolClients[chainId].addRootBundleRelay({
+    rootBundleId,
+    relayerRefundRoot,
+    slowRelayRoot: "",
+    blockNumber: 0,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: "",
+  });
+  spokePoolClients[chainId].addRelayerRefundExecution(buildRefund(chainId, rootBundleId, amount));
+}
+
+function buildRefund(chainId: number, rootBundleId: number, amount: BigNumber): RelayerRefundExecutionWithBlock {
+  return {
+    amountToReturn: toBN(0),
+    chainId,
+    refundAmounts: [amount],
+    rootBundleId,
+    leafId: 0,
+    l2TokenAddress: l2TokensForChain[chainId],
+    refundAddresses: [relayer],
+    caller: randomAddress(),
+    blockNumber: 0,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: "",
+  };
+}
@@ -0,0 +1,102 @@
+import { expect, ethers, createSpyLogger, winston, lastSpyLogIncludes, sinon, toBN } from "./utils";
+import { StaticGasOracle, FeeHistoryGasOracle } from "../src/clients";
+import { CommonConfig, constructGasOracles } from "../src/common";
+
+import { GasPriceClient } from "../src/clients"; // Tested
+
+const gwei = (fee: number) => ethers.utils.parseUnits(fee.toString(), 9);
+
+let spyLogger: winston.Logger, spy: sinon.SinonSpy;
+
+// Network fees of 100 gwei max fee and 2 gwei priority fee on chain 1, and a 30 gwei gas price on chain 288.
+const oracles = {
+  1: new StaticGasOracle({ maxFeePerGas: "100", maxPriorityFeePerGas: "2" }),
+  288: new StaticGasOracle({ gasPrice: "30" }),
+};
+const noScaling = { priorityScaler: 1, maxFeePerGasScaler: 1 };
+
+describe("GasPriceClient", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+  });
+
+  it("Scales fees by the chain's policy and urgency", async function () {
+    const gasPriceClient = new GasPriceClient(
+      spyLogger,
+      { 1: { priorityScaler: 1.5, maxFeePerGasScaler: 2 }, 288: { priorityScaler: 2 } },
+      oracles
+    );
+    expect(await gasPriceClient.getGasPrice(1, ethers.provider)).to.deep.equal({
+      maxFeePerGas: gwei(300),
+      maxPriorityFeePerGas: gwei(3),
+    });
+    expect(await gasPriceClient.getGasPrice(1, ethers.provider, "high")).to.deep.equal({
+      maxFeePerGas: gwei(450),
+      maxPriorityFeePerGas: gwei(4.5),
+    });
+    expect(await gasPriceClient.getGasPrice(288, ethers.provider, "low")).to.deep.equal({ gasPrice: gwei(48) });
+  });
+
+  it("Caps fees at the ceiling and alerts when network fees are above it", async function () {
+    const gasPriceClient = new GasPriceClient(
+      spyLogger,
+      { 1: { ...noScaling, maxFeePerGas: gwei(80) }, 288: { ...noScaling, maxFeePerGas: gwei(40) } },
+      oracles
+    );
+    expect(await gasPriceClient.getGasPrice(1, ethers.provider)).to.deep.equal({
+      maxFeePerGas: gwei(80),
+      maxPriorityFeePerGas: gwei(2),
+    });
+    expect(lastSpyLogIncludes(spy, "Network fees on Mainnet are above the ceiling")).to.be.true;
+
+    // Scaled fees are capped even if the network's fees are below the ceiling.
+    spy.resetHistory();
+    expect(await gasPriceClient.getGasPrice(288, ethers.provider, "high")).to.deep.equal({ gasPrice: gwei(40) });
+    expect(spy.called).to.be.false;
+  });
+
+  it("Skips sending when network fees are above the ceiling", async function () {
+    const gasPriceClient = new GasPriceClient(
+      spyLogger,
+      { 1: { ...noScaling, maxFeePerGas: gwei(80), onCeiling: "skip" } },
+      oracles
+    );
+    expect(await gasPriceClient.getGasPrice(1, ethers.provider)).to.be.undefined;
+    expect(lastSpyLogIncludes(spy, "Not sending on Mainnet as fees are above the ceiling")).to.be.true;
+
+    // A wait policy that can not wait out a full poll interval also gives up.
+    const waitingGasPriceClient = new GasPriceClient(
+      spyLogger,
+      { 1: { ...noScaling, maxFeePerGas: gwei(80), onCeiling: "wait", waitTimeout: 0 } },
+      oracles
+    );
+    expect(await waitingGasPriceClient.getGasPrice(1, ethers.provider)).to.be.undefined;
+  });
+
+  it("Estimates fees from the fee history of recent blocks", async function () {
+    const fees = await new FeeHistoryGasOracle().getFees(ethers.provider);
+    const block = await ethers.provider.getBlock("latest");
+    expect(fees.maxPriorityFeePerGas.gte(toBN(0))).to.be.true;
+    expect(fees.maxFeePerGas.gte(fees.maxPriorityFeePerGas)).to.be.true;
+    expect(fees.maxFeePerGas.gte(block.baseFeePerGas)).to.be.true;
+  });
+
+  it("Constructs fee history oracles with the configured percentile and block count", async function () {
+    const gasOracles = { 1: { oracle: "feeHistory" }, 137: { oracle: "feeHistory", percentile: 60, blockCount: 10 } };
+    const { 1: defaultOracle, 137: oracle } = constructGasOracles({ gasOracles } as unknown as CommonConfig);
+    expect(defaultOracle).to.include({ percentile: 50, blockCount: 20 });
+    expect(oracle).to.include({ percentile: 60, blockCount: 10 });
+  });
+
+  it("Only caps fees on chains with a configured ceiling", async function () {
+    const config = new CommonConfig({
+      MAX_FEE_PER_GAS_GWEI: JSON.stringify({ 1: "300" }),
+      GAS_PRICE_POLICY: JSON.stringify({ 10: { priorityScaler: 1.5 }, 288: { maxFeePerGas: "50" } }),
+    });
+    expect(config.gasPricePolicies[1].maxFeePerGas).to.equal(gwei(300));
+    expect(config.gasPricePolicies[288].maxFeePerGas).to.equal(gwei(50));
+    expect(config.gasPricePolicies[10].maxFeePerGas).to.be.undefined;
+    expect(config.gasPricePolicies[137].maxFeePerGas).to.be.undefined;
+    expect(config.gasOracles[137].oracle).to.equal("feeHistory");
+  });
+});
@@ -0,0 +1,86 @@
+import { expect, createSpyLogger, winston, toBNWei, randomAddress, lastSpyLogIncludes, sinon } from "./utils";
+import { MockAdapter, MockHubPoolClient, MockTokenClient } from "./mocks";
+import { InventoryConfig } from "../src/interfaces";
+
+import { InventoryClient } from "../src/clients"; // Tested
+
+let hubPoolClient: MockHubPoolClient, tokenClient: MockTokenClient, spy: sinon.SinonSpy, spyLogger: winston.Logger;
+let adapters: { [chainId: number]: MockAdapter };
+
+const enabledChainIds = [1, 10, 137];
+const l1Token = randomAddress();
+const l2TokensForChain = { 1: l1Token, 10: randomAddress(), 137: randomAddress() };
+
+// Top optimism back up to 20% once it falls below 10%. Polygon is topped up to 30% once it falls below 25%.
+const inventoryConfig: InventoryConfig = {
+  tokenConfig: {
+    [l1Token]: {
+      10: { targetPct: toBNWei("0.2"), thresholdPct: toBNWei("0.1") },
+      137: { targetPct: toBNWei("0.3"), thresholdPct: toBNWei("0.25") },
+    },
+  },
+};
+
+describe("InventoryClient: Rebalancing inventory across chains", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.setL1TokensToDestinationTokens({ [l1Token]: l2TokensForChain });
+    hubPoolClient.addL1Token({ address: l1Token, symbol: "USDC", decimals: 6 });
+    tokenClient = new MockTokenClient(
+      spyLogger,
+      randomAddress(),
+      Object.fromEntries(enabledChainIds.map((chainId) => [chainId, null])),
+      hubPoolClient
+    );
+    adapters = Object.fromEntries(
+      [10, 137].map((chainId) => [chainId, new MockAdapter(spyLogger, chainId, null, null, undefined, undefined, 0)])
+    );
+
+    // Seed 100 on mainnet, 10 on optimism and 50 on polygon. Total of 160 tokens of inventory.
+    tokenClient.setTokenData(1, l2TokensForChain[1], toBNWei(100));
+    tokenClient.setTokenData(10, l2TokensForChain[10], toBNWei(10));
+    tokenClient.setTokenData(137, l2TokensForChain[137], toBNWei(50));
+  });
+
+  it("Tops up chains below their threshold to their target and tracks the transfer in flight", async function () {
+    const inventoryClient = new InventoryClient(spyLogger, inventoryConfig, tokenClient, hubPoolClient, 1, adapters);
+
+    // Optimism holds 10 / 160 = 6.25%, below its 10% threshold. It is topped up by 0.2 * 160 - 10 = 22. Polygon holds
+    // 50 / 160 = 31.25%, above its threshold.
+    await inventoryClient.rebalanceInventoryIfNeeded();
+    expect(adapters[10].transfersSent).to.deep.equal([{ l1Token, l2Token: l2TokensForChain[10], amount: toBNWei(22) }]);
+    expect(adapters[137].transfersSent).to.deep.equal([]);
+    expect(lastSpyLogIncludes(spy, "Executed inventory rebalances 📒")).to.be.true;
+
+    // The transfer in flight counts towards optimism's allocation so it is not sent again.
+    expect(tokenClient.getBalance(1, l1Token)).to.equal(toBNWei(78));
+    expect(inventoryClient.getCumulativeBalance(l1Token)).to.equal(toBNWei(160));
+    await inventoryClient.rebalanceInventoryIfNeeded();
+    expect(adapters[10].transfersSent.length).to.equal(1);
+  });
+
+  it("Only logs planned transfers in dry run mode", async function () {
+    const inventoryClient = new InventoryClient(
+      spyLogger,
+      inventoryConfig,
+      tokenClient,
+      hubPoolClient,
+      1,
+      adapters,
+      true
+    );
+    await inventoryClient.rebalanceInventoryIfNeeded();
+    expect(adapters[10].transfersSent).to.deep.equal([]);
+    expect(lastSpyLogIncludes(spy, "Planned inventory rebalances (dry run) 📒")).to.be.true;
+  });
+
+  it("Does not rebalance more than the relayer holds on L1", async function () {
+    tokenClient.setTokenData(1, l2TokensForChain[1], toBNWei(5));
+    const inventoryClient = new InventoryClient(spyLogger, inventoryConfig, tokenClient, hubPoolClient, 1, adapters);
+    await inventoryClient.rebalanceInventoryIfNeeded();
+    expect(adapters[10].transfersSent).to.deep.equal([]);
+    expect(lastSpyLogIncludes(spy, "Insufficient L1 balance to rebalance inventory")).to.be.true;
+  });
+});
@@ -0,0 +1,77 @@
+import { expect, createSpyLogger, winston, toBNWei, randomAddress, buildMockDeposit } from "./utils";
+import { MockHubPoolClient, MockTokenClient } from "./mocks";
+import { InventoryConfig } from "../src/interfaces";
+
+import { InventoryClient } from "../src/clients"; // Tested
+
+let hubPoolClient: MockHubPoolClient, tokenClient: MockTokenClient, spyLogger: winston.Logger;
+let inventoryClient: InventoryClient; // tested
+
+const enabledChainIds = [1, 10, 137];
+const l1Token = randomAddress();
+const l2TokensForChain = { 1: l1Token, 10: randomAddress(), 137: randomAddress() };
+
+// Target 20% of the L1 token's inventory on Optimism. Polygon is not configured and so should never be selected.
+const inventoryConfig: InventoryConfig = { tokenConfig: { [l1Token]: { 10: { targetPct: toBNWei("0.2") } } } };
+
+describe("InventoryClient: Refund chain selection", async function () {
+  beforeEach(async function () {
+    ({ spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.setL1TokensToDestinationTokens({ [l1Token]: l2TokensForChain });
+    tokenClient = new MockTokenClient(
+      spyLogger,
+      randomAddress(),
+      Object.fromEntries(enabledChainIds.map((chainId) => [chainId, null])),
+      hubPoolClient
+    );
+    inventoryClient = new InventoryClient(spyLogger, inventoryConfig, tokenClient, hubPoolClient);
+
+    // Seed 100 on mainnet, 10 on optimism and 50 on polygon. Total of 160 tokens of inventory.
+    tokenClient.setTokenData(1, l2TokensForChain[1], toBNWei(100));
+    tokenClient.setTokenData(10, l2TokensForChain[10], toBNWei(10));
+    tokenClient.setTokenData(137, l2TokensForChain[137], toBNWei(50));
+  });
+
+  it("Computes cumulative balance over all chains", async function () {
+    expect(inventoryClient.getCumulativeBalance(l1Token)).to.equal(toBNWei(160));
+    expect(inventoryClient.getBalanceOnChainForL1Token(10, l1Token)).to.equal(toBNWei(10));
+  });
+
+  it("Takes refund on the destination chain when it is under allocated", async function () {
+    // Post relay allocation on optimism is (10 + 10) / (160 + 10) = 11.7%. Below the 20% target.
+    const deposit = buildMockDeposit(137, 10, toBNWei(10), l2TokensForChain);
+    expect(inventoryClient.determineRefundChainId(deposit)).to.equal(10);
+  });
+
+  it("Takes refund on the hub chain when the destination chain is over allocated", async function () {
+    // Post relay allocation on optimism is (10 + 40) / (160 + 40) = 25%. Above the 20% target.
+    const deposit = buildMockDeposit(137, 10, toBNWei(40), l2TokensForChain);
+    expect(inventoryClient.determineRefundChainId(deposit)).to.equal(1);
+  });
+
+  it("Takes refund on the hub chain for chains or tokens without a target", async function () {
+    expect(inventoryClient.determineRefundChainId(buildMockDeposit(10, 137, toBNWei(1), l2TokensForChain))).to.equal(1);
+    expect(inventoryClient.determineRefundChainId(buildMockDeposit(10, 1, toBNWei(1), l2TokensForChain))).to.equal(1);
+
+    const unmanagedInventoryClient = new InventoryClient(spyLogger, { tokenConfig: {} }, tokenClient, hubPoolClient);
+    expect(
+      unmanagedInventoryClient.determineRefundChainId(buildMockDeposit(137, 10, toBNWei(1), l2TokensForChain))
+    ).to.equal(1);
+  });
+
+  it("Avoids destination chains whose spoke pool has a negative running balance", async function () {
+    hubPoolClient.setRunningBalance(10, l1Token, toBNWei(-1));
+    expect(inventoryClient.determineRefundChainId(buildMockDeposit(137, 10, toBNWei(10), l2TokensForChain))).to.equal(
+      1
+    );
+  });
+
+  it("Accounts for captured token shortfalls when computing allocations", async function () {
+    // A shortfall of 5 on optimism reduces its usable balance to 5.
+    tokenClient.captureTokenShortfall(10, l2TokensForChain[10], 1, toBNWei(5));
+    expect(inventoryClient.getBalanceOnChainForL1Token(10, l1Token)).to.equal(toBNWei(5));
+    expect(inventoryClient.getCumulativeBalance(l1Token)).to.equal(toBNWei(155));
+  });
+});
@@ -0,0 +1,220 @@
+import { expect, createSpyLogger, winston, toBNWei, toBN, randomAddress, BigNumber, buildMockDeposit } from "./utils";
+import { MockHubPoolClient, MockProfitClient, MockSpokePoolClient } from "./mocks";
+import { LedgerEntry, RelayerRefundExecutionWithBlock } from "../src/interfaces";
+import { Contract, providers } from "../src/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { LedgerClient, summarizeLedger } from "../src/clients"; // Tested
+
+let hubPoolClient: MockHubPoolClient, profitClient: MockProfitClient, spyLogger: winston.Logger;
+let spokePoolClients: { [chainId: number]: MockSpokePoolClient };
+let ledgerClient: LedgerClient; // tested
+
+const chainIds = [1, 10, 137];
+
+const relayer = randomAddress();
+const l1Token = randomAddress();
+const l2TokensForChain = { 1: l1Token, 10: randomAddress(), 137: randomAddress() };
+const deposit = buildMockDeposit(1, 10, toBN(100e6), l2TokensForChain, { realizedLpFeePct: toBNWei("0.01") });
+const receipt: providers.TransactionReceipt = {
+  gasUsed: toBN(200000),
+  effectiveGasPrice: toBN(1e9),
+  transactionHash: "0x01",
+  blockNumber: 100,
+};
+
+// Serves block times of 1000 seconds after genesis plus 10 seconds per block.
+const spokePool = { provider: { getBlock: async (blockNumber: number) => ({ timestamp: 1000 + 10 * blockNumber }) } };
+
+describe("LedgerClient: Fill and refund accounting", async function () {
+  beforeEach(async function () {
+    ({ spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.setL1TokensToDestinationTokens({ [l1Token]: l2TokensForChain });
+    hubPoolClient.setTokenInfoToReturn({ address: l1Token, symbol: "USDC", decimals: 6 });
+    profitClient = new MockProfitClient(spyLogger, hubPoolClient);
+    profitClient.setTokenPrices({ [l1Token]: toBNWei(1) });
+    profitClient.setNativeTokenPrices({ 10: toBNWei(2000) });
+    spokePoolClients = Object.fromEntries(
+      [1, 10, 137].map((chainId) => [
+        chainId,
+        new MockSpokePoolClient(spyLogger, spokePool as unknown as Contract, null, chainId),
+      ])
+    );
+    ledgerClient = new LedgerClient(spyLogger, relayer, spokePoolClients, hubPoolClient, profitClient, chainIds);
+  });
+
+  it("Records fee revenue, LP fee and a share of the gas cost of mined fills", async function () {
+    // 100 USDC filled in a multicall of 2 fills. 1% relayer fee, 1% LP fee and 0.0002 ETH of gas at 2000 USD.
+    await ledgerClient.recordFill(deposit, toBN(100e6), 1, receipt, 2);
+    const [entry] = ledgerClient.getEntries();
+    expect(entry.feeRevenue).to.equal(toBN(1e6));
+    expect(entry.realizedLpFee).to.equal(toBN(1e6));
+    expect(entry.refundAmount).to.equal(toBN(99e6));
+    expect(entry.gasCost).to.equal(toBN(1e14));
+    expect(entry.feeRevenueInUsd).to.equal(toBNWei(1));
+    expect(entry.gasCostInUsd).to.equal(toBNWei("0.2"));
+    // The fill is timed by the block it was mined in.
+    expect(entry).to.include({ blockNumber: 100, filledAt: 2000 });
+
+    // A speed up pays the relayer the updated fee.
+    await ledgerClient.recordFill({ ...deposit, newRelayerFeePct: toBNWei("0.02") }, toBN(100e6), 1, receipt);
+    expect(ledgerClient.getEntries()[1].feeRevenue).to.equal(toBN(2e6));
+  });
+
+  it("Links refund leaves to the fills mined within their root bundle's block ranges", async function () {
+    for (const blockNumber of [100, 200, 300])
+      await ledgerClient.recordFill(deposit, toBN(100e6), 1, { ...receipt, blockNumber });
+    await ledgerClient.recordFill(deposit, toBN(100e6), 137, receipt);
+
+    // The bundle covering blocks up to 250 on the destination chain repays the first two fills repaid on mainnet,
+    // whatever the refunded amount. Other relayers' refunds are ignored.
+    addRefund(1, 0, 0, toBN(1e6), { 1: [0, 250], 10: [0, 250], 137: [0, 250] });
+    addRefund(1, 1, 1, toBN(99e6), { 1: [251, 400], 10: [251, 400], 137: [251, 400] }, [randomAddress()]);
+    await ledgerClient.update();
+    expect(ledgerClient.getEntries().map(({ refund }) => refund?.leafId)).to.deep.equal([0, 0, undefined, undefined]);
+    expect(ledgerClient.getEntries()[0].refund.refundedAt).to.equal(1500);
+
+    // Leaves whose root bundle is not yet known are linked once it is.
+    spokePoolClients[137].addRelayerRefundExecution(buildRefund(137, 2, 2, toBN(99e6), 50));
+    await ledgerClient.update();
+    expect(ledgerClient.getEntries()[3].refund).to.be.undefined;
+    addRootBundle(137, 2, { 1: [0, 250], 10: [0, 250], 137: [0, 250] });
+    await ledgerClient.update();
+    expect(ledgerClient.getEntries()[3].refund.leafId).to.equal(2);
+  });
+
+  it("Persists the ledger to file", async function () {
+    const ledgerFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "ledger-")), "ledger.json");
+    const persistedClient = new LedgerClient(
+      spyLogger,
+      relayer,
+      spokePoolClients,
+      hubPoolClient,
+      profitClient,
+      chainIds,
+      ledgerFile
+    );
+    await persistedClient.recordFill(deposit, toBN(100e6), 1, receipt);
+    addRefund(1, 0, 0, toBN(99e6), { 1: [0, 250], 10: [0, 250], 137: [0, 250] });
+    await persistedClient.update();
+
+    const reloadedClient = new LedgerClient(
+      spyLogger,
+      relayer,
+      spokePoolClients,
+      hubPoolClient,
+      profitClient,
+      chainIds,
+      ledgerFile
+    );
+    expect(reloadedClient.getEntries()).to.deep.equal(persistedClient.getEntries());
+    // The linked leaf is remembered, so a new fill within its block ranges is not linked to it.
+    await reloadedClient.recordFill(deposit, toBN(100e6), 1, receipt);
+    await reloadedClient.update();
+    expect(reloadedClient.getEntries()[1].refund).to.be.undefined;
+
+    // The file is only rewritten when the ledger changes.
+    fs.utimesSync(ledgerFile, 0, 0);
+    await reloadedClient.update();
+    expect(fs.statSync(ledgerFile).mtimeMs).to.equal(0);
+  });
+
+  it("Summarizes PnL, outstanding refunds and capital turnover over a window", async function () {
+    // Two fills of 100 on the window [0, 100]. The first is refunded after 50 seconds. The second is filled at 50 and
+    // still outstanding. A third fill, before the window, is refunded within it.
+    const entries = [
+      buildEntry(10, 0, 50),
+      buildEntry(137, 50, undefined),
+      { ...buildEntry(10, -100, 25), fillAmount: toBN(50e6), refundAmount: toBN(50e6) },
+    ];
+    const report = summarizeLedger(entries, 0, 100);
+
+    const summary = report.byToken[l1Token];
+    expect(summary.fills).to.equal(2);
+    expect(summary.volume).to.equal(toBN(200e6));
+    expect(summary.netProfitInUsd).to.equal(toBNWei("1.5"));
+    expect(summary.outstandingRefunds).to.equal(toBN(100e6));
+    // Outstanding capital averages (100 * 50 + 100 * 50 + 50 * 25) / 100 = 112.5, turning over 200 / 112.5 times.
+    expect(summary.capitalTurnover).to.equal(1.777);
+
+    expect(report.byRoute["1-10"][l1Token].fills).to.equal(1);
+    expect(report.byRoute["1-137"][l1Token].outstandingRefunds).to.equal(toBN(100e6));
+  });
+});
+
+function addRootBundle(chainId: number, rootBundleId: number, blockRanges: { [chainId: number]: number[] }) {
+  const relayerRefundRoot = `0x${chainId}${rootBundleId}`;
+  hubPoolClient.setBundleBlockRanges(relayerRefundRoot, blockRanges);
+  spokePoolClients[chainId].addRootBundleRelay({
+    rootBundleId,
+    relayerRefundRoot,
+    slowRelayRoot: "",
+    blockNumber: 0,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: "",
+  });
+}
+
+function addRefund(
+  chainId: number,
+  rootBundleId: number,
+  leafId: number,
+  amount: BigNumber,
+  blockRanges: { [chainId: number]: number[] },
+  refundAddresses = [relayer]
+) {
+  addRootBundle(chainId, rootBundleId, blockRanges);
+  spokePoolClients[chainId].addRelayerRefundExecution({
+    ...buildRefund(chainId, rootBundleId, leafId, amount, 50),
+    refundAddresses,
+  });
+}
+
+function buildRefund(
+  chainId: number,
+  rootBundleId: number,
+  leafId: number,
+  amount: BigNumber,
+  blockNumber: number
+): RelayerRefundExecutionWithBlock {
+  return {
+    amountToReturn: toBN(0),
+    chainId,
+    refundAmounts: [amount],
+    rootBundleId,
+    leafId,
+    l2TokenAddress: l2TokensForChain[chainId],
+    refundAddresses: [relayer],
+    caller: randomAddress(),
+    blockNumber,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: "",
+  };
+}
+
+function buildEntry(destinationChainId: number, filledAt: number, refundedAt: number | undefined): LedgerEntry {
+  return {
+    originChainId: 1,
+    depositId: 0,
+    destinationChainId,
+    repaymentChainId: 1,
+    l1Token,
+    fillAmount: toBN(100e6),
+    feeRevenue: toBN(1e6),
+    realizedLpFee: toBN(0),
+    refundAmount: toBN(100e6),
+    gasCost: toBN(0),
+    feeRevenueInUsd: toBNWei(1),
+    gasCostInUsd: toBNWei("0.25"),
+    transactionHash: "",
+    blockNumber: 0,
+    filledAt,
+    refund: refundedAt === undefined ? undefined : { rootBundleId: 0, leafId: 0, refundedAt },
+  };
+}
@@ -0,0 +1,244 @@
+import { expect, Contract, createSpyLogger, winston, deploySpokePoolWithToken, randomAddress, toBN } from "./utils";
+import { sinon, lastSpyLogIncludes, ethers, setupTokensForWallet, toBNWei, buildMockDeposit, hre } from "./utils";
+import { Deposit } from "../src/interfaces";
+import { buildFillRelayProps, delay } from "../src/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { AugmentedTransaction, MultiCallerClient, NonceManager } from "../src/clients"; // Tested
+
+let spokePool: Contract, erc20: Contract;
+let spy: sinon.SinonSpy, spyLogger: winston.Logger;
+let multiCallerClient: MultiCallerClient; // tested
+
+describe("MultiCallerClient: Bundling", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+    ({ spokePool, erc20 } = await deploySpokePoolWithToken());
+  });
+
+  it("Splits transactions into bundles within the chain's limits", async function () {
+    multiCallerClient = new MultiCallerClient(spyLogger, null, 180, undefined, {
+      1: { maxGas: 100, maxCalls: 3 },
+      10: { maxCalls: 2 },
+    });
+    const transactions = Array.from({ length: 5 }, (_, index) => buildTransaction(1, index));
+
+    // Bundles are capped at 100 gas, and a call over the cap on its own gets its own bundle.
+    const gasEstimates = [40, 40, 40, 150, 10].map((gas) => toBN(gas));
+    const bundles = multiCallerClient.chunkTransactions(1, transactions, gasEstimates);
+    expect(bundles.map((bundle) => bundle.map(({ args }) => args[2]))).to.deep.equal([[0, 1], [2], [3], [4]]);
+
+    // Without gas estimates bundles are only capped by call count.
+    expect(multiCallerClient.chunkTransactions(1, transactions).map((bundle) => bundle.length)).to.deep.equal([3, 2]);
+    expect(multiCallerClient.chunkTransactions(10, transactions).map((bundle) => bundle.length)).to.deep.equal([
+      2, 2, 1,
+    ]);
+    // Chains without limits send everything in one bundle.
+    expect(multiCallerClient.chunkTransactions(137, transactions).length).to.equal(1);
+  });
+
+  it("Sends and reports each bundle on its own", async function () {
+    const chainId = (await spokePool.provider.getNetwork()).chainId;
+    multiCallerClient = new MultiCallerClient(spyLogger, null, 180, undefined, { [chainId]: { maxCalls: 2 } });
+    for (let index = 0; index < 3; index++)
+      multiCallerClient.enqueueTransaction({
+        contract: spokePool,
+        chainId,
+        method: "setEnableRoute",
+        args: [randomAddress(), index + 1, true],
+        message: `Route ${index + 1} enabled`,
+        mrkdwn: "",
+      });
+
+    const transactionHashes = await multiCallerClient.executeTransactionQueue();
+    expect(transactionHashes.length).to.equal(2);
+    expect(lastSpyLogIncludes(spy, "Multicall batch sent!")).to.be.true;
+    const { mrkdwn } = spy.getCall(-1).lastArg;
+    expect(mrkdwn).to.include("(1/2)");
+    expect(mrkdwn).to.include("(2/2)");
+    expect(mrkdwn).to.include("Route 3 enabled");
+  });
+
+  it("Sends parallel bundles on a chain with consecutive nonces", async function () {
+    const chainId = (await spokePool.provider.getNetwork()).chainId;
+    const nonceManager = new NonceManager(spyLogger);
+    multiCallerClient = new MultiCallerClient(spyLogger, null, 180, nonceManager, { [chainId]: { maxCalls: 1 } }, true);
+    const submittedHashes: string[] = [];
+    for (let index = 0; index < 3; index++)
+      multiCallerClient.enqueueTransaction({
+        contract: spokePool,
+        chainId,
+        method: "setEnableRoute",
+        args: [randomAddress(), index + 1, true],
+        message: `Route ${index + 1} enabled`,
+        mrkdwn: "",
+        onSubmitted: (transactionHash: string) => submittedHashes.push(transactionHash),
+      });
+
+    // Bundles are left pending until all of them are submitted, so none of their nonces is mined before the next is
+    // reserved.
+    const startNonce = await spokePool.signer.getTransactionCount("pending");
+    await hre.network.provider.send("evm_setAutomine", [false]);
+    try {
+      const execution = multiCallerClient.executeTransactionQueue();
+      while (submittedHashes.length < 3) await delay(0.1);
+      await hre.network.provider.send("evm_mine");
+      expect((await execution).length).to.equal(3);
+    } finally {
+      await hre.network.provider.send("evm_setAutomine", [true]);
+    }
+
+    const transactions = await Promise.all(submittedHashes.map((hash) => spokePool.provider.getTransaction(hash)));
+    const nonces = transactions.map(({ nonce }) => nonce).sort((a, b) => a - b);
+    expect(nonces).to.deep.equal([startNonce, startNonce + 1, startNonce + 2]);
+  });
+
+  it("Bundles calls per target contract and sends calls to targets without multicall one by one", async function () {
+    const chainId = (await spokePool.provider.getNetwork()).chainId;
+    const { spokePool: otherSpokePool, erc20 } = await deploySpokePoolWithToken();
+    multiCallerClient = new MultiCallerClient(spyLogger, null);
+    for (const contract of [spokePool, spokePool, otherSpokePool])
+      multiCallerClient.enqueueTransaction({
+        contract,
+        chainId,
+        method: "setEnableRoute",
+        args: [randomAddress(), 1, true],
+        message: "Route enabled",
+        mrkdwn: "",
+      });
+    for (const spender of [spokePool, otherSpokePool])
+      multiCallerClient.enqueueTransaction({
+        contract: erc20,
+        chainId,
+        method: "approve",
+        args: [spender.address, 1],
+        message: "Approved",
+        mrkdwn: "",
+      });
+
+    // One multicall for each spoke pool, and one transaction for each approval.
+    const transactionHashes = await multiCallerClient.executeTransactionQueue();
+    expect(transactionHashes.length).to.equal(4);
+    expect(await erc20.allowance(await erc20.signer.getAddress(), otherSpokePool.address)).to.equal(1);
+
+    // Bundles that mix targets are never sent.
+    const mixedBundle = [spokePool, otherSpokePool].map((contract) => ({
+      ...buildTransaction(chainId, 0),
+      contract,
+    }));
+    expect(multiCallerClient.buildMultiCallBundle(mixedBundle)).to.be.null;
+  });
+
+  it("Drops calls that only revert within their bundle and sends the rest", async function () {
+    const [owner] = await ethers.getSigners();
+    await setupTokensForWallet(spokePool, owner, [erc20], null, 10);
+    const chainId = (await spokePool.provider.getNetwork()).chainId;
+    multiCallerClient = new MultiCallerClient(spyLogger, null);
+
+    // Each fill succeeds on its own, but the second fill of deposit 1 reverts once the first has filled it.
+    const deposits = [1, 2].map((depositId) =>
+      buildMockDeposit(
+        1,
+        0,
+        toBNWei(1),
+        {},
+        { depositId, relayerFeePct: toBNWei("0.1"), realizedLpFeePct: toBNWei("0.1"), destinationToken: erc20.address }
+      )
+    );
+    for (const [deposit, repaymentChainId] of [
+      [deposits[0], 1],
+      [deposits[0], 2],
+      [deposits[1], 1],
+    ] as [Deposit, number][])
+      multiCallerClient.enqueueTransaction({
+        contract: spokePool,
+        chainId,
+        method: "fillRelay",
+        args: buildFillRelayProps(deposit, repaymentChainId, deposit.amount),
+        message: "Relay sent",
+        mrkdwn: "",
+        label: `deposit ${deposit.depositId} repaid on ${repaymentChainId}`,
+      });
+
+    const transactionHashes = await multiCallerClient.executeTransactionQueue();
+    expect(transactionHashes.length).to.equal(1);
+    const revertLog = spy.getCalls().find((call) => call.lastArg.message.includes("revert within their multicall"));
+    expect(revertLog.lastArg.revertingCalls.length).to.equal(1);
+    expect(revertLog.lastArg.revertingCalls[0].label).to.equal("deposit 1 repaid on 2");
+    expect(revertLog.lastArg.revertingCalls[0].reason).to.include("relay filled");
+    expect(revertLog.lastArg.mrkdwn).to.include("deposit 1 repaid on 2");
+  });
+
+  it("Writes a report of the queued calls in simulation mode", async function () {
+    const chainId = (await spokePool.provider.getNetwork()).chainId;
+    const simulationReportDir = fs.mkdtempSync(path.join(os.tmpdir(), "simulation-"));
+    multiCallerClient = new MultiCallerClient(spyLogger, null, 180, undefined, {}, false, simulationReportDir);
+    const originToken = randomAddress();
+    multiCallerClient.enqueueTransaction({
+      contract: spokePool,
+      chainId,
+      method: "setEnableRoute",
+      args: [originToken, 1, true],
+      message: "Route enabled",
+      mrkdwn: "",
+      label: "route to 1",
+    });
+    // A relayer fee above 50% is rejected by the SpokePool.
+    multiCallerClient.enqueueTransaction({
+      contract: spokePool,
+      chainId,
+      method: "fillRelay",
+      args: buildFillRelayProps(
+        buildMockDeposit(
+          1,
+          0,
+          toBNWei(1),
+          {},
+          { relayerFeePct: toBNWei("0.6"), realizedLpFeePct: toBNWei("0.1"), destinationToken: erc20.address }
+        ),
+        1,
+        toBNWei(1)
+      ),
+      message: "Relay sent",
+      mrkdwn: "",
+    });
+
+    await multiCallerClient.executeTransactionQueue(true);
+    const [reportFile] = fs.readdirSync(simulationReportDir);
+    const { calls } = JSON.parse(fs.readFileSync(path.join(simulationReportDir, reportFile), "utf8"));
+    expect(calls.length).to.equal(2);
+    expect(calls[0]).to.include({ chainId, method: "setEnableRoute", label: "route to 1", succeed: true });
+    expect(Object.values(calls[0].args)).to.deep.equal([originToken, "1", true]);
+    expect(Number(calls[0].estimatedGas)).to.be.gt(0);
+    expect(Number(calls[0].estimatedFee)).to.be.gt(0);
+    expect(calls[1].succeed).to.be.false;
+    expect(calls[1].estimatedGas).to.be.undefined;
+    // Nothing is sent in simulation mode.
+    expect(await spokePool.enabledDepositRoutes(originToken, 1)).to.be.false;
+
+    // A report written right after does not overwrite the first.
+    multiCallerClient.enqueueTransaction({
+      contract: spokePool,
+      chainId,
+      method: "setEnableRoute",
+      args: [originToken, 1, true],
+      message: "Route enabled",
+      mrkdwn: "",
+    });
+    await multiCallerClient.executeTransactionQueue(true);
+    expect(fs.readdirSync(simulationReportDir).length).to.equal(2);
+  });
+});
+
+function buildTransaction(chainId: number, index: number): AugmentedTransaction {
+  return {
+    contract: null,
+    chainId,
+    method: "setEnableRoute",
+    args: [randomAddress(), chainId, index],
+    message: "",
+    mrkdwn: "",
+  };
+}
@@ -0,0 +1,114 @@
+import { expect, ethers, Contract, SignerWithAddress, createSpyLogger, winston, lastSpyLogIncludes } from "./utils";
+import { deployNewToken, hre, sinon, toBNWei } from "./utils";
+import { runTransaction } from "../src/utils";
+
+import { GasPriceClient, NonceManager } from "../src/clients"; // Tested
+
+let token: Contract, owner: SignerWithAddress, spender: SignerWithAddress;
+let spy: sinon.SinonSpy, spyLogger: winston.Logger;
+let nonceManager: NonceManager; // tested
+
+describe("NonceManager: Stuck transaction replacement", async function () {
+  beforeEach(async function () {
+    [owner, spender] = await ethers.getSigners();
+    ({ spy, spyLogger } = createSpyLogger());
+    token = await deployNewToken(owner);
+    // Transactions are left pending until a block is mined manually.
+    await hre.network.provider.send("evm_setAutomine", [false]);
+  });
+
+  afterEach(async function () {
+    await hre.network.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("Assigns consecutive nonces to pending transactions", async function () {
+    nonceManager = new NonceManager(spyLogger);
+    const startNonce = await owner.getTransactionCount("latest");
+    const transactions = [
+      await runTransaction(spyLogger, token, "approve", [spender.address, 1], undefined, nonceManager),
+      await runTransaction(spyLogger, token, "approve", [spender.address, 2], undefined, nonceManager),
+    ];
+    expect(transactions.map(({ nonce }) => nonce)).to.deep.equal([startNonce, startNonce + 1]);
+    expect(nonceManager.getPendingTransactionCount()).to.equal(2);
+
+    // Mined transactions are no longer tracked.
+    await hre.network.provider.send("evm_mine");
+    await nonceManager.update();
+    expect(nonceManager.getPendingTransactionCount()).to.equal(0);
+  });
+
+  it("Reserves distinct nonces for concurrent callers", async function () {
+    nonceManager = new NonceManager(spyLogger);
+    const startNonce = await owner.getTransactionCount("pending");
+    const nonces = await Promise.all([1, 2, 3].map(() => nonceManager.getNonce(owner)));
+    expect(nonces).to.deep.equal([startNonce, startNonce + 1, startNonce + 2]);
+
+    // Once reset, nonces are counted from the node's pending transaction count again.
+    await nonceManager.resetNonce(owner);
+    expect(await nonceManager.getNonce(owner)).to.equal(startNonce);
+  });
+
+  it("Replaces stuck transactions with escalated fees", async function () {
+    nonceManager = new NonceManager(spyLogger, 0);
+    const transaction = await runTransaction(
+      spyLogger,
+      token,
+      "approve",
+      [spender.address, 1],
+      undefined,
+      nonceManager
+    );
+    const replacements = [];
+    nonceManager.onReplaced(transaction.hash, (oldHash: string, newHash: string) => replacements.push(newHash));
+
+    await nonceManager.update();
+    expect(replacements.length).to.equal(1);
+    expect(lastSpyLogIncludes(spy, "Replaced stuck transaction")).to.be.true;
+    expect(spy.getCall(-1).lastArg.oldHash).to.equal(transaction.hash);
+    expect(spy.getCall(-1).lastArg.newHash).to.equal(replacements[0]);
+    expect(spy.getCall(-1).lastArg.fees.maxFeePerGas).to.be.gt(transaction.maxFeePerGas);
+
+    // The replacement, not the original, is mined and carries out the same call.
+    await hre.network.provider.send("evm_mine");
+    expect((await ethers.provider.getTransactionReceipt(replacements[0])).status).to.equal(1);
+    expect(await token.allowance(owner.address, spender.address)).to.equal(1);
+  });
+
+  it("Cancels stuck transactions and stops repricing at the fee cap", async function () {
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const transaction = await runTransaction(spyLogger, token, "approve", [spender.address, 1]);
+    // Cap the fees just above what is needed for one replacement.
+    const maxFeePerGas = transaction.maxFeePerGas.mul(toBNWei("1.5")).div(toBNWei(1));
+    const gasPriceClient = new GasPriceClient(spyLogger, { [chainId]: { maxFeePerGas } });
+    nonceManager = new NonceManager(spyLogger, 0, "cancel", 1.25, gasPriceClient);
+    await nonceManager.trackTransaction(owner, transaction);
+
+    await nonceManager.update();
+    expect(lastSpyLogIncludes(spy, "Cancelled stuck transaction")).to.be.true;
+    await nonceManager.update();
+    await nonceManager.update();
+    expect(lastSpyLogIncludes(spy, "is at the fee cap")).to.be.true;
+    expect(spy.getCalls().filter((call) => call.lastArg.message.includes("fee cap")).length).to.equal(1);
+
+    await hre.network.provider.send("evm_mine");
+    const cancellations = spy.getCalls().filter((call) => call.lastArg.message.includes("Cancelled"));
+    const cancellation = await ethers.provider.getTransaction(cancellations[cancellations.length - 1].lastArg.newHash);
+    expect(cancellation.to).to.equal(owner.address);
+    expect(cancellation.maxFeePerGas).to.be.lte(maxFeePerGas);
+    expect(await token.allowance(owner.address, spender.address)).to.equal(0);
+  });
+
+  it("Leaves stuck transactions pending while the policy skips fees above its ceiling", async function () {
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const transaction = await runTransaction(spyLogger, token, "approve", [spender.address, 1]);
+    const maxFeePerGas = transaction.maxFeePerGas.div(10);
+    const gasPriceClient = new GasPriceClient(spyLogger, { [chainId]: { maxFeePerGas, onCeiling: "skip" } });
+    nonceManager = new NonceManager(spyLogger, 0, "replace", 1.25, gasPriceClient);
+    await nonceManager.trackTransaction(owner, transaction);
+
+    await nonceManager.update();
+    expect(lastSpyLogIncludes(spy, "fees are above the ceiling")).to.be.true;
+    expect(spy.getCalls().some((call) => call.lastArg.message.includes("Replaced"))).to.be.false;
+    expect(nonceManager.getPendingTransactionCount()).to.equal(1);
+  });
+});
@@ -1,4 +1,4 @@
-import { expect, createSpyLogger, winston, toBNWei, toBN } from "./utils";
+import { expect, createSpyLogger, winston, toBNWei, toBN, sinon, randomAddress, Contract } from "./utils";
 import { MockHubPoolClient, MockProfitClient } from "./mocks";
 import { Deposit } from "../src/interfaces";
 
@@ -63,9 +63,67 @@ describe("ProfitClient: Consider relay profit", async function () {
     const marginallyUsdcL2ProfitableRelay = { relayerFeePct: toBNWei("0.00101"), destinationChainId: 10 } as Deposit;
     expect(profitClient.isFillProfitable(marginallyUsdcL2ProfitableRelay, relaySize)).to.be.true;
   });
+  it("Considers the gas cost of the fill", async function () {
+    // A relay of 1 WETH with a 1% fee is a revenue of 30 USD. This clears the 10 USD minimum on mainnet if gas is free.
+    const relaySize = toBNWei(1);
+    hubPoolClient.setTokenInfoToReturn({ address: mainnetWeth, decimals: 18, symbol: "WETH" });
+    const wethL1Relay = { relayerFeePct: toBNWei("0.01"), destinationChainId: 1 } as Deposit;
+    expect(profitClient.isFillProfitable(wethL1Relay, relaySize)).to.be.true;
+
+    // A gas cost of 15 USD leaves a net profit of 15 USD which is still above the minimum.
+    expect(profitClient.isFillProfitable(wethL1Relay, relaySize, toBNWei(15))).to.be.true;
+
+    // A gas cost of 25 USD leaves a net profit of 5 USD which is below the minimum.
+    expect(profitClient.isFillProfitable(wethL1Relay, relaySize, toBNWei(25))).to.be.false;
+
+    // A configured minimum profit overrides the default. With a minimum of 0 the fill is profitable until gas exceeds
+    // the revenue.
+    const lowMarginProfitClient = new MockProfitClient(spyLogger, hubPoolClient, toBN(0), { 1: toBN(0) });
+    lowMarginProfitClient.setTokenPrices({ [mainnetWeth]: toBNWei(3000) });
+    expect(lowMarginProfitClient.isFillProfitable(wethL1Relay, relaySize, toBNWei(25))).to.be.true;
+    expect(lowMarginProfitClient.isFillProfitable(wethL1Relay, relaySize, toBNWei(31))).to.be.false;
+
+    // Chains without a configured minimum require the mainnet minimum of 10 USD.
+    const unknownChainRelay = { relayerFeePct: toBNWei("0.01"), destinationChainId: 1234 } as Deposit;
+    expect(profitClient.isFillProfitable(unknownChainRelay, relaySize, toBNWei(15))).to.be.true;
+    expect(profitClient.isFillProfitable(unknownChainRelay, relaySize, toBNWei(25))).to.be.false;
+  });
+  it("Estimates gas costs once per method and chain at the provider's gas price", async function () {
+    profitClient.setNativeTokenPrices({ 1: toBNWei(3000) });
+    const estimateGas = sinon.stub().resolves(toBN(100000));
+    const getGasPrice = sinon.stub().resolves(toBN(10e9));
+    const contract = {
+      address: randomAddress(),
+      estimateGas: { fillRelay: estimateGas },
+      provider: { getGasPrice },
+    } as unknown as Contract;
+
+    // 100k gas at 10 gwei is 0.001 ETH, or 3 USD.
+    for (const depositId of [1, 2])
+      expect(await profitClient.estimateGasCostUsd(1, contract, "fillRelay", [depositId])).to.equal(toBNWei(3));
+    expect(estimateGas.callCount).to.equal(1);
+    expect(getGasPrice.callCount).to.equal(1);
+  });
   it("Captures unprofitable fills", async function () {
-    const deposit = { relayerFeePct: toBNWei("0.003"), originChainId: 1, depositId: 42 } as Deposit;
-    profitClient.captureUnprofitableFill(deposit, toBNWei(1));
-    expect(profitClient.getUnprofitableFills()).to.deep.equal({ 1: [{ deposit, fillAmount: toBNWei(1) }] });
+    hubPoolClient.setTokenInfoToReturn({ address: mainnetWeth, decimals: 18, symbol: "WETH" });
+    const deposit = {
+      relayerFeePct: toBNWei("0.003"),
+      originChainId: 1,
+      destinationChainId: 10,
+      depositId: 42,
+    } as Deposit;
+    // Revenue of 1 WETH * 0.3% * 3000 = 9 USD, less 2 USD of gas.
+    profitClient.captureUnprofitableFill(deposit, toBNWei(1), toBNWei(2));
+    expect(profitClient.getUnprofitableFills()).to.deep.equal({
+      1: [
+        {
+          deposit,
+          fillAmount: toBNWei(1),
+          fillRevenueInUsd: toBNWei(9),
+          gasCostInUsd: toBNWei(2),
+          netProfitInUsd: toBNWei(7),
+        },
+      ],
+    });
   });
 });
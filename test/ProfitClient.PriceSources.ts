@@ -0,0 +1,125 @@
+import { expect, createSpyLogger, winston, toBNWei } from "./utils";
+import { MockHubPoolClient } from "./mocks";
+import { PriceSource, TokenPrice } from "../src/interfaces";
+import { getCurrentTime } from "../src/utils";
+
+import { ProfitClient, StaticPriceSource } from "../src/clients"; // Tested
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+let hubPoolClient: MockHubPoolClient, spy: sinon.SinonSpy, spyLogger: winston.Logger;
+
+const mainnetWeth = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const mainnetUsdc = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+
+// A price source that is always unavailable, such as a network source when the bot is running offline.
+class FailingPriceSource implements PriceSource {
+  readonly name = "failing";
+  async getPricesByAddress(): Promise<{ [address: string]: TokenPrice }> {
+    throw new Error("Source unavailable");
+  }
+}
+
+describe("ProfitClient: Price sources", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.addL1Token({ address: mainnetWeth, symbol: "WETH", decimals: 18 });
+    hubPoolClient.addL1Token({ address: mainnetUsdc, symbol: "USDC", decimals: 6 });
+  });
+
+  it("Falls back to lower priority sources for tokens that are not priced", async function () {
+    const primary = new StaticPriceSource({ [mainnetWeth]: 3000 }, "primary", 100);
+    const secondary = new StaticPriceSource({ [mainnetWeth]: 2000, [mainnetUsdc]: 1 }, "secondary", 200);
+    const profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(0), {}, [primary, secondary]);
+    await profitClient.update();
+
+    expect(profitClient.getPriceOfToken(mainnetWeth)).to.equal(toBNWei(3000));
+    expect(profitClient.getPriceInfoOfToken(mainnetWeth)).to.deep.equal({
+      price: toBNWei(3000),
+      timestamp: 100,
+      source: "primary",
+    });
+    expect(profitClient.getPriceInfoOfToken(mainnetUsdc)).to.deep.equal({
+      price: toBNWei(1),
+      timestamp: 200,
+      source: "secondary",
+    });
+    // WETH is also the native token of mainnet, so it is used to price gas.
+    expect(profitClient.getNativeTokenPrice(1)).to.equal(toBNWei(3000));
+  });
+
+  it("Skips sources that error", async function () {
+    const fallback = new StaticPriceSource({ [mainnetWeth]: 3000, [mainnetUsdc]: 1 }, "fallback");
+    const profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(0), {}, [
+      new FailingPriceSource(),
+      fallback,
+    ]);
+    await profitClient.update();
+
+    expect(profitClient.getAllPrices()).to.deep.equal({ [mainnetWeth]: toBNWei(3000), [mainnetUsdc]: toBNWei(1) });
+    expect(profitClient.getPriceInfoOfToken(mainnetUsdc).source).to.equal("fallback");
+  });
+
+  it("Keeps the last known price if no source can price a token", async function () {
+    const profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(0), {}, [
+      new StaticPriceSource({ [mainnetWeth]: 3000 }, "static", 100),
+    ]);
+    await profitClient.update();
+
+    expect(profitClient.getPriceInfoOfToken(mainnetWeth)).to.deep.equal({
+      price: toBNWei(3000),
+      timestamp: 100,
+      source: "static",
+    });
+    expect(profitClient.getPriceInfoOfToken(mainnetUsdc)).to.be.undefined;
+    expect(spy.getCall(-2).lastArg.mrkdwn).to.include("USDC Not found and no price is known");
+  });
+
+  it("Runs offline from a local price file", async function () {
+    // Addresses in the file are matched case-insensitively. Entries can optionally include their own timestamp.
+    const priceFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "prices-")), "prices.json");
+    fs.writeFileSync(
+      priceFile,
+      JSON.stringify({
+        [mainnetWeth.toUpperCase().replace("0X", "0x")]: "3000.5",
+        [mainnetUsdc]: { price: 1, timestamp: 42 },
+      })
+    );
+    const profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(0), {}, [
+      StaticPriceSource.fromFile(priceFile),
+    ]);
+    await profitClient.update();
+
+    expect(profitClient.getPriceOfToken(mainnetWeth)).to.equal(toBNWei("3000.5"));
+    expect(profitClient.getPriceInfoOfToken(mainnetWeth).source).to.equal(`file:${priceFile}`);
+    expect(profitClient.getPriceInfoOfToken(mainnetUsdc).timestamp).to.equal(42);
+  });
+
+  it("Ages price file entries from when the file was last modified", async function () {
+    const priceFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "prices-")), "prices.json");
+    fs.writeFileSync(priceFile, JSON.stringify({ [mainnetWeth]: 3000, [mainnetUsdc]: 1 }));
+    const modifiedAt = getCurrentTime() - 601;
+    fs.utimesSync(priceFile, modifiedAt, modifiedAt);
+    const profitClient = new ProfitClient(
+      spyLogger,
+      hubPoolClient,
+      toBNWei(0),
+      {},
+      [StaticPriceSource.fromFile(priceFile)],
+      { maxAge: 600 }
+    );
+    await profitClient.update();
+    expect(profitClient.getPriceInfoOfToken(mainnetWeth).timestamp).to.equal(modifiedAt);
+    expect(profitClient.getInvalidPrices()[mainnetWeth]).to.include("above the max age of 600s");
+
+    // Updating the file refreshes the prices.
+    fs.writeFileSync(priceFile, JSON.stringify({ [mainnetWeth]: 3100, [mainnetUsdc]: 1 }));
+    await profitClient.update();
+    expect(profitClient.getPriceOfToken(mainnetWeth)).to.equal(toBNWei(3100));
+    expect(profitClient.getInvalidPrices()).to.deep.equal({});
+  });
+});
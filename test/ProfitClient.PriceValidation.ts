@@ -0,0 +1,137 @@
+import { expect, createSpyLogger, winston, sinon, toBNWei, BigNumber } from "./utils";
+import { MockHubPoolClient } from "./mocks";
+import { Deposit, PriceSource, TokenPrice } from "../src/interfaces";
+import { getCurrentTime } from "../src/utils";
+
+import { ProfitClient } from "../src/clients"; // Tested
+
+let hubPoolClient: MockHubPoolClient, spy: sinon.SinonSpy, spyLogger: winston.Logger;
+let priceSource: TestPriceSource, profitClient: ProfitClient;
+
+const mainnetWeth = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const deposit = { relayerFeePct: toBNWei("0.1"), destinationChainId: 1 } as Deposit;
+
+// Price source whose prices can be changed between updates of the ProfitClient.
+class TestPriceSource implements PriceSource {
+  readonly name = "test";
+  prices: { [address: string]: TokenPrice } = {};
+
+  setPrice(address: string, price: BigNumber, timestamp = getCurrentTime()) {
+    this.prices[address] = { price, timestamp, source: this.name };
+  }
+
+  async getPricesByAddress(addresses: string[]): Promise<{ [address: string]: TokenPrice }> {
+    return Object.fromEntries(addresses.filter((a) => this.prices[a]).map((a) => [a, this.prices[a]]));
+  }
+}
+
+function countLogs(message: string): number {
+  return spy.getCalls().filter((call) => call.lastArg.message === message).length;
+}
+
+describe("ProfitClient: Price validation", async function () {
+  beforeEach(async function () {
+    ({ spy, spyLogger } = createSpyLogger());
+
+    hubPoolClient = new MockHubPoolClient(null, null);
+    hubPoolClient.addL1Token({ address: mainnetWeth, symbol: "WETH", decimals: 18 });
+    hubPoolClient.setTokenInfoToReturn({ address: mainnetWeth, symbol: "WETH", decimals: 18 });
+    priceSource = new TestPriceSource();
+    profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(0), {}, [priceSource], {
+      maxAge: 600,
+      maxDeviationPct: toBNWei("0.2"),
+    });
+  });
+
+  it("Pauses relays of tokens without a price and alerts once", async function () {
+    await profitClient.update();
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+    expect(profitClient.getInvalidPrices()).to.deep.equal({ [mainnetWeth]: "no price is available" });
+    expect(countLogs("Pausing relays of WETH due to invalid price 🛑")).to.equal(1);
+
+    priceSource.setPrice(mainnetWeth, toBNWei(3000));
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+    expect(countLogs("Resuming relays of WETH 🟢")).to.equal(1);
+  });
+
+  it("Pauses relays of tokens with stale prices", async function () {
+    priceSource.setPrice(mainnetWeth, toBNWei(3000), getCurrentTime() - 601);
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+    expect(profitClient.getInvalidPrices()[mainnetWeth]).to.include("above the max age of 600s");
+
+    priceSource.setPrice(mainnetWeth, toBNWei(3000));
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+  });
+
+  it("Pauses relays of tokens whose price moves out of bounds", async function () {
+    priceSource.setPrice(mainnetWeth, toBNWei(3000), getCurrentTime() - 10);
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+
+    // A 50% move is above the 20% bound.
+    priceSource.setPrice(mainnetWeth, toBNWei(4500), getCurrentTime() - 5);
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+    expect(profitClient.getInvalidPrices()[mainnetWeth]).to.include("moved 50.0% from the last valid price");
+
+    // The rejected price is not the reference for later prices, so a new price near it is still out of bounds until
+    // the move has lasted for the max price age.
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+    priceSource.setPrice(mainnetWeth, toBNWei(4510), getCurrentTime() - 1);
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+
+    // Relays resume once the price is back within bounds of the last valid price.
+    priceSource.setPrice(mainnetWeth, toBNWei(3300));
+    await profitClient.update();
+    expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+    expect(countLogs("Pausing relays of WETH due to invalid price 🛑")).to.equal(1);
+    expect(countLogs("Resuming relays of WETH 🟢")).to.equal(1);
+  });
+
+  it("Resumes relays once a move out of bounds has lasted for the max price age", async function () {
+    const clock = sinon.useFakeTimers({ now: Date.now(), toFake: ["Date"] });
+    try {
+      priceSource.setPrice(mainnetWeth, toBNWei(3000));
+      await profitClient.update();
+      expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+
+      // The price moves 50% and stays near its new level, but has not yet held for the max price age of 600s.
+      clock.tick(60 * 1000);
+      priceSource.setPrice(mainnetWeth, toBNWei(4500));
+      await profitClient.update();
+      expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+      clock.tick(500 * 1000);
+      priceSource.setPrice(mainnetWeth, toBNWei(4600));
+      await profitClient.update();
+      expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.true;
+
+      // Once it has, the moved price becomes the last valid price and relays resume.
+      clock.tick(100 * 1000);
+      priceSource.setPrice(mainnetWeth, toBNWei(4550));
+      await profitClient.update();
+      expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+      expect(countLogs("Accepting lasting price move of WETH")).to.equal(1);
+      expect(countLogs("Resuming relays of WETH 🟢")).to.equal(1);
+
+      // Later prices are checked against the new level.
+      clock.tick(60 * 1000);
+      priceSource.setPrice(mainnetWeth, toBNWei(4000));
+      await profitClient.update();
+      expect(profitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it("Never pauses relays if all relays are accepted", async function () {
+    const acceptAllProfitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(1), {}, [priceSource]);
+    await acceptAllProfitClient.update();
+    expect(acceptAllProfitClient.isRelayPausedForDeposit(deposit)).to.be.false;
+  });
+});
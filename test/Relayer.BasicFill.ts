@@ -1,12 +1,14 @@
 import { expect, deposit, ethers, Contract, SignerWithAddress, setupTokensForWallet, getLastBlockTime } from "./utils";
 import { lastSpyLogIncludes, createSpyLogger, deployConfigStore, deployAndConfigureHubPool, winston } from "./utils";
 import { deploySpokePoolWithToken, enableRoutesOnHubPool, destinationChainId } from "./utils";
-import { originChainId, sinon, toBNWei } from "./utils";
-import { amountToLp, defaultTokenConfig } from "./constants";
+import { originChainId, sinon, toBNWei, signForSpeedUp, hre } from "./utils";
+import { amountToLp, defaultTokenConfig, CHAIN_ID_TEST_LIST } from "./constants";
 import { SpokePoolClient, HubPoolClient, AcrossConfigStoreClient, MultiCallerClient } from "../src/clients";
-import { TokenClient, ProfitClient } from "../src/clients";
+import { TokenClient, InventoryClient, ProfitClient, AlertClient, PendingFillClient } from "../src/clients";
+import { ExposureClient, LedgerClient } from "../src/clients";
 
 import { Relayer } from "../src/relayer/Relayer"; // Tested
+import { RelayerConfig } from "../src/relayer/RelayerConfig";
 
 let spokePool_1: Contract, erc20_1: Contract, spokePool_2: Contract, erc20_2: Contract;
 let hubPool: Contract, configStore: Contract, l1Token: Contract;
@@ -49,6 +51,7 @@ describe("Relayer: Check for Unfilled Deposits and Fill", async function () {
     const spokePoolClients = { [originChainId]: spokePoolClient_1, [destinationChainId]: spokePoolClient_2 };
     tokenClient = new TokenClient(spyLogger, relayer.address, spokePoolClients, hubPoolClient);
     profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(1)); // Set relayer discount to 100%.
+    const pendingFillClient = new PendingFillClient(spyLogger, spokePoolClients);
     relayerInstance = new Relayer(spyLogger, {
       spokePoolClients,
       hubPoolClient,
@@ -56,6 +59,25 @@ describe("Relayer: Check for Unfilled Deposits and Fill", async function () {
       tokenClient,
       profitClient,
       multiCallerClient,
+      inventoryClient: new InventoryClient(spyLogger, { tokenConfig: {} }, tokenClient, hubPoolClient),
+      alertClient: new AlertClient(spyLogger, relayer.address),
+      pendingFillClient,
+      exposureClient: new ExposureClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        pendingFillClient,
+        CHAIN_ID_TEST_LIST
+      ),
+      ledgerClient: new LedgerClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        profitClient,
+        CHAIN_ID_TEST_LIST
+      ),
     });
 
     await setupTokensForWallet(spokePool_1, owner, [l1Token], null, 100); // Seed owner to LP.
@@ -107,6 +129,129 @@ describe("Relayer: Check for Unfilled Deposits and Fill", async function () {
     expect(multiCallerClient.transactionCount()).to.equal(0); // no Transactions to send.
     expect(lastSpyLogIncludes(spy, "No unfilled deposits")).to.be.true;
   });
+
+  it("Does not refill deposits with pending fills", async function () {
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    const deposit1 = await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+
+    await updateAllClients();
+    await relayerInstance.checkForUnfilledDepositsAndFill();
+    await multiCallerClient.executeTransactionQueue();
+    const { pendingFillClient } = relayerInstance.clients;
+    expect(pendingFillClient.getPendingFills().length).to.equal(1);
+
+    // Re-run the relayer before the destination client has seen the fill, as happens if the fill transaction is still
+    // pending. The pending fill covers the deposit so it should not be filled again.
+    await spokePoolClient_1.update();
+    await relayerInstance.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(0);
+    expect(lastSpyLogIncludes(spy, "No unfilled deposits")).to.be.true;
+
+    // Once the destination client includes the mined fill the pending fill is released.
+    await updateAllClients();
+    expect(pendingFillClient.getPendingFills().length).to.equal(0);
+
+    // Pending fills whose transaction is unknown to the node were dropped or replaced, so they are released too.
+    pendingFillClient.addPendingFill(deposit1, deposit1.amount, originChainId, ethers.utils.hexZeroPad("0x01", 32));
+    expect(pendingFillClient.getPendingFillAmount(deposit1)).to.equal(deposit1.amount);
+    await pendingFillClient.update();
+    expect(pendingFillClient.getPendingFills().length).to.equal(0);
+    expect(lastSpyLogIncludes(spy, "Pending fill transaction was dropped or replaced")).to.be.true;
+  });
+
+  it("Holds deposits pending confirmation until they reach the origin chain's confirmation depth", async function () {
+    const confirmingRelayer = new Relayer(spyLogger, relayerInstance.clients, {
+      minDepositConfirmations: { [originChainId]: [{ usdThreshold: toBNWei(0), minConfirmations: 3 }] },
+    } as unknown as RelayerConfig);
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    const deposit1 = await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+
+    // The deposit is only confirmed by the block it was mined in.
+    await updateAllClients();
+    await confirmingRelayer.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(0);
+    const pendingLog = spy.getCalls().find((call) => call.lastArg?.message === "Deposits pending confirmation");
+    expect(pendingLog.lastArg.pendingConfirmation).to.deep.equal([
+      { depositId: deposit1.depositId, confirmations: 1, requiredConfirmations: 3 },
+    ]);
+
+    // Once enough blocks are mined on top of the deposit it is filled.
+    await hre.network.provider.send("evm_mine");
+    await hre.network.provider.send("evm_mine");
+    await updateAllClients();
+    await confirmingRelayer.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(1);
+  });
+
+  it("Requires the largest confirmation tier for deposits that can not be priced", async function () {
+    const confirmingRelayer = new Relayer(spyLogger, relayerInstance.clients, {
+      minDepositConfirmations: {
+        [originChainId]: [
+          { usdThreshold: toBNWei(0), minConfirmations: 2 },
+          { usdThreshold: toBNWei(10000), minConfirmations: 10 },
+        ],
+      },
+    } as unknown as RelayerConfig);
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    const deposit1 = await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    await updateAllClients();
+
+    // The profit client has not fetched any prices, so the deposit's USD size is unknown.
+    expect(confirmingRelayer.getMinDepositConfirmations(deposit1)).to.equal(10);
+    expect(relayerInstance.getMinDepositConfirmations(deposit1)).to.equal(0);
+  });
+
+  it("Stops taking new fills once an exposure limit is reached", async function () {
+    const { clients } = relayerInstance;
+    const exposureClient = new ExposureClient(
+      spyLogger,
+      relayer.address,
+      clients.spokePoolClients,
+      hubPoolClient,
+      clients.pendingFillClient,
+      CHAIN_ID_TEST_LIST,
+      { [l1Token.address]: { maxExposure: "0" } }
+    );
+    const limitedRelayer = new Relayer(spyLogger, { ...clients, exposureClient });
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+
+    await updateAllClients();
+    await limitedRelayer.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(0);
+    expect(lastSpyLogIncludes(spy, "Exposure limit reached, not taking new fills 🚧")).to.be.true;
+  });
+
+  it("Fills sped up deposits with the updated fee", async function () {
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    const deposit1 = await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+
+    // Speed up the deposit to a higher relayer fee.
+    const newRelayerFeePct = toBNWei(0.1337);
+    const speedUpSignature = await signForSpeedUp(depositor, deposit1, newRelayerFeePct);
+    await spokePool_1.speedUpDeposit(depositor.address, newRelayerFeePct, deposit1.depositId, speedUpSignature);
+
+    await updateAllClients();
+    await relayerInstance.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(1); // One transaction, filling the one deposit.
+
+    const tx = await multiCallerClient.executeTransactionQueue();
+    expect(lastSpyLogIncludes(spy, "Speed up applied")).to.be.true;
+    expect(tx.length).to.equal(1); // There should have been exactly one transaction.
+
+    // The fill should reference the original relayer fee but have been applied with the updated fee.
+    const fillEvents2 = await spokePool_2.queryFilter(spokePool_2.filters.FilledRelay());
+    expect(fillEvents2.length).to.equal(1);
+    expect(fillEvents2[0].args.depositId).to.equal(deposit1.depositId);
+    expect(fillEvents2[0].args.relayerFeePct).to.equal(deposit1.relayerFeePct);
+    expect(fillEvents2[0].args.appliedRelayerFeePct).to.equal(newRelayerFeePct);
+
+    // The deposit is now filled, so re-running the relayer should not produce any more fills.
+    multiCallerClient.clearTransactionQueue();
+    await updateAllClients();
+    await relayerInstance.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(0);
+  });
 });
 
 async function updateAllClients() {
@@ -115,4 +260,5 @@ async function updateAllClients() {
   await tokenClient.update();
   await spokePoolClient_1.update();
   await spokePoolClient_2.update();
+  await relayerInstance.clients.pendingFillClient.update();
 }
@@ -6,9 +6,10 @@ import {
 } from "./utils";
 import { expect, deposit, ethers, Contract, getLastBlockTime, contractAt, addLiquidity } from "./utils";
 import { SignerWithAddress, setupTokensForWallet, deployConfigStore, winston, sinon, toBNWei } from "./utils";
-import { amountToLp, defaultTokenConfig } from "./constants";
+import { amountToLp, defaultTokenConfig, CHAIN_ID_TEST_LIST } from "./constants";
 import { HubPoolClient, AcrossConfigStoreClient, MultiCallerClient } from "../src/clients";
-import { TokenClient, ProfitClient } from "../src/clients";
+import { TokenClient, InventoryClient, ProfitClient, AlertClient, PendingFillClient } from "../src/clients";
+import { ExposureClient, LedgerClient } from "../src/clients";
 
 import { Relayer } from "../src/relayer/Relayer"; // Tested
 
@@ -58,6 +59,7 @@ describe("Relayer: Iterative fill", async function () {
     tokenClient = new TokenClient(spyLogger, relayer_signer.address, spokePoolClients, hubPoolClient);
     profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(1)); // Set relayer discount to 100%.
     await updateAllClients();
+    const pendingFillClient = new PendingFillClient(spyLogger, spokePoolClients);
     relayer = new Relayer(spyLogger, {
       spokePoolClients,
       hubPoolClient,
@@ -65,6 +67,25 @@ describe("Relayer: Iterative fill", async function () {
       tokenClient,
       profitClient,
       multiCallerClient,
+      inventoryClient: new InventoryClient(spyLogger, { tokenConfig: {} }, tokenClient, hubPoolClient),
+      alertClient: new AlertClient(spyLogger, relayer_signer.address),
+      pendingFillClient,
+      exposureClient: new ExposureClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        pendingFillClient,
+        CHAIN_ID_TEST_LIST
+      ),
+      ledgerClient: new LedgerClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        profitClient,
+        CHAIN_ID_TEST_LIST
+      ),
     });
 
     let depositCount = 0;
@@ -2,9 +2,10 @@ import { expect, deposit, ethers, Contract, SignerWithAddress, setupTokensForWal
 import { lastSpyLogIncludes, createSpyLogger, deployConfigStore, deployAndConfigureHubPool, winston } from "./utils";
 import { deploySpokePoolWithToken, enableRoutesOnHubPool, destinationChainId, spyLogIncludes } from "./utils";
 import { originChainId, sinon, toBNWei } from "./utils";
-import { amountToLp, defaultTokenConfig, amountToDeposit } from "./constants";
+import { amountToLp, defaultTokenConfig, amountToDeposit, CHAIN_ID_TEST_LIST } from "./constants";
 import { SpokePoolClient, HubPoolClient, AcrossConfigStoreClient, MultiCallerClient } from "../src/clients";
-import { TokenClient, ProfitClient } from "../src/clients";
+import { TokenClient, InventoryClient, ProfitClient, AlertClient, PendingFillClient } from "../src/clients";
+import { ExposureClient, LedgerClient } from "../src/clients";
 
 import { Relayer } from "../src/relayer/Relayer"; // Tested
 
@@ -49,6 +50,7 @@ describe("Relayer: Zero sized fill for slow relay", async function () {
     const spokePoolClients = { [originChainId]: spokePoolClient_1, [destinationChainId]: spokePoolClient_2 };
     tokenClient = new TokenClient(spyLogger, relayer.address, spokePoolClients, hubPoolClient);
     profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(1)); // Set relayer discount to 100%.
+    const pendingFillClient = new PendingFillClient(spyLogger, spokePoolClients);
     relayerInstance = new Relayer(spyLogger, {
       spokePoolClients,
       hubPoolClient,
@@ -56,6 +58,25 @@ describe("Relayer: Zero sized fill for slow relay", async function () {
       tokenClient,
       profitClient,
       multiCallerClient,
+      inventoryClient: new InventoryClient(spyLogger, { tokenConfig: {} }, tokenClient, hubPoolClient),
+      alertClient: new AlertClient(spyLogger, relayer.address),
+      pendingFillClient,
+      exposureClient: new ExposureClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        pendingFillClient,
+        CHAIN_ID_TEST_LIST
+      ),
+      ledgerClient: new LedgerClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        profitClient,
+        CHAIN_ID_TEST_LIST
+      ),
     });
 
     await setupTokensForWallet(spokePool_1, owner, [l1Token], null, 100); // Seed owner to LP.
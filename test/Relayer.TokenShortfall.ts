@@ -2,7 +2,13 @@ import { deploySpokePoolWithToken, enableRoutesOnHubPool, destinationChainId, or
 import { expect, deposit, ethers, Contract, SignerWithAddress, setupTokensForWallet, getLastBlockTime } from "./utils";
 import { lastSpyLogIncludes, toBNWei, createSpyLogger, deployConfigStore } from "./utils";
 import { deployAndConfigureHubPool, winston } from "./utils";
-import { amountToLp, l1TokenTransferThreshold, sampleRateModel, defaultTokenConfig } from "./constants";
+import {
+  amountToLp,
+  l1TokenTransferThreshold,
+  sampleRateModel,
+  defaultTokenConfig,
+  CHAIN_ID_TEST_LIST,
+} from "./constants";
 import {
   SpokePoolClient,
   HubPoolClient,
@@ -10,9 +16,11 @@ import {
   MultiCallerClient,
   ProfitClient,
 } from "../src/clients";
-import { TokenClient } from "../src/clients";
+import { TokenClient, InventoryClient, AlertClient, PendingFillClient } from "../src/clients";
+import { ExposureClient, LedgerClient } from "../src/clients";
 
 import { Relayer } from "../src/relayer/Relayer"; // Tested
+import { RelayerConfig } from "../src/relayer/RelayerConfig";
 
 let spokePool_1: Contract, erc20_1: Contract, spokePool_2: Contract, erc20_2: Contract;
 let hubPool: Contract, configStore: Contract, l1Token: Contract;
@@ -53,6 +61,7 @@ describe("Relayer: Token balance shortfall", async function () {
     const spokePoolClients = { [originChainId]: spokePoolClient_1, [destinationChainId]: spokePoolClient_2 };
     tokenClient = new TokenClient(spyLogger, relayer.address, spokePoolClients, hubPoolClient);
     profitClient = new ProfitClient(spyLogger, hubPoolClient, toBNWei(1)); // Set the profit discount to 1 (ignore relay cost.)
+    const pendingFillClient = new PendingFillClient(spyLogger, spokePoolClients);
     relayerInstance = new Relayer(spyLogger, {
       spokePoolClients,
       hubPoolClient,
@@ -60,6 +69,25 @@ describe("Relayer: Token balance shortfall", async function () {
       tokenClient,
       profitClient,
       multiCallerClient,
+      inventoryClient: new InventoryClient(spyLogger, { tokenConfig: {} }, tokenClient, hubPoolClient),
+      alertClient: new AlertClient(spyLogger, relayer.address),
+      pendingFillClient,
+      exposureClient: new ExposureClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        pendingFillClient,
+        CHAIN_ID_TEST_LIST
+      ),
+      ledgerClient: new LedgerClient(
+        spyLogger,
+        tokenClient.relayerAddress,
+        spokePoolClients,
+        hubPoolClient,
+        profitClient,
+        CHAIN_ID_TEST_LIST
+      ),
     });
 
     // Seed Owner and depositor wallets but dont seed relayer to test how the relayer handles being out of funds.
@@ -98,26 +126,113 @@ describe("Relayer: Token balance shortfall", async function () {
     // At the end of the execution the tokenClient should have correctly flushed.
     expect(tokenClient.anyCapturedShortFallFills()).to.be.false;
 
-    // Submitting another relay should increment the shortfall and log accordingly. Total shortfall of 250 now.
+    // Submitting another relay increments the shortfall to 250. The shortfall on this chain and token was already
+    // alerted on, so no new alert is sent until the reminder interval passes.
     await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
     await updateAllClients();
+    const shortfallAlertCount = countLogs("Insufficient balance to fill all deposits 💸!");
     await relayerInstance.checkForUnfilledDepositsAndFill();
-    expect(lastSpyLogIncludes(spy, `${await l1Token.symbol()} cumulative shortfall of 250.00`)).to.be.true;
-    expect(lastSpyLogIncludes(spy, "blocking deposits: 2,1,0")).to.be.true;
+    expect(countLogs("Insufficient balance to fill all deposits 💸!")).to.equal(shortfallAlertCount);
 
     // Mint more tokens to the relayer to fill the shortfall. Mint enough to just cover the most recent relay. The
-    // Other relays should not be filled.
+    // Other relays should not be filled and the shortfall stays open.
     await erc20_2.mint(relayer.address, toBNWei(60));
     await updateAllClients();
     await relayerInstance.checkForUnfilledDepositsAndFill();
-    expect(lastSpyLogIncludes(spy, `${await l1Token.symbol()} cumulative shortfall of 190.00`)).to.be.true;
-    expect(lastSpyLogIncludes(spy, "blocking deposits: 1,0")).to.be.true;
+    expect(countLogs("Insufficient balance to fill all deposits 💸!")).to.equal(shortfallAlertCount);
+    expect(Object.keys(relayerInstance.clients.alertClient.getOpenAlerts("shortfall")).length).to.equal(1);
 
     const tx = await multiCallerClient.executeTransactionQueue();
     expect(lastSpyLogIncludes(spy, "Multicall batch sent")).to.be.true;
     expect(lastSpyLogIncludes(spy, "Relayed depositId 2")).to.be.true;
     expect(tx.length).to.equal(1); // There should have been exactly one transaction.
   });
+  it("Does not spend the funds of pending fills on other deposits", async function () {
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    // Deposit 100 tokens to be relayed, three times, and seed the relayer with 200 tokens.
+    for (let i = 0; i < 3; i++) await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    await erc20_2.mint(relayer.address, toBNWei(200));
+    await updateAllClients();
+
+    // A fill of the last deposit was sent but is not yet mined, so the relayer's balance still includes its funds.
+    const pendingDeposit = spokePoolClient_1.getDeposit(destinationChainId, 2);
+    const transactionHash = ethers.utils.hexZeroPad("0x01", 32);
+    relayerInstance.clients.pendingFillClient.addPendingFill(
+      pendingDeposit,
+      toBNWei(100),
+      originChainId,
+      transactionHash
+    );
+
+    // The other two deposits compete for the remaining 100 tokens, so only one of them is filled and the other is short.
+    await relayerInstance.checkForUnfilledDepositsAndFill();
+    expect(tokenClient.getBalance(destinationChainId, erc20_2.address)).to.equal(toBNWei(0));
+    expect(lastSpyLogIncludes(spy, `${await l1Token.symbol()} cumulative shortfall of 100.00`)).to.be.true;
+  });
+
+  it("Partially fills deposits with the available balance less the reserve", async function () {
+    const partialFillRelayer = new Relayer(spyLogger, relayerInstance.clients, {
+      partialFillsEnabled: true,
+      partialFillReserve: { [l1Token.address]: "10" },
+    } as RelayerConfig);
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    // Deposit 100 tokens and seed the relayer with 50. Keeping a reserve of 10 leaves 40 to fill with.
+    await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    await erc20_2.mint(relayer.address, toBNWei(50));
+
+    await updateAllClients();
+    await partialFillRelayer.checkForUnfilledDepositsAndFill();
+    expect(lastSpyLogIncludes(spy, "Insufficient balance to fill all deposits")).to.be.true;
+
+    const tx = await multiCallerClient.executeTransactionQueue();
+    expect(tx.length).to.equal(1);
+    expect(lastSpyLogIncludes(spy, "Relayed depositId 0")).to.be.true;
+    const symbol = await l1Token.symbol();
+    expect(lastSpyLogIncludes(spy, `filled 40.00 ${symbol}, remaining 60.00 ${symbol}`)).to.be.true;
+    expect(await erc20_2.balanceOf(relayer.address)).to.equal(toBNWei(10));
+
+    // The partial fill initiates the slow relay, so with only the reserve left no zero fill is sent for the remainder.
+    await updateAllClients();
+    await partialFillRelayer.checkForUnfilledDepositsAndFill();
+    expect(multiCallerClient.transactionCount()).to.equal(0);
+  });
+  it("Captures the full unfilled amount as shortfall if the partial fill is not sent", async function () {
+    const partialFillRelayer = new Relayer(spyLogger, relayerInstance.clients, {
+      partialFillsEnabled: true,
+      partialFillReserve: { [l1Token.address]: "10" },
+    } as RelayerConfig);
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    await erc20_2.mint(relayer.address, toBNWei(50));
+    sinon.stub(profitClient, "isRelayPausedForDeposit").returns(true);
+
+    await updateAllClients();
+    await partialFillRelayer.checkForUnfilledDepositsAndFill();
+    expect(lastSpyLogIncludes(spy, `${await l1Token.symbol()} cumulative shortfall of 100.00`)).to.be.true;
+    expect(multiCallerClient.transactionCount()).to.equal(1); // Only the zero fill that initiates the slow relay.
+  });
+  it("Reminds about unresolved shortfalls and resolves them once they clear", async function () {
+    const remindingRelayer = new Relayer(spyLogger, {
+      ...relayerInstance.clients,
+      alertClient: new AlertClient(spyLogger, relayer.address, 0),
+    });
+    await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
+    await deposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    await updateAllClients();
+
+    // With a reminder interval of 0 each run re-sends the alert for the open shortfall.
+    await remindingRelayer.checkForUnfilledDepositsAndFill();
+    expect(lastSpyLogIncludes(spy, "cumulative shortfall of 100.00")).to.be.true;
+    await remindingRelayer.checkForUnfilledDepositsAndFill();
+    expect(lastSpyLogIncludes(spy, "(still unresolved)")).to.be.true;
+
+    // Once the relayer has enough balance the deposit is filled and the shortfall is resolved.
+    await erc20_2.mint(relayer.address, toBNWei(100));
+    await updateAllClients();
+    await remindingRelayer.checkForUnfilledDepositsAndFill();
+    expect(lastSpyLogIncludes(spy, "Token shortfall resolved ✅")).to.be.true;
+    expect(lastSpyLogIncludes(spy, `${await l1Token.symbol()} on Hardhat2`)).to.be.true;
+  });
   it("Produces expected logs based on insufficient multiple token balance", async function () {
     await spokePool_1.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
     await spokePool_2.setCurrentTime(await getLastBlockTime(spokePool_1.provider));
@@ -144,3 +259,7 @@ async function updateAllClients() {
   await spokePoolClient_1.update();
   await spokePoolClient_2.update();
 }
+
+function countLogs(message: string): number {
+  return spy.getCalls().filter((call) => call.lastArg.message === message).length;
+}
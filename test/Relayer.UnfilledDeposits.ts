@@ -1,16 +1,18 @@
 import { createSpyLogger, deployAndConfigureHubPool, enableRoutesOnHubPool, buildDepositStruct } from "./utils";
 import { deploySpokePoolWithToken, destinationChainId, deployConfigStore, getLastBlockTime, expect } from "./utils";
 import { simpleDeposit, fillRelay, ethers, Contract, SignerWithAddress, setupTokensForWallet, winston } from "./utils";
+import { sinon } from "./utils";
 import { amountToLp, originChainId, amountToRelay } from "./constants";
-import { SpokePoolClient, HubPoolClient, AcrossConfigStoreClient } from "../src/clients";
+import { SpokePoolClient, HubPoolClient, AcrossConfigStoreClient, PendingFillClient } from "../src/clients";
 
 import { Relayer } from "../src/relayer/Relayer"; // Tested
+import { RelayerConfig } from "../src/relayer/RelayerConfig";
 
 let spokePool_1: Contract, erc20_1: Contract, spokePool_2: Contract, erc20_2: Contract;
 let hubPool: Contract, l1Token: Contract, configStore: Contract;
 let owner: SignerWithAddress, depositor: SignerWithAddress, relayer: SignerWithAddress;
 
-let spyLogger: winston.Logger;
+let spy: sinon.SinonSpy, spyLogger: winston.Logger;
 let spokePoolClient_1: SpokePoolClient, spokePoolClient_2: SpokePoolClient;
 let configStoreClient: AcrossConfigStoreClient, hubPoolClient: HubPoolClient;
 
@@ -29,19 +31,25 @@ describe("Relayer: Unfilled Deposits", async function () {
     ]));
 
     ({ configStore } = await deployConfigStore(owner, [l1Token]));
-    ({ spyLogger } = createSpyLogger());
+    ({ spy, spyLogger } = createSpyLogger());
     hubPoolClient = new HubPoolClient(spyLogger, hubPool);
     configStoreClient = new AcrossConfigStoreClient(spyLogger, configStore, hubPoolClient);
     spokePoolClient_1 = new SpokePoolClient(spyLogger, spokePool_1, configStoreClient, originChainId);
     spokePoolClient_2 = new SpokePoolClient(spyLogger, spokePool_2, configStoreClient, destinationChainId);
 
+    const spokePoolClients = { [originChainId]: spokePoolClient_1, [destinationChainId]: spokePoolClient_2 };
     relayerInstance = new Relayer(spyLogger, {
-      spokePoolClients: { [originChainId]: spokePoolClient_1, [destinationChainId]: spokePoolClient_2 },
+      spokePoolClients,
       hubPoolClient,
       configStoreClient,
       profitClient: null,
       tokenClient: null,
       multiCallerClient: null,
+      inventoryClient: null,
+      alertClient: null,
+      pendingFillClient: new PendingFillClient(spyLogger, spokePoolClients),
+      exposureClient: null,
+      ledgerClient: null,
     });
 
     await setupTokensForWallet(spokePool_1, owner, [l1Token], null, 100); // seed the owner to LP.
@@ -127,6 +135,31 @@ describe("Relayer: Unfilled Deposits", async function () {
       { unfilledAmount: deposit1Complete.amount, deposit: deposit1Complete, fillCount: 0 },
     ]);
   });
+
+  it("Excludes deposits rejected by the relayer policy", async function () {
+    const deposit1 = await simpleDeposit(spokePool_1, erc20_1, depositor, depositor, destinationChainId);
+    const deposit2 = await simpleDeposit(spokePool_2, erc20_2, depositor, depositor, originChainId);
+    await updateAllClients();
+    const deposit2Complete = await buildDepositStruct(deposit2, hubPoolClient, configStoreClient, l1Token);
+
+    const policyRelayer = new Relayer(spyLogger, relayerInstance.clients, {
+      relayerPolicy: { originChainIds: { deny: [originChainId] } },
+    } as RelayerConfig);
+    expect(policyRelayer.getUnfilledDeposits()).to.deep.equal([
+      { unfilledAmount: deposit2.amount, deposit: deposit2Complete, fillCount: 0 },
+    ]);
+    const rejectionLog = spy.getCalls().find((call) => call.lastArg?.message.includes("rejected by relayer policy"));
+    expect(rejectionLog.lastArg.rejectedDeposits).to.deep.equal([
+      { originChainId, depositId: deposit1.depositId, rule: `originChainIds denylist contains ${originChainId}` },
+    ]);
+    expect(rejectionLog.lastArg.level).to.equal("info");
+
+    // The rejection is only logged the first time the deposit is rejected.
+    policyRelayer.getUnfilledDeposits();
+    expect(
+      spy.getCalls().filter((call) => call.lastArg?.message.includes("rejected by relayer policy")).length
+    ).to.equal(1);
+  });
 });
 
 async function updateAllClients() {
@@ -0,0 +1,58 @@
+import { expect, toBNWei, toBN, randomAddress, buildMockDeposit } from "./utils";
+
+import { RelayerPolicy } from "../src/relayer/RelayerPolicy"; // Tested
+
+const l1Token = randomAddress();
+const depositor = randomAddress();
+const recipient = randomAddress();
+
+describe("RelayerPolicy: Deposit filtering", async function () {
+  it("Allows all deposits with an empty policy", async function () {
+    expect(new RelayerPolicy().getRejectionRule(buildMockDeposit(1, 10, toBNWei(1)), l1Token, 18)).to.be.undefined;
+  });
+
+  it("Rejects deposits on denied chains or that are missing from an allowlist", async function () {
+    const policy = new RelayerPolicy({ originChainIds: { deny: [137] }, destinationChainIds: { allow: [10, 42161] } });
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBNWei(1)), l1Token, 18)).to.be.undefined;
+    expect(policy.getRejectionRule(buildMockDeposit(137, 10, toBNWei(1)), l1Token, 18)).to.equal(
+      "originChainIds denylist contains 137"
+    );
+    expect(policy.getRejectionRule(buildMockDeposit(1, 288, toBNWei(1)), l1Token, 18)).to.equal(
+      "destinationChainIds allowlist does not contain 288"
+    );
+  });
+
+  it("Matches tokens and addresses case-insensitively and lets denylists override allowlists", async function () {
+    const policy = new RelayerPolicy({
+      l1Tokens: { allow: [l1Token.toLowerCase()] },
+      depositors: { allow: [depositor], deny: [depositor.toUpperCase()] },
+    });
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBNWei(1)), randomAddress(), 18)).to.include(
+      "l1Tokens allowlist does not contain"
+    );
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBNWei(1), {}, { depositor }), l1Token, 18)).to.equal(
+      `depositors denylist contains ${depositor}`
+    );
+
+    const recipientPolicy = new RelayerPolicy({ recipients: { deny: [recipient] } });
+    expect(
+      recipientPolicy.getRejectionRule(buildMockDeposit(1, 10, toBNWei(1), {}, { recipient }), l1Token, 18)
+    ).to.equal(`recipients denylist contains ${recipient}`);
+  });
+
+  it("Enforces deposit size limits per route in whole units of the token", async function () {
+    const policy = new RelayerPolicy({
+      routeSizeLimits: { 1: { 10: { [l1Token]: { minAmount: "10", maxAmount: "1000" } } } },
+    });
+    // USDC has 6 decimals, so the limits are 10e6 and 1000e6.
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBN(10e6)), l1Token, 6)).to.be.undefined;
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBN(9e6)), l1Token, 6)).to.equal(
+      `routeSizeLimits 1->10 for ${l1Token}: amount below minAmount 10`
+    );
+    expect(policy.getRejectionRule(buildMockDeposit(1, 10, toBN(1001e6)), l1Token, 6)).to.equal(
+      `routeSizeLimits 1->10 for ${l1Token}: amount above maxAmount 1000`
+    );
+    // Other routes are not limited.
+    expect(policy.getRejectionRule(buildMockDeposit(10, 1, toBN(1)), l1Token, 6)).to.be.undefined;
+  });
+});
@@ -0,0 +1,132 @@
+import { expect, ethers, SignerWithAddress, toBNWei, createSpyLogger } from "./utils";
+import { Wallet } from "../src/utils";
+import { CommonConfig, getRoleKeyName, validateRoleSigners } from "../src/common";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { RemoteSigner, decryptKeystore } from "../src/utils"; // Tested
+
+let owner: SignerWithAddress, recipient: SignerWithAddress;
+let remoteWallet: Wallet, mockSigner: http.Server, mockSignerUrl: string;
+
+// Minimal JSON-RPC signer in the style of clef, which signs with remoteWallet.
+async function handleRequest(method: string, params: any[]) {
+  if (method === "eth_accounts") return [remoteWallet.address];
+  if (method === "eth_signTransaction") {
+    const { from, gas, type, nonce, chainId, ...transaction } = params[0];
+    if (from.toLowerCase() !== remoteWallet.address.toLowerCase()) throw new Error("Unknown account");
+    const raw = await remoteWallet.signTransaction({
+      ...transaction,
+      gasLimit: gas,
+      type: Number(type),
+      nonce: Number(nonce),
+      chainId: Number(chainId),
+    });
+    return { raw, tx: transaction };
+  }
+  throw new Error(`Method ${method} not supported`);
+}
+
+async function getRejection(promise: Promise<unknown>): Promise<string | undefined> {
+  return await promise.then(
+    () => undefined,
+    (error) => error.message
+  );
+}
+
+describe("SignerUtils: Keystore and remote signers", async function () {
+  before(async function () {
+    remoteWallet = Wallet.createRandom();
+    mockSigner = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        const { id, method, params } = JSON.parse(body);
+        const response = await handleRequest(method, params).then(
+          (result) => ({ jsonrpc: "2.0", id, result }),
+          (error) => ({ jsonrpc: "2.0", id, error: { code: -32000, message: error.message } })
+        );
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(response));
+      });
+    });
+    await new Promise<void>((resolve) => mockSigner.listen(0, "127.0.0.1", resolve));
+    mockSignerUrl = `http://127.0.0.1:${(mockSigner.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    await new Promise((resolve) => mockSigner.close(resolve));
+  });
+
+  beforeEach(async function () {
+    [owner, recipient] = await ethers.getSigners();
+  });
+
+  it("Decrypts a JSON keystore", async function () {
+    const wallet = Wallet.createRandom();
+    // A low scrypt cost keeps the test fast. Keystores created by other tools use the same format.
+    const keystore = await wallet.encrypt("password", { scrypt: { N: 1024 } });
+    expect((await decryptKeystore(keystore, "password")).address).to.equal(wallet.address);
+    expect(await getRejection(decryptKeystore(keystore, "wrong password"))).to.match(/invalid password/);
+  });
+
+  it("Uses the remote signer's first account if no address is given", async function () {
+    expect((await RemoteSigner.create(mockSignerUrl)).address).to.equal(remoteWallet.address);
+    const otherAddress = Wallet.createRandom().address;
+    expect((await RemoteSigner.create(mockSignerUrl, otherAddress)).address).to.equal(otherAddress);
+  });
+
+  it("Sends transactions signed by the remote signer", async function () {
+    await owner.sendTransaction({ to: remoteWallet.address, value: toBNWei(1) });
+    // Remote signers are connected to each chain's provider in the same way as wallets are.
+    const remoteSigner = (await RemoteSigner.create(mockSignerUrl)).connect(ethers.provider);
+    const balanceBefore = await recipient.getBalance();
+    const transaction = await remoteSigner.sendTransaction({ to: recipient.address, value: toBNWei("0.1") });
+    await transaction.wait();
+    expect(transaction.from).to.equal(remoteWallet.address);
+    expect((await recipient.getBalance()).sub(balanceBefore)).to.equal(toBNWei("0.1"));
+  });
+
+  it("Surfaces errors from the remote signer", async function () {
+    const remoteSigner = new RemoteSigner(mockSignerUrl, Wallet.createRandom().address, ethers.provider);
+    expect(await getRejection(remoteSigner.signTransaction({ to: recipient.address, value: 1, chainId: 1 }))).to.equal(
+      "Remote signer eth_signTransaction failed: Unknown account"
+    );
+  });
+
+  it("Resolves the key that each role signs with on each chain", async function () {
+    const config = new CommonConfig({
+      SIGNER_KEYS: JSON.stringify({
+        cold: { wallet: "keystore" },
+        hot: { wallet: "remote" },
+        l2: { wallet: "remote" },
+      }),
+      SIGNER_ROLES: JSON.stringify({ proposer: "cold", executor: { default: "hot", 10: "l2" } }),
+    });
+    expect(getRoleKeyName(config, "proposer", 10)).to.equal("cold");
+    expect(getRoleKeyName(config, "executor", 1)).to.equal("hot");
+    expect(getRoleKeyName(config, "executor", 10)).to.equal("l2");
+    // Roles without a key sign with the --wallet key.
+    expect(getRoleKeyName(config, "relayer", 1)).to.be.undefined;
+
+    expect(() => new CommonConfig({ SIGNER_ROLES: JSON.stringify({ proposer: "cold" }) })).to.throw(
+      /Signer role proposer uses undefined key cold/
+    );
+    expect(() => new CommonConfig({ SIGNER_ROLES: JSON.stringify({ watcher: "cold" }) })).to.throw(
+      /Unknown signer role watcher/
+    );
+  });
+
+  it("Rejects role signers that hold no gas", async function () {
+    const { spyLogger } = createSpyLogger();
+    const chainId = (await ethers.provider.getNetwork()).chainId;
+    const [funded, unfunded] = [Wallet.createRandom(), Wallet.createRandom()].map((wallet) =>
+      wallet.connect(ethers.provider)
+    );
+    await owner.sendTransaction({ to: funded.address, value: toBNWei(1) });
+    await validateRoleSigners(spyLogger, { proposer: { [chainId]: funded } });
+    expect(await getRejection(validateRoleSigners(spyLogger, { executor: { [chainId]: unfunded } }))).to.equal(
+      `Signers hold no gas: executor ${unfunded.address} on unknown`
+    );
+  });
+});
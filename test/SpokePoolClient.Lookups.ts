@@ -0,0 +1,179 @@
+import { expect, Contract, BigNumber, createSpyLogger, randomAddress, toBN, toBNWei, zeroAddress } from "./utils";
+import { originChainId, destinationChainId, repaymentChainId } from "./utils";
+import { Deposit, Fill, FillWithBlock } from "../src/interfaces";
+import { performance } from "perf_hooks";
+
+import { SpokePoolClient } from "../src/clients"; // tested
+
+// Synthetic history of a deposit on the origin chain for each deposit ID and, on the destination chain, a partial fill
+// followed by a completing fill for every other deposit ID. The lookups are only benchmarked against scanning, over a
+// history of 100k events, if BENCHMARK_IN_TEST is set.
+const benchmark = process.env.BENCHMARK_IN_TEST !== undefined;
+const numDeposits = benchmark ? 50000 : 1000;
+const depositor = randomAddress();
+const relayer = randomAddress();
+const originToken = randomAddress();
+const amount = toBNWei(10);
+const relayerFeePct = toBNWei(0.1);
+
+let originClient: SpokePoolClient, destinationClient: SpokePoolClient;
+
+// Serves the events from memory, so that the clients ingest them through update() as they would from a SpokePool.
+function constructSpokePool(chainId: number, events: { [eventName: string]: any[] }): Contract {
+  const latestBlock = Math.max(...Object.values(events).map((events) => events[events.length - 1].blockNumber));
+  const eventNames = [
+    "FundsDeposited",
+    "RequestedSpeedUpDeposit",
+    "FilledRelay",
+    "EnabledDepositRoute",
+    "TokensBridged",
+    "RelayedRootBundle",
+    "ExecutedRelayerRefundRoot",
+  ];
+  return {
+    address: randomAddress(),
+    provider: {
+      getNetwork: async () => ({ chainId }),
+      getBlockNumber: async () => latestBlock,
+      getBlock: async (blockNumber: number) => ({ number: blockNumber, hash: `0x${blockNumber.toString(16)}` }),
+    },
+    filters: Object.fromEntries(eventNames.map((eventName) => [eventName, () => ({ topics: [eventName] })])),
+    queryFilter: async ({ topics }, fromBlock: number, toBlock: number) =>
+      (events[topics[0]] ?? []).filter((event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock),
+  } as unknown as Contract;
+}
+
+function buildEvent(event: string, blockNumber: number, args: { [arg: string]: any }) {
+  return { event, blockNumber, transactionIndex: 0, logIndex: 0, transactionHash: `0x${blockNumber}`, args };
+}
+
+function buildDepositEvent(depositId: number) {
+  return buildEvent("FundsDeposited", depositId + 1, {
+    amount,
+    originChainId,
+    destinationChainId,
+    relayerFeePct,
+    depositId,
+    quoteTimestamp: 1000,
+    originToken,
+    recipient: depositor,
+    depositor,
+  });
+}
+
+function buildFillEvent(depositId: number, blockNumber: number, fillAmount: BigNumber, totalFilledAmount: BigNumber) {
+  return buildEvent("FilledRelay", blockNumber, {
+    amount,
+    totalFilledAmount,
+    fillAmount,
+    repaymentChainId,
+    originChainId,
+    destinationChainId,
+    relayerFeePct,
+    appliedRelayerFeePct: relayerFeePct,
+    realizedLpFeePct: toBN(0),
+    depositId,
+    destinationToken: zeroAddress,
+    relayer,
+    depositor,
+    recipient: depositor,
+    isSlowRelay: false,
+  });
+}
+
+// The lookups that the clients made before deposits and fills were indexed.
+function scanForDeposit(fill: Fill): Deposit | undefined {
+  return originClient
+    .getDepositsForDestinationChain(fill.destinationChainId)
+    .find((deposit) => deposit.depositId === fill.depositId && originClient.validateFillForDeposit(fill, deposit));
+}
+
+function scanForFills(deposit: Deposit): Fill[] {
+  return destinationClient
+    .getFillsForOriginChain(deposit.originChainId)
+    .filter((fill) => fill.depositId === deposit.depositId && destinationClient.validateFillForDeposit(fill, deposit));
+}
+
+function timeLookups(lookup: () => void): number {
+  const start = performance.now();
+  lookup();
+  return performance.now() - start;
+}
+
+describe("SpokePoolClient: Lookups", async function () {
+  before(async function () {
+    this.timeout(120000);
+    const depositEvents = [...Array(numDeposits).keys()].map(buildDepositEvent);
+    const fillEvents = [];
+    for (let depositId = 0; depositId < numDeposits; depositId += 2) {
+      const partialAmount = amount.div(2);
+      fillEvents.push(buildFillEvent(depositId, 2 * depositId + 1, partialAmount, partialAmount));
+      fillEvents.push(buildFillEvent(depositId, 2 * depositId + 2, amount.sub(partialAmount), amount));
+    }
+
+    const { spyLogger } = createSpyLogger();
+    const originSpokePool = constructSpokePool(originChainId, { FundsDeposited: depositEvents });
+    const destinationSpokePool = constructSpokePool(destinationChainId, { FilledRelay: fillEvents });
+    originClient = new SpokePoolClient(spyLogger, originSpokePool, null, originChainId);
+    destinationClient = new SpokePoolClient(spyLogger, destinationSpokePool, null, destinationChainId);
+    await originClient.update();
+    await destinationClient.update();
+  });
+
+  it("Looks up deposits and fills by deposit ID", async function () {
+    const deposit = originClient.getDeposit(destinationChainId, 100);
+    expect(deposit).to.include({ depositId: 100, originChainId, destinationChainId, destinationToken: zeroAddress });
+    expect(originClient.getDeposit(destinationChainId, 100, true)).to.include({ originBlockNumber: 101 });
+    expect(originClient.getDeposit(destinationChainId, numDeposits)).to.be.undefined;
+    expect(originClient.getDeposit(originChainId, 100)).to.be.undefined;
+
+    const fills = destinationClient.getFillsForDeposit(originChainId, 100);
+    expect(fills.map((fill) => fill.totalFilledAmount)).to.deep.equal([amount.div(2), amount]);
+    expect(
+      (destinationClient.getFillsForDeposit(originChainId, 100, true) as FillWithBlock[]).map(
+        ({ blockNumber }) => blockNumber
+      )
+    ).to.deep.equal([201, 202]);
+    expect(destinationClient.getFillsForDeposit(originChainId, 101)).to.deep.equal([]);
+    expect(destinationClient.getFillsForDeposit(destinationChainId, 100)).to.deep.equal([]);
+
+    expect(originClient.getDepositForFill(fills[0])).to.deep.equal(deposit);
+    expect(originClient.getDepositForFill({ ...fills[0], amount: amount.add(1) })).to.be.undefined;
+    expect(destinationClient.getValidUnfilledAmountForDeposit(deposit)).to.deep.equal({
+      unfilledAmount: toBN(0),
+      fillCount: 2,
+    });
+    const unfilledDeposit = originClient.getDeposit(destinationChainId, 101);
+    expect(destinationClient.getValidUnfilledAmountForDeposit(unfilledDeposit)).to.deep.equal({
+      unfilledAmount: amount,
+      fillCount: 0,
+    });
+  });
+
+  it("Looks up deposits and fills much faster than scanning for them", async function () {
+    if (!benchmark) this.skip();
+    this.timeout(120000);
+    // Every sampled deposit is filled, as the sampled deposit IDs are even.
+    const depositIds = [...Array(1000).keys()].map((index) => index * (numDeposits / 1000));
+    const deposits = depositIds.map((depositId) => originClient.getDeposit(destinationChainId, depositId));
+    const fills = depositIds.map((depositId) => destinationClient.getFillsForDeposit(originChainId, depositId)[0]);
+
+    // The indexed lookups return what scanning returns.
+    for (const [index, deposit] of deposits.entries()) {
+      expect(destinationClient.getValidUnfilledAmountForDeposit(deposit).fillCount).to.equal(
+        scanForFills(deposit).length
+      );
+      expect(originClient.getDepositForFill(fills[index])).to.equal(scanForDeposit(fills[index]));
+    }
+
+    const scanTime = timeLookups(() => {
+      deposits.forEach(scanForFills);
+      fills.forEach(scanForDeposit);
+    });
+    const indexedTime = timeLookups(() => {
+      deposits.forEach((deposit) => destinationClient.getValidUnfilledAmountForDeposit(deposit));
+      fills.forEach((fill) => originClient.getDepositForFill(fill));
+    });
+    expect(scanTime / indexedTime).to.be.greaterThan(20);
+  });
+});
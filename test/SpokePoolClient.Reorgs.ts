@@ -0,0 +1,81 @@
+import { expect, ethers, Contract, SignerWithAddress, getContractFactory, createSpyLogger, hre } from "./utils";
+import { randomAddress, enableRoutes, zeroAddress, originChainId, destinationChainId, sinon, winston } from "./utils";
+
+import { SpokePoolClient } from "../src/clients"; // tested
+
+let spokePool: Contract, owner: SignerWithAddress;
+let spy: sinon.SinonSpy, spyLogger: winston.Logger;
+let spokePoolClient: SpokePoolClient;
+
+// Reorgs are simulated by reverting to a snapshot of the chain and mining different blocks in place of the reverted ones.
+const takeSnapshot = async () => await hre.network.provider.send("evm_snapshot");
+const revertToSnapshot = async (snapshot: string) => await hre.network.provider.send("evm_revert", [snapshot]);
+
+function getReorgLog() {
+  return spy.getCalls().find((call) => call.lastArg.message.includes("Reorg of"))?.lastArg;
+}
+
+describe("SpokePoolClient: Reorgs", async function () {
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+    ({ spy, spyLogger } = createSpyLogger());
+    spokePool = await (
+      await getContractFactory("MockSpokePool", owner)
+    ).deploy(owner.address, owner.address, zeroAddress, zeroAddress);
+    spokePoolClient = new SpokePoolClient(spyLogger, spokePool, null, originChainId);
+  });
+
+  it("Drops events from reorged blocks and queries them again", async function () {
+    const [originToken1, originToken2, originToken3] = [randomAddress(), randomAddress(), randomAddress()];
+    await enableRoutes(spokePool, [{ originToken: originToken1, destinationChainId }]);
+    await spokePoolClient.update();
+
+    const snapshot = await takeSnapshot();
+    await enableRoutes(spokePool, [{ originToken: originToken2, destinationChainId }]);
+    await spokePoolClient.update();
+    expect(Object.keys(spokePoolClient.getDepositRoutes())).to.deep.equal([originToken1, originToken2]);
+    const reorgedBlock = await ethers.provider.getBlockNumber();
+
+    await revertToSnapshot(snapshot);
+    await enableRoutes(spokePool, [{ originToken: originToken3, destinationChainId }]);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getDepositRoutes()).to.deep.equal({
+      [originToken1]: { [destinationChainId]: true },
+      [originToken3]: { [destinationChainId]: true },
+    });
+
+    // The route enabled in the reorged block is reported as dropped and the route enabled in its place as added.
+    const reorgLog = getReorgLog();
+    expect(reorgLog.level).to.equal("warn");
+    expect(reorgLog).to.include({ forkBlock: reorgedBlock, depth: 1 });
+    expect(reorgLog.droppedEvents.map(({ event }) => event)).to.deep.equal(["EnabledDepositRoute"]);
+    expect(reorgLog.addedEvents.map(({ event }) => event)).to.deep.equal(["EnabledDepositRoute"]);
+    expect(reorgLog.droppedEvents[0].transactionHash).to.not.equal(reorgLog.addedEvents[0].transactionHash);
+  });
+
+  it("Finds events in place of reorged blocks that held none", async function () {
+    await spokePoolClient.update();
+    const snapshot = await takeSnapshot();
+    await hre.network.provider.send("evm_mine");
+    await hre.network.provider.send("evm_mine");
+    await spokePoolClient.update();
+
+    // The client already searched up to the height of the new chain, but the reorg moves its search back.
+    await revertToSnapshot(snapshot);
+    const originToken = randomAddress();
+    await enableRoutes(spokePool, [{ originToken, destinationChainId }]);
+    await hre.network.provider.send("evm_mine");
+    await spokePoolClient.update();
+    expect(spokePoolClient.getDepositRoutes()).to.deep.equal({ [originToken]: { [destinationChainId]: true } });
+    expect(getReorgLog()).to.include({ depth: 2 });
+  });
+
+  it("Does not report reorgs when the chain only grows", async function () {
+    await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    await spokePoolClient.update();
+    await enableRoutes(spokePool, [{ originToken: randomAddress(), destinationChainId }]);
+    await spokePoolClient.update();
+    expect(Object.keys(spokePoolClient.getDepositRoutes()).length).to.equal(2);
+    expect(getReorgLog()).to.be.undefined;
+  });
+});
@@ -0,0 +1,33 @@
+import { BigNumber, toBN } from "../utils";
+import { BaseAdapter, CrossChainTransfer, L1ToL2Transaction } from "../../src/clients";
+
+export class MockAdapter extends BaseAdapter {
+  public transfersSent: { l1Token: string; l2Token: string; amount: BigNumber }[] = [];
+
+  async getL1ApprovalTarget(): Promise<string> {
+    return null;
+  }
+
+  async buildL1ToL2Transaction(): Promise<L1ToL2Transaction> {
+    return null;
+  }
+
+  protected async queryL1InitiatedTransfers(): Promise<CrossChainTransfer[]> {
+    return [];
+  }
+
+  protected async queryL2FinalizedTransfers(): Promise<CrossChainTransfer[]> {
+    return [];
+  }
+
+  async sendTokenToL2(l1Token: string, l2Token: string, amount: BigNumber): Promise<string> {
+    this.transfersSent.push({ l1Token, l2Token, amount });
+    return "0x";
+  }
+
+  getOutstandingTransferAmount(l1Token: string): BigNumber {
+    return this.transfersSent
+      .filter((transfer) => transfer.l1Token === l1Token)
+      .reduce((total, { amount }) => total.add(amount), toBN(0));
+  }
+}
@@ -1,9 +1,13 @@
-import { L1Token } from "../../src/interfaces";
+import { L1Token, Deposit } from "../../src/interfaces";
 import { HubPoolClient } from "../../src/clients";
+import { BigNumber, toBN } from "../utils";
 
 export class MockHubPoolClient extends HubPoolClient {
   private l1TokensMock: L1Token[] = []; // L1Tokens and their associated info.
   private tokenInfoToReturn: L1Token;
+  private l1TokensToDestinationTokensMock: { [l1Token: string]: { [destinationChainId: number]: string } } = {};
+  private runningBalancesMock: { [chainId: number]: { [l1Token: string]: BigNumber } } = {};
+  private bundleBlockRangesMock: { [relayerRefundRoot: string]: { [chainId: number]: number[] } } = {};
 
   addL1Token(l1Token: L1Token) {
     this.l1TokensMock.push(l1Token);
@@ -13,6 +17,10 @@ export class MockHubPoolClient extends HubPoolClient {
     return this.l1TokensMock;
   }
 
+  getTokenInfoForL1Token(l1Token: string) {
+    return this.l1TokensMock.find((token) => token.address === l1Token);
+  }
+
   getTokenInfoForDeposit() {
     return this.tokenInfoToReturn;
   }
@@ -20,4 +28,36 @@ export class MockHubPoolClient extends HubPoolClient {
   setTokenInfoToReturn(tokenInfo: L1Token) {
     this.tokenInfoToReturn = tokenInfo;
   }
+
+  setL1TokensToDestinationTokens(l1TokensToDestinationTokens: {
+    [l1Token: string]: { [destinationChainId: number]: string };
+  }) {
+    this.l1TokensToDestinationTokensMock = l1TokensToDestinationTokens;
+  }
+
+  getL1TokensToDestinationTokens() {
+    return this.l1TokensToDestinationTokensMock;
+  }
+
+  getL1TokenForDeposit(deposit: Deposit) {
+    return Object.keys(this.l1TokensToDestinationTokensMock).find(
+      (l1Token) => this.l1TokensToDestinationTokensMock[l1Token][deposit.originChainId] === deposit.originToken
+    );
+  }
+
+  setRunningBalance(chainId: number, l1Token: string, runningBalance: BigNumber) {
+    this.runningBalancesMock[chainId] = { ...this.runningBalancesMock[chainId], [l1Token]: runningBalance };
+  }
+
+  getRunningBalanceBeforeBlockForChain(_block: number, chain: number, l1Token: string) {
+    return this.runningBalancesMock[chain]?.[l1Token] ?? toBN(0);
+  }
+
+  setBundleBlockRanges(relayerRefundRoot: string, bundleBlockRanges: { [chainId: number]: number[] }) {
+    this.bundleBlockRangesMock[relayerRefundRoot] = bundleBlockRanges;
+  }
+
+  getBundleBlockRangesForRelayerRefundRoot(relayerRefundRoot: string) {
+    return this.bundleBlockRangesMock[relayerRefundRoot];
+  }
 }
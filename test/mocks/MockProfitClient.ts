@@ -1,10 +1,22 @@
 import { BigNumber } from "../utils";
 import { ProfitClient } from "../../src/clients";
+import { TokenPrice } from "../../src/interfaces";
+import { getCurrentTime } from "../../src/utils";
 
 export class MockProfitClient extends ProfitClient {
   setTokenPrices(tokenPrices: { [l1Token: string]: BigNumber }) {
-    this.tokenPrices = tokenPrices;
+    this.tokenPrices = this.toTokenPrices(tokenPrices);
+  }
+
+  setNativeTokenPrices(nativeTokenPrices: { [chainId: number]: BigNumber }) {
+    this.nativeTokenPrices = this.toTokenPrices(nativeTokenPrices);
   }
 
   async update() {}
+
+  private toTokenPrices(prices: { [key: string]: BigNumber }): { [key: string]: TokenPrice } {
+    return Object.fromEntries(
+      Object.entries(prices).map(([key, price]) => [key, { price, timestamp: getCurrentTime(), source: "mock" }])
+    );
+  }
 }
@@ -0,0 +1,32 @@
+import { FillWithBlock, RelayerRefundExecutionWithBlock, RootBundleRelayWithBlock } from "../../src/interfaces";
+import { SpokePoolClient } from "../../src/clients";
+
+export class MockSpokePoolClient extends SpokePoolClient {
+  private fillsMock: FillWithBlock[] = [];
+  private relayerRefundExecutionsMock: RelayerRefundExecutionWithBlock[] = [];
+  private rootBundleRelaysMock: RootBundleRelayWithBlock[] = [];
+
+  addFill(fill: FillWithBlock) {
+    this.fillsMock.push(fill);
+  }
+
+  getFillsForRelayer(relayer: string) {
+    return this.fillsMock.filter((fill) => fill.relayer === relayer);
+  }
+
+  addRelayerRefundExecution(relayerRefundExecution: RelayerRefundExecutionWithBlock) {
+    this.relayerRefundExecutionsMock.push(relayerRefundExecution);
+  }
+
+  getRelayerRefundExecutions() {
+    return this.relayerRefundExecutionsMock;
+  }
+
+  addRootBundleRelay(rootBundleRelay: RootBundleRelayWithBlock) {
+    this.rootBundleRelaysMock.push(rootBundleRelay);
+  }
+
+  getRootBundleRelays() {
+    return this.rootBundleRelaysMock;
+  }
+}
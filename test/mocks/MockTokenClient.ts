@@ -0,0 +1,12 @@
+import { BigNumber } from "../utils";
+import { TokenClient } from "../../src/clients";
+
+export class MockTokenClient extends TokenClient {
+  setTokenData(chainId: number, token: string, balance: BigNumber, allowance: BigNumber = balance) {
+    const tokenData = this.getAllTokenData();
+    if (!tokenData[chainId]) tokenData[chainId] = {};
+    tokenData[chainId][token] = { balance, allowance };
+  }
+
+  async update() {}
+}
@@ -1,2 +1,5 @@
 export * from "./MockHubPoolClient";
 export * from "./MockProfitClient";
+export * from "./MockTokenClient";
+export * from "./MockSpokePoolClient";
+export * from "./MockAdapter";
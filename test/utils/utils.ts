@@ -356,6 +356,31 @@ export async function buildDepositStruct(
       .realizedLpFeePct,
   };
 }
+// Builds the Deposit struct of a deposit that was never submitted, for tests of clients that only read deposits. Its
+// tokens are looked up in l2TokensForChain by chain ID, or are random addresses for chains that it does not contain.
+export function buildMockDeposit(
+  originChainId: number,
+  destinationChainId: number,
+  amount: BigNumber = toBNWei(1),
+  l2TokensForChain: { [chainId: number]: string } = {},
+  deposit: Partial<Deposit> = {}
+): Deposit {
+  return {
+    depositId: 0,
+    depositor: utils.randomAddress(),
+    recipient: utils.randomAddress(),
+    originToken: l2TokensForChain[originChainId] ?? utils.randomAddress(),
+    amount,
+    originChainId,
+    destinationChainId,
+    relayerFeePct: toBNWei("0.01"),
+    quoteTimestamp: 0,
+    realizedLpFeePct: toBN(0),
+    destinationToken: l2TokensForChain[destinationChainId] ?? utils.randomAddress(),
+    ...deposit,
+  };
+}
+
 export async function buildDeposit(
   configStoreClient: AcrossConfigStoreClient,
   hubPoolClient: HubPoolClient,